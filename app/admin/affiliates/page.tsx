@@ -0,0 +1,316 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Loader2,
+  Check,
+  X,
+  Download,
+  Banknote,
+  AlertCircle,
+  CheckCircle2
+} from "lucide-react";
+import { auth } from "@/lib/firebase";
+import { ADMIN_BILLING_ROLES } from "@/lib/admin-roles";
+import { formatPrice } from "@/lib/pricing";
+import {
+  COMMISSION_STATUS_LABELS,
+  formatCommissionTotal,
+  type Commission,
+  type CommissionStatus,
+  type Payout
+} from "@/lib/affiliates";
+import { authFetch } from "@/utils/auth-fetch";
+import { getAdminRole } from "@/utils/admin-auth";
+import type { AdminRole } from "@/types/admin";
+
+const STATUS_FILTERS: CommissionStatus[] = ['pending', 'approved', 'paid', 'rejected'];
+
+export default function AffiliatesPage() {
+  const [status, setStatus] = useState<CommissionStatus>('pending');
+  const [commissions, setCommissions] = useState<Commission[]>([]);
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [currentRole, setCurrentRole] = useState<AdminRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const canEdit = !!currentRole && ADMIN_BILLING_ROLES.includes(currentRole);
+
+  useEffect(() => {
+    loadPayouts();
+  }, []);
+
+  useEffect(() => {
+    loadCommissions();
+  }, [status]);
+
+  const loadCommissions = async () => {
+    setIsLoading(true);
+    setSelected([]);
+
+    try {
+      const role = await getAdminRole(auth.currentUser);
+      setCurrentRole(role);
+
+      const response = await authFetch(`/api/admin/affiliates/commissions?status=${status}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setCommissions(data.commissions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load commissions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadPayouts = async () => {
+    try {
+      const response = await authFetch('/api/admin/affiliates/payouts');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setPayouts(data.payouts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load payouts');
+    }
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const handleReview = async (review: 'approved' | 'rejected') => {
+    setIsUpdating(true);
+    setError(null);
+
+    try {
+      const response = await authFetch('/api/admin/affiliates/commissions', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: selected, status: review })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      const reviewed = new Set(data.commissions.map((c: Commission) => c.id));
+      setCommissions(prev => prev.filter(c => !reviewed.has(c.id)));
+      setSelected([]);
+      showSuccess(`${reviewed.size} commission${reviewed.size === 1 ? '' : 's'} ${review}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update commissions');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleCreatePayout = async () => {
+    if (!confirm('Mark every approved commission as paid? Send the money from the CSV export.')) return;
+
+    setIsUpdating(true);
+    setError(null);
+
+    try {
+      const response = await authFetch('/api/admin/affiliates/payouts', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setPayouts(prev => [data.payout, ...prev]);
+      if (status === 'approved') setCommissions([]);
+      showSuccess(`Payout created for ${data.payout.commissionIds.length} commissions`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create payout');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleExport = async (payout: Payout) => {
+    setError(null);
+
+    try {
+      const response = await authFetch(`/api/admin/affiliates/payouts/${payout.id}`);
+      if (!response.ok) throw new Error((await response.json()).error);
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `payout-${payout.id}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export payout');
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  const toggleAll = () => {
+    setSelected(selected.length === commissions.length ? [] : commissions.map(c => c.id));
+  };
+
+  const canReview = canEdit && status === 'pending';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Affiliates</h1>
+        {canEdit && (
+          <button
+            onClick={handleCreatePayout}
+            disabled={isUpdating}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center"
+          >
+            <Banknote className="w-4 h-4 mr-2" />
+            Pay Approved Commissions
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-600 rounded-lg flex items-start">
+          <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="p-4 bg-green-50 text-green-600 rounded-lg flex items-start">
+          <CheckCircle2 className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+          <p>{successMessage}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex space-x-2">
+            {STATUS_FILTERS.map(filter => (
+              <button
+                key={filter}
+                onClick={() => setStatus(filter)}
+                className={`px-3 py-1 rounded-lg text-sm ${status === filter
+                  ? 'bg-blue-600 text-white'
+                  : 'border hover:bg-gray-50'}`}
+              >
+                {COMMISSION_STATUS_LABELS[filter]}
+              </button>
+            ))}
+          </div>
+
+          {canReview && selected.length > 0 && (
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-500">{selected.length} selected</span>
+              <button
+                onClick={() => handleReview('approved')}
+                disabled={isUpdating}
+                className="px-3 py-1 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 disabled:opacity-50 flex items-center"
+              >
+                <Check className="w-4 h-4 mr-1" />
+                Approve
+              </button>
+              <button
+                onClick={() => handleReview('rejected')}
+                disabled={isUpdating}
+                className="px-3 py-1 border rounded-lg text-sm text-red-600 hover:bg-red-50 disabled:opacity-50 flex items-center"
+              >
+                <X className="w-4 h-4 mr-1" />
+                Reject
+              </button>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <Loader2 className="w-6 h-6 animate-spin" />
+        ) : commissions.length === 0 ? (
+          <p className="text-sm text-gray-500">No {COMMISSION_STATUS_LABELS[status].toLowerCase()} commissions</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500">
+              {commissions.length} commissions totalling {formatCommissionTotal(commissions)}
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  {canReview && (
+                    <th className="py-2 w-8">
+                      <input
+                        type="checkbox"
+                        checked={selected.length === commissions.length}
+                        onChange={toggleAll}
+                      />
+                    </th>
+                  )}
+                  <th className="py-2">Date</th>
+                  <th className="py-2">Business</th>
+                  <th className="py-2">Affiliate</th>
+                  <th className="py-2">Payment</th>
+                  <th className="py-2">Commission</th>
+                  <th className="py-2">{status === 'paid' ? 'Payout' : 'Reviewed by'}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {commissions.map(commission => (
+                  <tr key={commission.id}>
+                    {canReview && (
+                      <td className="py-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(commission.id)}
+                          onChange={() => toggleSelected(commission.id)}
+                        />
+                      </td>
+                    )}
+                    <td className="py-2">{new Date(commission.createdAt).toLocaleDateString()}</td>
+                    <td className="py-2">{commission.companyName || commission.businessId}</td>
+                    <td className="py-2 font-mono text-xs">{commission.affiliateUid}</td>
+                    <td className="py-2">{formatPrice(commission.amountPaid / 100, commission.currency)}</td>
+                    <td className="py-2 font-medium">{formatPrice(commission.amount / 100, commission.currency)}</td>
+                    <td className="py-2 text-gray-500">
+                      {status === 'paid'
+                        ? commission.payoutId
+                        : [commission.reviewedBy, commission.rejectionReason].filter(Boolean).join(' · ') || '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-bold mb-4">Payouts</h2>
+        {payouts.length === 0 && (
+          <p className="text-sm text-gray-500">No payouts yet</p>
+        )}
+        <div className="divide-y">
+          {payouts.map(payout => (
+            <div key={payout.id} className="py-3 flex items-center justify-between">
+              <div>
+                <h3 className="font-medium">{new Date(payout.createdAt).toLocaleString()}</h3>
+                <div className="text-sm text-gray-500">
+                  {payout.lines.length} affiliates • {payout.commissionIds.length} commissions •{' '}
+                  {formatCommissionTotal(payout.lines)} • by {payout.createdBy}
+                </div>
+              </div>
+              {canEdit && (
+                <button
+                  onClick={() => handleExport(payout)}
+                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
+                  title="Export CSV"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
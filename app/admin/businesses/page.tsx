@@ -7,11 +7,39 @@ import {
   FileText, 
   X, 
   AlertCircle, 
-  CheckCircle2 
+  CheckCircle2,
+  RotateCcw,
+  Ban,
+  ChevronDown,
+  ChevronUp,
+  Download
 } from "lucide-react";
+import { auth } from "@/lib/firebase";
+import { ADMIN_BILLING_ROLES, ADMIN_WRITE_ROLES } from "@/lib/admin-roles";
+import {
+  ADMIN_MANAGED_STATUSES,
+  BUSINESS_STATUSES,
+  BUSINESS_STATUS_LABELS,
+  canTransition,
+  getNextStatuses,
+  normalizeStatus,
+  type BusinessStatus
+} from "@/lib/business-lifecycle";
+import { StatusBadge } from "@/components/business/status-badge";
+import { StatusHistory } from "@/components/business/status-history";
+import { EventTimeline } from "@/components/business/event-timeline";
+import type { BusinessEvent } from "@/lib/business-events";
+import { adminNotesSchema } from "@/lib/business-schema";
+import { getOwnerFields, getRequiredDocuments, getSubdivisionStep } from "@/lib/jurisdictions";
+import { getDocumentArchiveUrl, getDocumentUrl } from "@/lib/documents";
+import { useBusinessDocuments } from "@/hooks/use-business-documents";
+import { DocumentVersions } from "@/components/business/document-versions";
+import { authFetch } from "@/utils/auth-fetch";
+import { getAdminRole } from "@/utils/admin-auth";
+import type { AdminRole } from "@/types/admin";
 
 interface Document {
-  url: string;
+  id: string;
   name: string;
 }
 
@@ -20,8 +48,9 @@ interface Owner {
   fullName: string;
   ownership: number;
   birthDate: string;
-  documentUrl?: string;
+  documentId?: string;
   documentName?: string;
+  details?: Record<string, string>;
 }
 
 interface PaymentDetails {
@@ -30,17 +59,36 @@ interface PaymentDetails {
   paymentMethod: string;
   status: string;
   stripePaymentIntentId: string;
+  amountRefunded?: number;
   createdAt: {
     seconds: number;
     nanoseconds: number;
   };
 }
 
+interface Refund {
+  id: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  actor: { uid: string; email: string; role: string };
+  createdAt: { _seconds: number; _nanoseconds: number };
+}
+
+interface StatusHistoryEntry {
+  from: string;
+  to: string;
+  reason: string;
+  actor: { uid: string; email: string; role: string } | null;
+  changedAt: { _seconds: number; _nanoseconds: number };
+}
+
 interface Business {
   id: string;
   userId: string;
   userEmail: string;
-  status: 'completed' | 'draft';
+  status: BusinessStatus | 'completed';
+  statusHistory?: StatusHistoryEntry[];
   company?: {
     name: string;
     type: string;
@@ -53,6 +101,10 @@ interface Business {
     name: string;
     price: number;
   };
+  state?: {
+    name: string;
+    price: number;
+  };
   address?: {
     street: string;
     city: string;
@@ -61,6 +113,12 @@ interface Business {
     country: string;
   };
   paymentDetails?: PaymentDetails;
+  refunds?: Refund[];
+  cancellation?: {
+    reason: string;
+    actor: { uid: string; email: string; role: string };
+  };
+  adminNotes?: string;
   documents?: Record<string, Document>;
   owner?: Owner[];
   createdAt: FirebaseFirestore.Timestamp;
@@ -73,43 +131,25 @@ interface EditBusinessProps {
   onUpdate: (updatedBusiness: Business) => void;
 }
 
-interface DocumentType {
-  key: string;
-  name: string;
-}
-
-interface DocumentTypes {
-  [key: string]: string;
+interface BillingActionProps {
+  business: Business;
+  action: 'refund' | 'cancel';
+  onClose: () => void;
+  onComplete: () => void;
 }
 
-
-const getRequiredDocuments = (country: string, packageName: string): DocumentTypes => {
-  if (country === "United Kingdom") {
-    return {
-      businessRegistration: 'Business Registration'
-    };
-  }
-
-  if (country === "United States") {
-    const docs: DocumentTypes = {
-      filedArticlesAndOrganizer: 'Filed Articles & Statement of the Organizer',
-      einTaxId: 'EIN / Tax ID Number',
-      boiReport: 'BOI Report'
-    };
-
-    if (packageName === "enterprise") {
-      return {
-        ...docs,
-        itinNumber: 'ITIN Number'
-      };
-    }
-
-    return docs;
-  }
-
-  return {};
+// Error message for a failed API call, including per-field validation errors
+const getResponseError = (data: { error?: string; fields?: Record<string, string> }) => {
+  const fields = Object.entries(data.fields || {})
+    .map(([field, message]) => `${field || 'body'}: ${message}`);
+  return [data.error, ...fields].filter(Boolean).join('. ');
 };
 
+interface StatusControlProps {
+  business: Business;
+  onChanged: () => void;
+}
+
 function EditBusiness({ business, onClose, onUpdate }: EditBusinessProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -121,6 +161,7 @@ function EditBusiness({ business, onClose, onUpdate }: EditBusinessProps) {
     business.country?.name || '',
     business.package?.name || ''
   );
+  const versions = useBusinessDocuments(business.userId, business.id, business.documents);
 
   const handleFileSelect = (docKey: string, file: File | null) => {
     if (file) {
@@ -144,7 +185,7 @@ function EditBusiness({ business, onClose, onUpdate }: EditBusinessProps) {
     setSuccessMessage(null);
 
     try {
-      const documentUrls: Record<string, Document> = {};
+      const uploadedDocuments: Record<string, Document> = {};
       const totalFiles = Object.keys(documents).length;
       let uploadedCount = 0;
 
@@ -155,22 +196,24 @@ function EditBusiness({ business, onClose, onUpdate }: EditBusinessProps) {
         const formData = new FormData();
         formData.append('file', file);
         formData.append('userId', business.userId);
+        formData.append('businessId', business.id);
+        formData.append('type', docKey);
         
-        const uploadResponse = await fetch('/api/upload', {
+        const uploadResponse = await authFetch('/api/upload', {
           method: 'POST',
           body: formData
         });
 
-        // Now TypeScript knows that DOCUMENT_TYPES[docKey] is safe
+        const uploaded = await uploadResponse.json();
         if (!uploadResponse.ok) {
-          const docName = DOCUMENT_TYPES[docKey] || 'document';
-          throw new Error(`Failed to upload ${docName}`);
+          const docName = DOCUMENT_TYPES.find(doc => doc.key === docKey)?.name || 'document';
+          throw new Error(`Failed to upload ${docName}${uploaded.error ? `: ${uploaded.error}` : ''}`);
         }
         
-        const { url } = await uploadResponse.json();
+        const { id } = uploaded;
         
-        documentUrls[docKey] = {
-          url,
+        uploadedDocuments[docKey] = {
+          id,
           name: file.name
         };
 
@@ -179,12 +222,12 @@ function EditBusiness({ business, onClose, onUpdate }: EditBusinessProps) {
 
       const updatedDocuments = {
         ...(business.documents || {}),
-        ...documentUrls
+        ...uploadedDocuments
       };
 
       setSuccessMessage('Saving changes...');
 
-      const response = await fetch(
+      const response = await authFetch(
         `/api/businesses/${business.userId}/${business.id}`,
         {
           method: 'PUT',
@@ -197,9 +240,8 @@ function EditBusiness({ business, onClose, onUpdate }: EditBusinessProps) {
         }
       );
 
-      if (!response.ok) throw new Error('Failed to update business');
-
       const result = await response.json();
+      if (!response.ok) throw new Error(getResponseError(result) || 'Failed to update business');
 
       const updatedBusiness = {
         ...business,
@@ -260,7 +302,7 @@ function EditBusiness({ business, onClose, onUpdate }: EditBusinessProps) {
               {isLoading && <Loader2 className="w-4 h-4 ml-2 animate-spin" />}
             </h3>
             <div className="space-y-4">
-              {Object.entries(DOCUMENT_TYPES).map(([key, name]) => (
+              {DOCUMENT_TYPES.map(({ key, name }) => (
                 <div key={key} className="p-4 border rounded-lg hover:border-blue-200 transition-colors">
                   <div className="flex-1">
                     <label className="block text-sm font-medium mb-2 text-gray-700">
@@ -272,7 +314,7 @@ function EditBusiness({ business, onClose, onUpdate }: EditBusinessProps) {
                         onChange={(e) => handleFileSelect(key, e.target.files?.[0] || null)}
                         className="hidden"
                         id={key}
-                        accept=".pdf,.doc,.docx,.txt"
+                        accept=".pdf,.jpg,.jpeg,.png"
                       />
                       <label
                         htmlFor={key}
@@ -312,22 +354,25 @@ function EditBusiness({ business, onClose, onUpdate }: EditBusinessProps) {
             <div className="pt-6 border-t">
               <h3 className="font-medium mb-4">Current Documents</h3>
               <div className="bg-gray-50 rounded-lg divide-y divide-gray-200">
-                {Object.entries(DOCUMENT_TYPES).map(([key, name]) => {
+                {DOCUMENT_TYPES.map(({ key, name }) => {
                   const doc = business.documents?.[key];
                   if (!doc) return null;
                   
                   return (
-                    <div key={key} className="flex items-center justify-between p-4 hover:bg-gray-100 transition-colors">
-                      <span className="font-medium text-gray-700">{name}</span>
-                      <a
-                        href={doc.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-blue-600 hover:text-blue-800 flex items-center space-x-2 px-3 py-1 hover:bg-blue-50 rounded-lg transition-colors"
-                      >
-                        <FileText className="w-4 h-4" />
-                        <span className="text-sm">{doc.name}</span>
-                      </a>
+                    <div key={key} className="p-4 hover:bg-gray-100 transition-colors">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-700">{name}</span>
+                        <a
+                          href={getDocumentUrl(doc.id)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:text-blue-800 flex items-center space-x-2 px-3 py-1 hover:bg-blue-50 rounded-lg transition-colors"
+                        >
+                          <FileText className="w-4 h-4" />
+                          <span className="text-sm">{doc.name}</span>
+                        </a>
+                      </div>
+                      <DocumentVersions versions={versions[key]} currentId={doc.id} showUploader />
                     </div>
                   );
                 })}
@@ -364,21 +409,346 @@ function EditBusiness({ business, onClose, onUpdate }: EditBusinessProps) {
   );
 }
 
+const formatCents = (amount: number, currency = 'usd') =>
+  (amount / 100).toLocaleString('en-US', { style: 'currency', currency: currency.toUpperCase() });
+
+function BillingAction({ business, action, onClose, onComplete }: BillingActionProps) {
+  const paymentDetails = business.paymentDetails;
+  const refundable = paymentDetails?.status === 'succeeded'
+    ? paymentDetails.amount - (paymentDetails.amountRefunded || 0)
+    : 0;
+
+  const [amount, setAmount] = useState((refundable / 100).toFixed(2));
+  const [reason, setReason] = useState("");
+  const [refundRemaining, setRefundRemaining] = useState(refundable > 0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isRefund = action === 'refund';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const body = isRefund
+        ? { amount: Math.round(Number(amount) * 100), reason }
+        : { reason, refund: refundRemaining };
+
+      const response = await authFetch(
+        `/api/businesses/${business.userId}/${business.id}/${action}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body)
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      onComplete();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} business`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl p-6 max-w-lg w-full mx-4">
+        <div className="flex justify-between items-center mb-6 pb-4 border-b">
+          <div>
+            <h2 className="text-xl font-bold">
+              {isRefund ? 'Refund Payment' : 'Cancel Registration'}
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {business.company?.name || 'Unnamed Business'}
+              {paymentDetails && ` • Paid ${formatCents(paymentDetails.amount, paymentDetails.currency)}`}
+            </p>
+          </div>
+          <button 
+            onClick={onClose} 
+            className="text-gray-400 hover:text-gray-600 transition-colors p-2 hover:bg-gray-100 rounded-full"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 text-red-600 rounded-lg flex items-start">
+            <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+            <p>{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {isRefund ? (
+            <div>
+              <label className="block text-sm font-medium mb-2 text-gray-700">
+                Amount (up to {formatCents(refundable, paymentDetails?.currency)})
+              </label>
+              <input
+                type="number"
+                min="0.01"
+                max={(refundable / 100).toFixed(2)}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full border rounded-lg px-3 py-2"
+                required
+              />
+            </div>
+          ) : refundable > 0 && (
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={refundRemaining}
+                onChange={(e) => setRefundRemaining(e.target.checked)}
+              />
+              <span>Refund the remaining {formatCents(refundable, paymentDetails?.currency)}</span>
+            </label>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium mb-2 text-gray-700">Reason</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="w-full border rounded-lg px-3 py-2"
+              rows={3}
+              required
+            />
+          </div>
+
+          <div className="flex justify-end space-x-4 pt-4 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Close
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+            >
+              {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {isRefund ? 'Issue Refund' : 'Cancel Registration'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// Moves a business to one of the next statuses an admin may set by hand
+function StatusControl({ business, onChanged }: StatusControlProps) {
+  const nextStatuses = getNextStatuses(business.status)
+    .filter(status => ADMIN_MANAGED_STATUSES.includes(status));
+  const [status, setStatus] = useState<BusinessStatus | ''>(nextStatuses[0] || '');
+  const [reason, setReason] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (nextStatuses.length === 0) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await authFetch(
+        `/api/businesses/${business.userId}/${business.id}/status`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ status, reason })
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(getResponseError(data));
+
+      setReason("");
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update status');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex flex-col md:flex-row gap-2">
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as BusinessStatus)}
+          className="border rounded-lg px-3 py-2 text-sm"
+        >
+          {nextStatuses.map(next => (
+            <option key={next} value={next}>{BUSINESS_STATUS_LABELS[next]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="Note (optional)"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          className="flex-1 border rounded-lg px-3 py-2 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={isLoading || !status}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm flex items-center justify-center"
+        >
+          {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Update Status
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </form>
+  );
+}
+
+// Notes shown on the business card, saved through the admin update route
+function AdminNotes({ business, canEdit, onSaved }: { business: Business; canEdit: boolean; onSaved: () => void }) {
+  const [notes, setNotes] = useState(business.adminNotes || "");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!canEdit) {
+    return <p className="text-sm text-gray-600 whitespace-pre-wrap">{business.adminNotes || "No notes"}</p>;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = adminNotesSchema.safeParse(notes);
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await authFetch(
+        `/api/businesses/${business.userId}/${business.id}`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ adminNotes: result.data })
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(getResponseError(data));
+
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save notes');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        rows={3}
+        placeholder="Notes are visible to the customer"
+        className="w-full border rounded-lg px-3 py-2 text-sm"
+      />
+      <div className="flex items-center justify-between">
+        {error ? <p className="text-sm text-red-600">{error}</p> : <span />}
+        <button
+          type="submit"
+          disabled={isLoading || notes === (business.adminNotes || "")}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm flex items-center"
+        >
+          {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Notes
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// Collapsible audit trail, loaded when first opened
+function BusinessActivity({ business }: { business: Business }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [events, setEvents] = useState<BusinessEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async () => {
+    setIsOpen(!isOpen);
+    if (isOpen) return;
+
+    setError(null);
+    try {
+      const response = await authFetch(`/api/businesses/${business.userId}/${business.id}/events`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setEvents(data.events);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load activity');
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={handleToggle}
+        className="w-full flex items-center justify-between font-semibold"
+      >
+        Activity
+        {isOpen ? <ChevronUp className="w-5 h-5 text-gray-500" /> : <ChevronDown className="w-5 h-5 text-gray-500" />}
+      </button>
+      {isOpen && (
+        <div className="mt-4">
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : events ? (
+            <EventTimeline events={events} />
+          ) : (
+            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function BusinessesPage() {
   const [businesses, setBusinesses] = useState<Business[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<'all' | 'completed' | 'draft'>("all");
+  const [statusFilter, setStatusFilter] = useState<'all' | BusinessStatus>("all");
   const [selectedBusinessForEdit, setSelectedBusinessForEdit] = useState<Business | null>(null);
+  const [billingAction, setBillingAction] = useState<{
+    business: Business;
+    action: 'refund' | 'cancel';
+  } | null>(null);
+  const [currentRole, setCurrentRole] = useState<AdminRole | null>(null);
+
+  const canManageBilling = !!currentRole && ADMIN_BILLING_ROLES.includes(currentRole);
+  const canUpdateStatus = !!currentRole && ADMIN_WRITE_ROLES.includes(currentRole);
 
   useEffect(() => {
     fetchBusinesses();
+    getAdminRole(auth.currentUser).then(setCurrentRole);
   }, []);
 
   const fetchBusinesses = async () => {
     try {
-      const response = await fetch('/api/businesses');
+      const response = await authFetch('/api/businesses');
       const data = await response.json();
       
       if (!response.ok) throw new Error(data.error);
@@ -433,7 +803,7 @@ export default function BusinessesPage() {
       business.company?.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       business.id.toLowerCase().includes(searchTerm.toLowerCase());
     
-    const matchesStatus = statusFilter === "all" || business.status === statusFilter;
+    const matchesStatus = statusFilter === "all" || normalizeStatus(business.status) === statusFilter;
 
     return matchesSearch && matchesStatus;
   });
@@ -465,12 +835,13 @@ export default function BusinessesPage() {
         <div className="flex space-x-4">
           <select
             value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value as 'all' | 'completed' | 'draft')}
+            onChange={(e) => setStatusFilter(e.target.value as 'all' | BusinessStatus)}
             className="border rounded-lg px-3 py-2"
           >
             <option value="all">All Statuses</option>
-            <option value="completed">Completed</option>
-            <option value="draft">Draft</option>
+            {BUSINESS_STATUSES.map(status => (
+              <option key={status} value={status}>{BUSINESS_STATUS_LABELS[status]}</option>
+            ))}
           </select>
 
           <div className="relative w-64">
@@ -503,13 +874,26 @@ export default function BusinessesPage() {
                 >
                   <FileText className="w-5 h-5" />
                 </button>
-                <span className={`px-3 py-1 rounded-full text-sm ${
-                  business.status === 'completed' 
-                    ? 'bg-green-100 text-green-800' 
-                    : 'bg-yellow-100 text-yellow-800'
-                }`}>
-                  {business.status}
-                </span>
+                {canManageBilling && business.paymentDetails?.status === 'succeeded' &&
+                  business.paymentDetails.amount > (business.paymentDetails.amountRefunded || 0) && (
+                  <button
+                    onClick={() => setBillingAction({ business, action: 'refund' })}
+                    className="p-2 text-orange-600 hover:bg-orange-50 rounded-full transition-colors"
+                    title="Refund Payment"
+                  >
+                    <RotateCcw className="w-5 h-5" />
+                  </button>
+                )}
+                {canManageBilling && canTransition(business.status, 'cancelled') && (
+                  <button
+                    onClick={() => setBillingAction({ business, action: 'cancel' })}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-full transition-colors"
+                    title="Cancel Registration"
+                  >
+                    <Ban className="w-5 h-5" />
+                  </button>
+                )}
+                <StatusBadge status={business.status} />
               </div>
             </div>
 
@@ -521,6 +905,11 @@ export default function BusinessesPage() {
                     <p>Type: {business.company?.type}</p>
                     <p>Industry: {business.company?.industry}</p>
                     <p>Country: {business.country?.name}</p>
+                    {business.state && (
+                      <p>
+                        {getSubdivisionStep(business.country?.name)?.label || "State"}: {business.state.name}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -546,7 +935,12 @@ export default function BusinessesPage() {
               <div>
                 <h3 className="font-semibold mb-2">Payment Details</h3>
                 <div className="space-y-1 text-sm">
-                  <p>Amount: ${(business.paymentDetails?.amount ?? 0 / 100).toFixed(2)}</p>
+                  <p>Amount: ${((business.paymentDetails?.amount ?? 0) / 100).toFixed(2)}</p>
+                  {!!business.paymentDetails?.amountRefunded && (
+                    <p className="text-orange-600">
+                      Refunded: ${(business.paymentDetails.amountRefunded / 100).toFixed(2)}
+                    </p>
+                  )}
                   <p>Currency: {business.paymentDetails?.currency}</p>
                   <p>Method: {business.paymentDetails?.paymentMethod}</p>
                   <p>Status: {business.paymentDetails?.status}</p>
@@ -557,11 +951,58 @@ export default function BusinessesPage() {
               </div>
             </div>
 
+            <div className="mt-6 pt-6 border-t grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h3 className="font-semibold mb-4">Status History</h3>
+                <StatusHistory history={business.statusHistory} showActor />
+              </div>
+              {canUpdateStatus && getNextStatuses(business.status).some(s => ADMIN_MANAGED_STATUSES.includes(s)) && (
+                <div>
+                  <h3 className="font-semibold mb-4">Update Status</h3>
+                  <StatusControl key={business.status} business={business} onChanged={fetchBusinesses} />
+                </div>
+              )}
+            </div>
+
+            {(business.cancellation || (business.refunds && business.refunds.length > 0)) && (
+              <div className="mt-6 pt-6 border-t">
+                <h3 className="font-semibold mb-4">Refunds & Cancellation</h3>
+                <div className="space-y-2 text-sm">
+                  {business.refunds?.map(refund => (
+                    <div key={refund.id} className="p-3 bg-orange-50 rounded">
+                      <p className="font-medium">
+                        Refunded {formatCents(refund.amount, refund.currency)} on {formatTimestamp(refund.createdAt)}
+                      </p>
+                      <p className="text-gray-600">
+                        {refund.reason} • by {refund.actor.email}
+                      </p>
+                    </div>
+                  ))}
+                  {business.cancellation && (
+                    <div className="p-3 bg-red-50 rounded">
+                      <p className="font-medium">Cancelled by {business.cancellation.actor.email}</p>
+                      <p className="text-gray-600">{business.cancellation.reason}</p>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
             {business.documents && Object.keys(business.documents).length > 0 && (
               <div className="mt-6 pt-6 border-t">
-                <h3 className="font-semibold mb-4">Documents</h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="font-semibold">Documents</h3>
+                  <a
+                    href={getDocumentArchiveUrl(business.userId, business.id)}
+                    download
+                    className="text-blue-600 hover:text-blue-800 text-sm flex items-center space-x-1"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span>Download all</span>
+                  </a>
+                </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {Object.entries(getRequiredDocuments(business.country?.name || '', business.package?.name || '')).map(([key, name]) => {
+                  {getRequiredDocuments(business.country?.name, business.package?.name).map(({ key, name }) => {
                     const doc = business.documents?.[key];
                     if (!doc) return null;
 
@@ -569,7 +1010,7 @@ export default function BusinessesPage() {
                       <div key={key} className="flex items-center justify-between p-3 bg-gray-50 rounded">
                         <span className="font-medium text-sm">{name}</span>
                         <a
-                          href={doc.url}
+                          href={getDocumentUrl(doc.id)}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="text-blue-600 hover:text-blue-800 text-sm flex items-center space-x-1"
@@ -594,11 +1035,14 @@ export default function BusinessesPage() {
                         <p>Name: {owner.fullName}</p>
                         <p>Ownership: {owner.ownership}%</p>
                         <p>Birth Date: {owner.birthDate}</p>
-                        {owner.documentUrl && (
+                        {getOwnerFields(business.country?.name).map((field) => (
+                          <p key={field.key}>{field.label}: {owner.details?.[field.key] || "—"}</p>
+                        ))}
+                        {owner.documentId && (
                           <p>
                             Document: 
                             <a
-                              href={owner.documentUrl}
+                              href={getDocumentUrl(owner.documentId)}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="ml-1 text-blue-600 hover:underline"
@@ -614,6 +1058,20 @@ export default function BusinessesPage() {
               </div>
             )}
 
+            <div className="mt-6 pt-6 border-t">
+              <h3 className="font-semibold mb-4">Notes</h3>
+              <AdminNotes
+                key={business.adminNotes || ''}
+                business={business}
+                canEdit={canUpdateStatus}
+                onSaved={fetchBusinesses}
+              />
+            </div>
+
+            <div className="mt-6 pt-6 border-t">
+              <BusinessActivity business={business} />
+            </div>
+
             <div className="mt-6 pt-4 border-t text-sm text-gray-500">
               <div>Created: {formatTimestamp(business.createdAt, business)}</div>
               <div>Updated: {formatTimestamp(business.updatedAt)}</div>
@@ -629,6 +1087,18 @@ export default function BusinessesPage() {
           onUpdate={handleBusinessUpdate}
         />
       )}
+
+      {billingAction && (
+        <BillingAction
+          business={billingAction.business}
+          action={billingAction.action}
+          onClose={() => setBillingAction(null)}
+          onComplete={() => {
+            setBillingAction(null);
+            fetchBusinesses();
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -2,68 +2,55 @@
 
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
-import { useEffect } from 'react';
 import { 
   LayoutDashboard, 
   Users, 
   Building,
   Settings,
-  LogOut,
-  Loader2 
+  Tag,
+  HandCoins,
+  Inbox,
+  LogOut
 } from "lucide-react";
-import { useAuth } from "@/hooks/use-auth";
-import { auth } from "@/lib/firebase";
-import { signOut } from "firebase/auth";
+import { signOutAdmin } from "@/utils/admin-auth";
+import { useUnreadMessages } from "@/hooks/use-unread-messages";
 
+// Access is enforced by middleware via the session cookie, so the layout
+// can render straight away instead of waiting on client auth state.
 export default function AdminLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  const { user, loading } = useAuth();
   const pathname = usePathname();
   const router = useRouter();
+  const isAuthPage = pathname?.includes('/signin') || pathname?.includes('/signup');
+  const unreadMessages = useUnreadMessages(isAuthPage ? null : '/api/admin/messages/unread', pathname);
 
   const navigation = [
     { name: 'Dashboard', href: '/admin', icon: LayoutDashboard },
     { name: 'Users', href: '/admin/users', icon: Users },
     { name: 'Businesses', href: '/admin/businesses', icon: Building },
+    { name: 'Messages', href: '/admin/messages', icon: Inbox, badge: unreadMessages },
+    { name: 'Promo Codes', href: '/admin/promo-codes', icon: Tag },
+    { name: 'Affiliates', href: '/admin/affiliates', icon: HandCoins },
     { name: 'Settings', href: '/admin/settings', icon: Settings }
   ];
 
-  useEffect(() => {
-    if (!loading && !user && !pathname?.includes('/signin')) {
-      router.push('/admin/signin');
-    }
-  }, [user, loading, pathname, router]);
-
   const handleSignOut = async () => {
     try {
-      await signOut(auth);
+      await signOutAdmin();
       router.push('/admin/signin');
     } catch (error) {
       console.error('Error signing out:', error);
     }
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        <Loader2 className="h-8 w-8 animate-spin" />
-      </div>
-    );
-  }
-
-  // Don't show layout on signin page
-  if (pathname?.includes('/signin')) {
+  // Don't show layout on signin and invite pages
+  if (isAuthPage) {
     return children;
   }
 
-  // Don't show layout for non-authenticated users
-  if (!user) {
-    return null;
-  }
-
   return (
     <div className="min-h-screen bg-gray-100">
       {/* Sidebar */}
@@ -77,7 +64,9 @@ export default function AdminLayout({
           {/* Navigation */}
           <nav className="flex-1 p-4 space-y-1">
             {navigation.map((item) => {
-              const isActive = pathname === item.href;
+              const isActive = item.href === '/admin'
+                ? pathname === item.href
+                : pathname?.startsWith(item.href);
               const Icon = item.icon;
               
               return (
@@ -92,6 +81,11 @@ export default function AdminLayout({
                 >
                   <Icon className="w-5 h-5 mr-3" />
                   {item.name}
+                  {!!item.badge && (
+                    <span className="ml-auto px-2 py-0.5 rounded-full text-xs bg-blue-600 text-white">
+                      {item.badge}
+                    </span>
+                  )}
                 </Link>
               );
             })}
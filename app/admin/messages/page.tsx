@@ -0,0 +1,270 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, AlertCircle, Inbox } from "lucide-react";
+import { auth } from "@/lib/firebase";
+import { ADMIN_WRITE_ROLES } from "@/lib/admin-roles";
+import type { AttachmentInput, Message, MessageThread as Thread, ThreadStatus } from "@/lib/messages";
+import { MessageThread } from "@/components/messages/message-thread";
+import { authFetch } from "@/utils/auth-fetch";
+import { getAdminRole } from "@/utils/admin-auth";
+import type { AdminRole, AdminUser } from "@/types/admin";
+
+type AssignedFilter = 'all' | 'me' | 'unassigned';
+
+const ASSIGNED_FILTERS: { value: AssignedFilter; label: string }[] = [
+  { value: 'all', label: 'Everyone' },
+  { value: 'me', label: 'Assigned to me' },
+  { value: 'unassigned', label: 'Unassigned' },
+];
+
+// Group threads by business, keeping the newest activity first
+function groupByBusiness(threads: Thread[]) {
+  const groups = new Map<string, Thread[]>();
+  for (const thread of threads) {
+    const key = `${thread.userId}/${thread.businessId}`;
+    groups.set(key, [...(groups.get(key) || []), thread]);
+  }
+  return [...groups.values()];
+}
+
+export default function MessagesPage() {
+  const [threads, setThreads] = useState<Thread[]>([]);
+  const [members, setMembers] = useState<AdminUser[]>([]);
+  const [status, setStatus] = useState<ThreadStatus>('open');
+  const [assigned, setAssigned] = useState<AssignedFilter>('all');
+  const [selectedThread, setSelectedThread] = useState<Thread | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [currentRole, setCurrentRole] = useState<AdminRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [threadLoading, setThreadLoading] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canEdit = !!currentRole && ADMIN_WRITE_ROLES.includes(currentRole);
+
+  useEffect(() => {
+    loadMembers();
+  }, []);
+
+  useEffect(() => {
+    loadThreads();
+  }, [status, assigned]);
+
+  const loadMembers = async () => {
+    try {
+      const role = await getAdminRole(auth.currentUser);
+      setCurrentRole(role);
+
+      const response = await authFetch('/api/admin/team');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setMembers(data.members);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load team');
+    }
+  };
+
+  const loadThreads = async () => {
+    setIsLoading(true);
+
+    try {
+      const query = new URLSearchParams({ status });
+      if (assigned !== 'all') query.set('assigned', assigned);
+
+      const response = await authFetch(`/api/admin/messages?${query}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setThreads(data.threads);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load messages');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openThread = async (threadId: string) => {
+    setThreadLoading(true);
+    setError(null);
+
+    try {
+      const response = await authFetch(`/api/admin/messages/${threadId}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setSelectedThread(data.thread);
+      setMessages(data.messages);
+      setThreads(prev => prev.map(t => t.id === threadId
+        ? { ...data.thread, unread: { ...data.thread.unread, admin: 0 } }
+        : t));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversation');
+    } finally {
+      setThreadLoading(false);
+    }
+  };
+
+  const handleReply = async (body: string, attachments: AttachmentInput[]) => {
+    if (!selectedThread) return;
+
+    const response = await authFetch(`/api/admin/messages/${selectedThread.id}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ body, attachments })
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error);
+
+    await openThread(selectedThread.id);
+  };
+
+  const handleUpdate = async (update: { assignedTo?: string | null; status?: ThreadStatus }) => {
+    if (!selectedThread) return;
+    setIsUpdating(true);
+    setError(null);
+
+    try {
+      const response = await authFetch(`/api/admin/messages/${selectedThread.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setSelectedThread(data.thread);
+      setThreads(prev => prev.map(t => t.id === data.thread.id ? data.thread : t));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update conversation');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold">Messages</h1>
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-600 rounded-lg flex items-start">
+          <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="flex items-center space-x-4">
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as ThreadStatus)}
+          className="border rounded-lg px-3 py-2 text-sm"
+        >
+          <option value="open">Open</option>
+          <option value="closed">Closed</option>
+        </select>
+        <select
+          value={assigned}
+          onChange={(e) => setAssigned(e.target.value as AssignedFilter)}
+          className="border rounded-lg px-3 py-2 text-sm"
+        >
+          {ASSIGNED_FILTERS.map(filter => (
+            <option key={filter.value} value={filter.value}>{filter.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-lg shadow-sm p-4 space-y-4">
+          {isLoading ? (
+            <Loader2 className="w-6 h-6 animate-spin" />
+          ) : threads.length === 0 ? (
+            <div className="flex flex-col items-center p-6 text-gray-500 text-sm">
+              <Inbox className="w-8 h-8 mb-2 text-gray-400" />
+              No {status} conversations
+            </div>
+          ) : groupByBusiness(threads).map(group => (
+            <div key={`${group[0].userId}/${group[0].businessId}`}>
+              <h2 className="text-xs font-semibold uppercase text-gray-500 mb-1">
+                {group[0].companyName || group[0].businessId}
+              </h2>
+              <div className="space-y-1">
+                {group.map(thread => (
+                  <button
+                    key={thread.id}
+                    onClick={() => openThread(thread.id)}
+                    className={`w-full text-left rounded-md px-3 py-2 transition-colors ${
+                      selectedThread?.id === thread.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={`truncate ${thread.unread.admin > 0 ? 'font-semibold' : ''}`}>
+                        {thread.subject}
+                      </span>
+                      {thread.unread.admin > 0 && (
+                        <span className="px-2 py-0.5 rounded-full text-xs bg-blue-600 text-white">
+                          {thread.unread.admin}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {thread.assignedTo ? thread.assignedTo.email : 'Unassigned'}
+                      {thread.lastMessage && ` • ${new Date(thread.lastMessage.createdAt).toLocaleString()}`}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6 lg:col-span-2">
+          {threadLoading ? (
+            <Loader2 className="w-6 h-6 animate-spin" />
+          ) : selectedThread ? (
+            <div className="space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-lg font-bold">{selectedThread.subject}</h2>
+                  <p className="text-sm text-gray-500">
+                    {selectedThread.companyName || 'Registration'} • Started {new Date(selectedThread.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center space-x-2">
+                    {isUpdating && <Loader2 className="w-4 h-4 animate-spin" />}
+                    <select
+                      value={selectedThread.assignedTo?.uid || ''}
+                      onChange={(e) => handleUpdate({ assignedTo: e.target.value || null })}
+                      disabled={isUpdating}
+                      className="border rounded-lg px-2 py-1 text-sm"
+                    >
+                      <option value="">Unassigned</option>
+                      {members.map(member => (
+                        <option key={member.uid} value={member.uid}>{member.email}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleUpdate({ status: selectedThread.status === 'open' ? 'closed' : 'open' })}
+                      disabled={isUpdating}
+                      className="px-3 py-1 border rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {selectedThread.status === 'open' ? 'Close' : 'Reopen'}
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <MessageThread
+                thread={selectedThread}
+                messages={messages}
+                viewerSide="admin"
+                onSend={canEdit ? handleReply : undefined}
+              />
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Select a conversation</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,16 +10,21 @@ import {
   Loader2
 } from "lucide-react";
 import Link from "next/link";
+import { authFetch } from "@/utils/auth-fetch";
+import { isPaidStatus } from "@/lib/business-lifecycle";
+import { StatusBadge } from "@/components/business/status-badge";
 
 interface Business {
   id: string;
   path: string;
-  status: 'completed' | 'draft';
+  status: string;
   company?: {
     name: string;
   };
   paymentDetails?: {
     amount: number;
+    amountRefunded?: number;
+    status: string;
   };
 }
 
@@ -53,8 +58,8 @@ export default function AdminDashboard() {
   const loadStats = async () => {
     try {
       const [usersResponse, businessesResponse] = await Promise.all([
-        fetch('/api/users'),
-        fetch('/api/businesses')
+        authFetch('/api/users'),
+        authFetch('/api/businesses')
       ]);
 
       const [{ users }, { businesses }] = await Promise.all([
@@ -62,12 +67,15 @@ export default function AdminDashboard() {
         businessesResponse.json()
       ]) as [{ users: ApiResponse['users'] }, { businesses: ApiResponse['businesses'] }];
 
+      // Successful payments, net of refunds
       const totalRevenue = businesses.reduce((sum: number, business: Business) => 
-        sum + (business.paymentDetails?.amount || 0), 0
+        sum + (business.paymentDetails?.status === 'succeeded'
+          ? business.paymentDetails.amount - (business.paymentDetails.amountRefunded || 0)
+          : 0), 0
       );
 
       const completedBusinesses = businesses.filter(
-        (business: Business) => business.status === 'completed'
+        (business: Business) => isPaidStatus(business.status)
       ).length;
 
       setStats({
@@ -176,14 +184,7 @@ export default function AdminDashboard() {
                   <h3 className="font-medium">{business.company?.name || 'Unnamed Business'}</h3>
                   <div className="text-sm text-gray-500">{business.path}</div>
                 </div>
-                <span className={`px-2 py-1 rounded-full text-sm
-                  ${business.status === 'completed' 
-                    ? 'bg-green-100 text-green-800' 
-                    : 'bg-yellow-100 text-yellow-800'
-                  }`}
-                >
-                  {business.status}
-                </span>
+                <StatusBadge status={business.status} className="px-2" />
               </div>
             </div>
           ))}
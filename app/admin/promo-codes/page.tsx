@@ -0,0 +1,448 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Loader2,
+  Plus,
+  BarChart3,
+  AlertCircle,
+  CheckCircle2
+} from "lucide-react";
+import { auth } from "@/lib/firebase";
+import { ADMIN_BILLING_ROLES } from "@/lib/admin-roles";
+import { JURISDICTIONS } from "@/lib/jurisdictions";
+import { formatPrice } from "@/lib/pricing";
+import {
+  describeDiscount,
+  type DiscountType,
+  type PromoCode,
+  type PromoCodeRedemption
+} from "@/lib/promo-codes";
+import { authFetch } from "@/utils/auth-fetch";
+import { getAdminRole } from "@/utils/admin-auth";
+import type { AdminRole } from "@/types/admin";
+
+const EMPTY_FORM = {
+  code: '',
+  description: '',
+  discountType: 'percent' as DiscountType,
+  percentOff: '',
+  amountOff: '',
+  currency: 'usd',
+  countries: [] as string[],
+  packages: '',
+  expiresAt: '',
+  maxRedemptions: '',
+};
+
+const getResponseError = (data: { error?: string; fields?: Record<string, string> }) => {
+  const fields = Object.entries(data.fields || {})
+    .map(([field, message]) => `${field || 'body'}: ${message}`);
+  return [data.error, ...fields].filter(Boolean).join('. ');
+};
+
+const describeLimits = (promo: PromoCode) => {
+  const limits = [
+    promo.countries.length > 0 &&
+      promo.countries.map(id => JURISDICTIONS.find(j => j.id === id)?.name || id).join(', '),
+    promo.packages.length > 0 && `${promo.packages.join(', ')} packages`,
+  ].filter(Boolean);
+  return limits.length > 0 ? limits.join(' • ') : 'Any registration';
+};
+
+// Totals per currency, in cents
+const sumByCurrency = (redemptions: PromoCodeRedemption[], field: 'amountDiscounted' | 'amountPaid') => {
+  const totals: Record<string, number> = {};
+  for (const redemption of redemptions) {
+    totals[redemption.currency] = (totals[redemption.currency] || 0) + redemption[field];
+  }
+  return Object.entries(totals)
+    .map(([currency, amount]) => formatPrice(amount / 100, currency))
+    .join(' + ') || formatPrice(0);
+};
+
+function RedemptionReport({ code }: { code: string }) {
+  const [redemptions, setRedemptions] = useState<PromoCodeRedemption[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadRedemptions = async () => {
+      try {
+        const response = await authFetch(`/api/admin/promo-codes/${encodeURIComponent(code)}/redemptions`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        setRedemptions(data.redemptions);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load redemptions');
+      }
+    };
+
+    loadRedemptions();
+  }, [code]);
+
+  if (error) return <p className="text-sm text-red-600">{error}</p>;
+  if (!redemptions) return <Loader2 className="w-5 h-5 animate-spin" />;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-6 text-sm">
+        <p><span className="text-gray-500">Redemptions:</span> {redemptions.length}</p>
+        <p><span className="text-gray-500">Total discounted:</span> {sumByCurrency(redemptions, 'amountDiscounted')}</p>
+        <p><span className="text-gray-500">Total paid:</span> {sumByCurrency(redemptions, 'amountPaid')}</p>
+      </div>
+
+      {redemptions.length === 0 ? (
+        <p className="text-sm text-gray-500">This code has not been used yet</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2">Date</th>
+              <th className="py-2">Company</th>
+              <th className="py-2">Discount</th>
+              <th className="py-2">Paid</th>
+              <th className="py-2">Payment</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {redemptions.map(redemption => (
+              <tr key={redemption.businessId}>
+                <td className="py-2">{new Date(redemption.redeemedAt).toLocaleString()}</td>
+                <td className="py-2">{redemption.companyName || redemption.businessId}</td>
+                <td className="py-2">{formatPrice(redemption.amountDiscounted / 100, redemption.currency)}</td>
+                <td className="py-2">{formatPrice(redemption.amountPaid / 100, redemption.currency)}</td>
+                <td className="py-2 font-mono text-xs">{redemption.stripePaymentIntentId}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function PromoCodesPage() {
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [currentRole, setCurrentRole] = useState<AdminRole | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [reportCode, setReportCode] = useState<string | null>(null);
+  const [pendingCode, setPendingCode] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const canEdit = !!currentRole && ADMIN_BILLING_ROLES.includes(currentRole);
+
+  useEffect(() => {
+    loadPromoCodes();
+  }, []);
+
+  const loadPromoCodes = async () => {
+    try {
+      const role = await getAdminRole(auth.currentUser);
+      setCurrentRole(role);
+
+      const response = await authFetch('/api/admin/promo-codes');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setPromoCodes(data.promoCodes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load promo codes');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const response = await authFetch('/api/admin/promo-codes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: form.code,
+          description: form.description,
+          discountType: form.discountType,
+          ...(form.discountType === 'percent'
+            ? { percentOff: Number(form.percentOff) }
+            : { amountOff: Number(form.amountOff), currency: form.currency }),
+          countries: form.countries,
+          packages: form.packages.split(',').map(name => name.trim().toLowerCase()).filter(Boolean),
+          expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+          maxRedemptions: form.maxRedemptions ? Number(form.maxRedemptions) : null,
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(getResponseError(data));
+
+      setPromoCodes(prev => [data.promoCode, ...prev]);
+      setForm(EMPTY_FORM);
+      showSuccess(`Promo code ${data.promoCode.code} created`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create promo code');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleToggleActive = async (promo: PromoCode) => {
+    setPendingCode(promo.code);
+    setError(null);
+
+    try {
+      const response = await authFetch(`/api/admin/promo-codes/${encodeURIComponent(promo.code)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: !promo.active })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setPromoCodes(prev => prev.map(p => p.code === promo.code ? data.promoCode : p));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update promo code');
+    } finally {
+      setPendingCode(null);
+    }
+  };
+
+  const toggleCountry = (id: string) => {
+    setForm(prev => ({
+      ...prev,
+      countries: prev.countries.includes(id)
+        ? prev.countries.filter(c => c !== id)
+        : [...prev.countries, id],
+    }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold">Promo Codes ({promoCodes.length})</h1>
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-600 rounded-lg flex items-start">
+          <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="p-4 bg-green-50 text-green-600 rounded-lg flex items-start">
+          <CheckCircle2 className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+          <p>{successMessage}</p>
+        </div>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+          <h2 className="text-lg font-bold">Create a Promo Code</h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <label className="space-y-1">
+              <span className="text-gray-500">Code</span>
+              <input
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                placeholder="e.g. LAUNCH20"
+                className="w-full border rounded-lg px-3 py-2 font-mono"
+                required
+              />
+            </label>
+            <label className="space-y-1 md:col-span-2">
+              <span className="text-gray-500">Description shown to customers</span>
+              <input
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="e.g. Launch offer"
+                className="w-full border rounded-lg px-3 py-2"
+              />
+            </label>
+
+            <label className="space-y-1">
+              <span className="text-gray-500">Discount</span>
+              <select
+                value={form.discountType}
+                onChange={(e) => setForm({ ...form, discountType: e.target.value as DiscountType })}
+                className="w-full border rounded-lg px-3 py-2"
+              >
+                <option value="percent">Percentage</option>
+                <option value="fixed">Fixed amount</option>
+              </select>
+            </label>
+            {form.discountType === 'percent' ? (
+              <label className="space-y-1">
+                <span className="text-gray-500">Percent off</span>
+                <input
+                  type="number"
+                  min="1"
+                  max="99"
+                  value={form.percentOff}
+                  onChange={(e) => setForm({ ...form, percentOff: e.target.value })}
+                  className="w-full border rounded-lg px-3 py-2"
+                  required
+                />
+              </label>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <label className="space-y-1">
+                  <span className="text-gray-500">Amount off</span>
+                  <input
+                    type="number"
+                    min="1"
+                    value={form.amountOff}
+                    onChange={(e) => setForm({ ...form, amountOff: e.target.value })}
+                    className="w-full border rounded-lg px-3 py-2"
+                    required
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-gray-500">Currency</span>
+                  <input
+                    value={form.currency}
+                    onChange={(e) => setForm({ ...form, currency: e.target.value.toLowerCase() })}
+                    maxLength={3}
+                    className="w-full border rounded-lg px-3 py-2 uppercase"
+                    required
+                  />
+                </label>
+              </div>
+            )}
+            <label className="space-y-1">
+              <span className="text-gray-500">Packages (comma separated, empty for all)</span>
+              <input
+                value={form.packages}
+                onChange={(e) => setForm({ ...form, packages: e.target.value })}
+                placeholder="e.g. growth, enterprise"
+                className="w-full border rounded-lg px-3 py-2"
+              />
+            </label>
+
+            <label className="space-y-1">
+              <span className="text-gray-500">Expires</span>
+              <input
+                type="datetime-local"
+                value={form.expiresAt}
+                onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                className="w-full border rounded-lg px-3 py-2"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-500">Maximum redemptions</span>
+              <input
+                type="number"
+                min="1"
+                value={form.maxRedemptions}
+                onChange={(e) => setForm({ ...form, maxRedemptions: e.target.value })}
+                placeholder="Unlimited"
+                className="w-full border rounded-lg px-3 py-2"
+              />
+            </label>
+          </div>
+
+          <div className="text-sm">
+            <p className="text-gray-500 mb-2">Countries (none selected means all)</p>
+            <div className="flex flex-wrap gap-4">
+              {JURISDICTIONS.map(jurisdiction => (
+                <label key={jurisdiction.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={form.countries.includes(jurisdiction.id)}
+                    onChange={() => toggleCountry(jurisdiction.id)}
+                  />
+                  {jurisdiction.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={isCreating}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center"
+          >
+            {isCreating ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4 mr-2" />
+            )}
+            Create Promo Code
+          </button>
+        </form>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-bold mb-4">Codes</h2>
+        {promoCodes.length === 0 && (
+          <p className="text-sm text-gray-500">No promo codes yet</p>
+        )}
+        <div className="divide-y">
+          {promoCodes.map(promo => {
+            const isExpired = !!promo.expiresAt && new Date(promo.expiresAt) <= new Date();
+
+            return (
+              <div key={promo.code} className="py-4 space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="font-medium">
+                      <span className="font-mono">{promo.code}</span>
+                      <span className="ml-2 text-sm text-gray-500">{describeDiscount(promo)}</span>
+                      {!promo.active && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">Disabled</span>
+                      )}
+                      {isExpired && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">Expired</span>
+                      )}
+                    </h3>
+                    <div className="text-sm text-gray-500">
+                      {describeLimits(promo)} • Used {promo.redemptionCount}
+                      {promo.maxRedemptions !== null && ` of ${promo.maxRedemptions}`}
+                      {promo.expiresAt && ` • Expires ${new Date(promo.expiresAt).toLocaleString()}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {pendingCode === promo.code && <Loader2 className="w-4 h-4 animate-spin" />}
+                    <button
+                      onClick={() => setReportCode(reportCode === promo.code ? null : promo.code)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
+                      title="Redemption report"
+                    >
+                      <BarChart3 className="w-4 h-4" />
+                    </button>
+                    {canEdit && (
+                      <button
+                        onClick={() => handleToggleActive(promo)}
+                        disabled={pendingCode === promo.code}
+                        className="px-3 py-1 border rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {promo.active ? 'Disable' : 'Enable'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {reportCode === promo.code && <RedemptionReport code={promo.code} />}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
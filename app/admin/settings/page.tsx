@@ -0,0 +1,53 @@
+"use client";
+
+import Link from "next/link";
+import { Users, Tag, ArrowUpRight } from "lucide-react";
+
+const sections = [
+  {
+    name: 'Team',
+    description: 'Invite admins and manage their roles',
+    href: '/admin/settings/team',
+    icon: Users
+  },
+  {
+    name: 'Pricing',
+    description: 'Publish package prices, features and fees',
+    href: '/admin/settings/pricing',
+    icon: Tag
+  }
+];
+
+export default function SettingsPage() {
+  return (
+    <div>
+      <h1 className="text-2xl font-bold mb-6">Settings</h1>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {sections.map((section) => {
+          const Icon = section.icon;
+
+          return (
+            <Link
+              key={section.name}
+              href={section.href}
+              className="bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow"
+            >
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-lg font-bold">{section.name}</h3>
+                  <p className="text-gray-500 text-sm mt-1">{section.description}</p>
+                </div>
+                <Icon className="w-10 h-10 text-blue-500" />
+              </div>
+              <div className="mt-4 text-sm text-blue-600 flex items-center">
+                Open
+                <ArrowUpRight className="w-4 h-4 ml-1" />
+              </div>
+            </Link>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
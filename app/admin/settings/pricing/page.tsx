@@ -0,0 +1,509 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Loader2,
+  Plus,
+  Trash2,
+  Copy,
+  AlertCircle,
+  CheckCircle2
+} from "lucide-react";
+import { auth } from "@/lib/firebase";
+import { ADMIN_BILLING_ROLES } from "@/lib/admin-roles";
+import { JURISDICTIONS, type Package } from "@/lib/jurisdictions";
+import {
+  DEFAULT_PRICE_VERSION_ID,
+  formatPrice,
+  getDefaultPriceVersion,
+  type JurisdictionPricing,
+  type PriceVersion
+} from "@/lib/pricing";
+import { authFetch } from "@/utils/auth-fetch";
+import { getAdminRole } from "@/utils/admin-auth";
+import type { AdminRole } from "@/types/admin";
+
+interface VersionDraft {
+  effectiveAt: string; // datetime-local value
+  note: string;
+  jurisdictions: Record<string, JurisdictionPricing>;
+}
+
+// Errors come back keyed by path, e.g. "jurisdictions.us.packages.0.price"
+const getResponseError = (data: { error?: string; fields?: Record<string, string> }) => {
+  const fields = Object.entries(data.fields || {})
+    .map(([field, message]) => `${field || 'body'}: ${message}`);
+  return [data.error, ...fields].filter(Boolean).join('. ');
+};
+
+// datetime-local value for a date, in the browser's time zone
+const toLocalInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const toDraft = (version: PriceVersion): VersionDraft => ({
+  effectiveAt: toLocalInput(new Date(Date.now() + 60 * 60 * 1000)),
+  note: '',
+  jurisdictions: structuredClone({
+    ...getDefaultPriceVersion().jurisdictions,
+    ...version.jurisdictions,
+  }),
+});
+
+const isInEffect = (version: PriceVersion) => new Date(version.effectiveAt).getTime() <= Date.now();
+
+interface PackageEditorProps {
+  pkg: Package;
+  currency: string;
+  disabled: boolean;
+  onChange: (pkg: Package) => void;
+  onRemove: () => void;
+}
+
+function PackageEditor({ pkg, currency, disabled, onChange, onRemove }: PackageEditorProps) {
+  const update = (fields: Partial<Package>) => onChange({ ...pkg, ...fields });
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">
+          {pkg.plan || 'New package'} • {formatPrice(pkg.price || 0, currency)}
+        </h4>
+        <button
+          type="button"
+          onClick={onRemove}
+          disabled={disabled}
+          className="p-2 text-red-500 hover:bg-red-50 rounded-full transition-colors disabled:opacity-50"
+          title="Remove package"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-sm">
+        <label className="space-y-1">
+          <span className="text-gray-500">Plan</span>
+          <input
+            value={pkg.plan}
+            onChange={(e) => update({ plan: e.target.value })}
+            disabled={disabled}
+            className="w-full border rounded-lg px-3 py-2"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-500">Key</span>
+          <input
+            value={pkg.name}
+            onChange={(e) => update({ name: e.target.value, id: e.target.value })}
+            disabled={disabled}
+            className="w-full border rounded-lg px-3 py-2 font-mono"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-500">Price ({currency.toUpperCase()})</span>
+          <input
+            type="number"
+            min="0"
+            value={pkg.price}
+            onChange={(e) => update({ price: Number(e.target.value) })}
+            disabled={disabled}
+            className="w-full border rounded-lg px-3 py-2"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-500">Price note</span>
+          <input
+            value={pkg.priceNote || ''}
+            onChange={(e) => update({ priceNote: e.target.value || undefined })}
+            disabled={disabled}
+            className="w-full border rounded-lg px-3 py-2"
+          />
+        </label>
+        <label className="space-y-1 md:col-span-2">
+          <span className="text-gray-500">Subtitle</span>
+          <input
+            value={pkg.subtitle}
+            onChange={(e) => update({ subtitle: e.target.value })}
+            disabled={disabled}
+            className="w-full border rounded-lg px-3 py-2"
+          />
+        </label>
+        <label className="space-y-1 md:col-span-2">
+          <span className="text-gray-500">Description</span>
+          <input
+            value={pkg.description || ''}
+            onChange={(e) => update({ description: e.target.value || undefined })}
+            disabled={disabled}
+            className="w-full border rounded-lg px-3 py-2"
+          />
+        </label>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={!!pkg.recommended}
+          onChange={(e) => update({ recommended: e.target.checked || undefined })}
+          disabled={disabled}
+        />
+        Recommended
+      </label>
+
+      <div className="space-y-2">
+        <p className="text-sm text-gray-500">Features</p>
+        {pkg.features.map((feature, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={feature.included}
+              onChange={(e) => update({
+                features: pkg.features.map((f, i) => i === index ? { ...f, included: e.target.checked } : f)
+              })}
+              disabled={disabled}
+              title="Included"
+            />
+            <input
+              value={feature.name}
+              onChange={(e) => update({
+                features: pkg.features.map((f, i) => i === index ? { ...f, name: e.target.value } : f)
+              })}
+              disabled={disabled}
+              className="flex-1 border rounded-lg px-3 py-1 text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => update({ features: pkg.features.filter((_, i) => i !== index) })}
+              disabled={disabled}
+              className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-50"
+              title="Remove feature"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => update({ features: [...pkg.features, { name: '', included: true }] })}
+          disabled={disabled}
+          className="text-sm text-blue-600 hover:underline disabled:opacity-50"
+        >
+          Add feature
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function PricingSettingsPage() {
+  const [versions, setVersions] = useState<PriceVersion[]>([]);
+  const [currentRole, setCurrentRole] = useState<AdminRole | null>(null);
+  const [draft, setDraft] = useState<VersionDraft | null>(null);
+  const [jurisdictionId, setJurisdictionId] = useState(JURISDICTIONS[0].id);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const canEdit = !!currentRole && ADMIN_BILLING_ROLES.includes(currentRole);
+  const currentVersion = versions.find(isInEffect);
+
+  useEffect(() => {
+    loadVersions();
+  }, []);
+
+  const loadVersions = async () => {
+    try {
+      const role = await getAdminRole(auth.currentUser);
+      setCurrentRole(role);
+
+      const response = await authFetch('/api/admin/pricing');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setVersions(data.versions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load prices');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const updatePricing = (fields: Partial<JurisdictionPricing>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      jurisdictions: {
+        ...prev.jurisdictions,
+        [jurisdictionId]: { ...prev.jurisdictions[jurisdictionId], ...fields },
+      },
+    });
+  };
+
+  const handlePublish = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await authFetch('/api/admin/pricing', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...draft,
+          effectiveAt: new Date(draft.effectiveAt).toISOString(),
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(getResponseError(data));
+
+      setDraft(null);
+      showSuccess(`Prices scheduled for ${new Date(data.version.effectiveAt).toLocaleString()}`);
+      await loadVersions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to publish prices');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (version: PriceVersion) => {
+    if (!confirm('Withdraw this scheduled price version?')) return;
+    setError(null);
+
+    try {
+      const response = await authFetch(`/api/admin/pricing/${version.id}`, {
+        method: 'DELETE'
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setVersions(prev => prev.filter(v => v.id !== version.id));
+      showSuccess('Scheduled prices withdrawn');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete price version');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  const jurisdiction = JURISDICTIONS.find(j => j.id === jurisdictionId)!;
+  const pricing = draft?.jurisdictions[jurisdictionId];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Pricing</h1>
+        <p className="text-gray-500 text-sm mt-1">
+          New prices apply to registrations started after their effective date.
+          Existing drafts keep the prices they were started with.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-600 rounded-lg flex items-start">
+          <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="p-4 bg-green-50 text-green-600 rounded-lg flex items-start">
+          <CheckCircle2 className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+          <p>{successMessage}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-bold mb-4">Versions</h2>
+        <div className="divide-y">
+          {versions.map(version => {
+            const isCurrent = version.id === currentVersion?.id;
+            const isScheduled = !isInEffect(version);
+
+            return (
+              <div key={version.id} className="flex items-center justify-between py-4">
+                <div>
+                  <h3 className="font-medium">
+                    {version.id === DEFAULT_PRICE_VERSION_ID
+                      ? 'Built-in prices'
+                      : `From ${new Date(version.effectiveAt).toLocaleString()}`}
+                    {isCurrent && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">Current</span>
+                    )}
+                    {isScheduled && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-yellow-100 text-yellow-800">Scheduled</span>
+                    )}
+                  </h3>
+                  <div className="text-sm text-gray-500">
+                    {version.note || 'No note'}
+                    {version.createdBy && ` • Published by ${version.createdBy}`}
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setDraft(toDraft(version))}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
+                      title="Start a new version from these prices"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    {isScheduled && (
+                      <button
+                        onClick={() => handleDelete(version)}
+                        className="p-2 text-red-500 hover:bg-red-50 rounded-full transition-colors"
+                        title="Withdraw"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {draft && pricing && (
+        <form onSubmit={handlePublish} className="bg-white rounded-lg shadow-sm p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-bold">New Price Version</h2>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="text-sm text-gray-500 hover:underline"
+            >
+              Discard
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <label className="space-y-1">
+              <span className="text-gray-500">Effective from</span>
+              <input
+                type="datetime-local"
+                value={draft.effectiveAt}
+                onChange={(e) => setDraft({ ...draft, effectiveAt: e.target.value })}
+                className="w-full border rounded-lg px-3 py-2"
+                required
+              />
+            </label>
+            <label className="space-y-1 md:col-span-2">
+              <span className="text-gray-500">Note</span>
+              <input
+                value={draft.note}
+                onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                placeholder="e.g. 2027 price increase"
+                className="w-full border rounded-lg px-3 py-2"
+              />
+            </label>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {JURISDICTIONS.map(j => (
+              <button
+                key={j.id}
+                type="button"
+                onClick={() => setJurisdictionId(j.id)}
+                className={`px-3 py-1 rounded-full text-sm ${
+                  j.id === jurisdictionId ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {j.name}
+              </button>
+            ))}
+          </div>
+
+          <label className="block space-y-1 text-sm max-w-xs">
+            <span className="text-gray-500">Currency</span>
+            <input
+              value={pricing.currency}
+              onChange={(e) => updatePricing({ currency: e.target.value.toLowerCase() })}
+              maxLength={3}
+              className="w-full border rounded-lg px-3 py-2 uppercase"
+              required
+            />
+          </label>
+
+          <div className="space-y-4">
+            <h3 className="font-semibold">Packages</h3>
+            {pricing.packages.map((pkg, index) => (
+              <PackageEditor
+                key={index}
+                pkg={pkg}
+                currency={pricing.currency}
+                disabled={isSaving}
+                onChange={(updated) => updatePricing({
+                  packages: pricing.packages.map((p, i) => i === index ? updated : p)
+                })}
+                onRemove={() => updatePricing({
+                  packages: pricing.packages.filter((_, i) => i !== index)
+                })}
+              />
+            ))}
+            <button
+              type="button"
+              onClick={() => updatePricing({
+                packages: [
+                  ...pricing.packages,
+                  { id: '', name: '', plan: '', subtitle: '', price: 0, features: [] }
+                ]
+              })}
+              className="px-4 py-2 border rounded-lg text-sm hover:bg-gray-50 flex items-center"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Package
+            </button>
+          </div>
+
+          {jurisdiction.subdivision && (
+            <div className="space-y-4">
+              <h3 className="font-semibold">{jurisdiction.subdivision.feeLabel}s</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                {jurisdiction.subdivision.options.map(option => (
+                  <label key={option.name} className="flex items-center justify-between gap-2 text-sm">
+                    <span>{option.name}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={pricing.subdivisionFees?.[option.name] ?? ''}
+                      onChange={(e) => updatePricing({
+                        subdivisionFees: {
+                          ...pricing.subdivisionFees,
+                          [option.name]: Number(e.target.value),
+                        }
+                      })}
+                      className="w-28 border rounded-lg px-3 py-1"
+                      required
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Publish Prices
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Loader2,
+  UserPlus,
+  Trash2,
+  Copy,
+  AlertCircle,
+  CheckCircle2
+} from "lucide-react";
+import { auth } from "@/lib/firebase";
+import {
+  ADMIN_ROLES,
+  ADMIN_ROLE_LABELS,
+  ADMIN_ROLE_DESCRIPTIONS
+} from "@/lib/admin-roles";
+import { authFetch } from "@/utils/auth-fetch";
+import { getAdminRole } from "@/utils/admin-auth";
+import type { AdminInvite, AdminRole, AdminUser } from "@/types/admin";
+
+export default function TeamSettingsPage() {
+  const [members, setMembers] = useState<AdminUser[]>([]);
+  const [invites, setInvites] = useState<AdminInvite[]>([]);
+  const [currentRole, setCurrentRole] = useState<AdminRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<AdminRole>("support");
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [isInviting, setIsInviting] = useState(false);
+  const [pendingUid, setPendingUid] = useState<string | null>(null);
+
+  const isOwner = currentRole === 'owner';
+
+  useEffect(() => {
+    loadTeam();
+  }, []);
+
+  const loadTeam = async () => {
+    try {
+      const role = await getAdminRole(auth.currentUser);
+      setCurrentRole(role);
+
+      const membersResponse = await authFetch('/api/admin/team');
+      const membersData = await membersResponse.json();
+      if (!membersResponse.ok) throw new Error(membersData.error);
+      setMembers(membersData.members);
+
+      if (role === 'owner') {
+        const invitesResponse = await authFetch('/api/admin/invites');
+        const invitesData = await invitesResponse.json();
+        if (!invitesResponse.ok) throw new Error(invitesData.error);
+        setInvites(invitesData.invites);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load team');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    setError(null);
+    setInviteUrl(null);
+
+    try {
+      const response = await authFetch('/api/admin/invites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setInviteUrl(data.inviteUrl);
+      setInviteEmail("");
+      await loadTeam();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create invite');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: AdminUser, role: AdminRole) => {
+    setPendingUid(member.uid);
+    setError(null);
+
+    try {
+      const response = await authFetch(`/api/admin/team/${member.uid}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setMembers(prev => prev.map(m => m.uid === member.uid ? { ...m, role } : m));
+      showSuccess(`${member.email} is now ${ADMIN_ROLE_LABELS[role]}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change role');
+    } finally {
+      setPendingUid(null);
+    }
+  };
+
+  const handleRevoke = async (member: AdminUser) => {
+    if (!confirm(`Revoke admin access for ${member.email}?`)) return;
+    setPendingUid(member.uid);
+    setError(null);
+
+    try {
+      const response = await authFetch(`/api/admin/team/${member.uid}`, {
+        method: 'DELETE'
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setMembers(prev => prev.filter(m => m.uid !== member.uid));
+      showSuccess(`Access revoked for ${member.email}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke access');
+    } finally {
+      setPendingUid(null);
+    }
+  };
+
+  const handleCancelInvite = async (invite: AdminInvite) => {
+    setError(null);
+
+    try {
+      const response = await authFetch(`/api/admin/invites/${invite.id}`, {
+        method: 'DELETE'
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setInvites(prev => prev.filter(i => i.id !== invite.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel invite');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold">Team ({members.length})</h1>
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-600 rounded-lg flex items-start">
+          <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="p-4 bg-green-50 text-green-600 rounded-lg flex items-start">
+          <CheckCircle2 className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
+          <p>{successMessage}</p>
+        </div>
+      )}
+
+      {isOwner && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-bold mb-4">Invite a Team Member</h2>
+          <form onSubmit={handleInvite} className="flex flex-col md:flex-row gap-4">
+            <input
+              type="email"
+              placeholder="Email address"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              className="flex-1 border rounded-lg px-3 py-2"
+              required
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as AdminRole)}
+              className="border rounded-lg px-3 py-2"
+            >
+              {ADMIN_ROLES.map(role => (
+                <option key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={isInviting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center"
+            >
+              {isInviting ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <UserPlus className="w-4 h-4 mr-2" />
+              )}
+              Create Invite
+            </button>
+          </form>
+          <p className="text-sm text-gray-500 mt-2">{ADMIN_ROLE_DESCRIPTIONS[inviteRole]}</p>
+
+          {inviteUrl && (
+            <div className="mt-4 p-4 bg-blue-50 rounded-lg">
+              <p className="text-sm font-medium mb-2">
+                Share this one-time link. It can only be used once.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 text-xs bg-white border rounded p-2 truncate">{inviteUrl}</code>
+                <button
+                  type="button"
+                  onClick={() => navigator.clipboard.writeText(inviteUrl)}
+                  className="p-2 text-blue-600 hover:bg-blue-100 rounded-full transition-colors"
+                  title="Copy link"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-bold mb-4">Members</h2>
+        <div className="divide-y">
+          {members.map(member => {
+            const isSelf = member.uid === auth.currentUser?.uid;
+
+            return (
+              <div key={member.uid} className="flex items-center justify-between py-4">
+                <div>
+                  <h3 className="font-medium">
+                    {member.email}
+                    {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                  </h3>
+                  <div className="text-sm text-gray-500">
+                    {member.displayName || 'No name'} • Last sign in: {
+                      member.lastSignInTime ? new Date(member.lastSignInTime).toLocaleString() : 'Never'
+                    }
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {pendingUid === member.uid && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {isOwner && !isSelf ? (
+                    <>
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(member, e.target.value as AdminRole)}
+                        disabled={pendingUid === member.uid}
+                        className="border rounded-lg px-3 py-1 text-sm"
+                      >
+                        {ADMIN_ROLES.map(role => (
+                          <option key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleRevoke(member)}
+                        disabled={pendingUid === member.uid}
+                        className="p-2 text-red-500 hover:bg-red-50 rounded-full transition-colors"
+                        title="Revoke access"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <span className="px-3 py-1 rounded-full text-sm bg-blue-100 text-blue-800">
+                      {ADMIN_ROLE_LABELS[member.role]}
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {isOwner && invites.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-bold mb-4">Pending Invites</h2>
+          <div className="divide-y">
+            {invites.map(invite => (
+              <div key={invite.id} className="flex items-center justify-between py-4">
+                <div>
+                  <h3 className="font-medium">{invite.email}</h3>
+                  <div className="text-sm text-gray-500">
+                    {ADMIN_ROLE_LABELS[invite.role]} • Invited by {invite.invitedBy} • Expires{" "}
+                    {new Date(invite.expiresAt._seconds * 1000).toLocaleDateString()}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleCancelInvite(invite)}
+                  className="p-2 text-red-500 hover:bg-red-50 rounded-full transition-colors"
+                  title="Cancel invite"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
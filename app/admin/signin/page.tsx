@@ -3,9 +3,10 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { signInWithEmailAndPassword, signOut } from "firebase/auth";
-import { auth, db } from "@/lib/firebase";
+import { auth } from "@/lib/firebase";
 import { Loader2 } from "lucide-react";
-import { doc, getDoc } from "firebase/firestore";
+import { getAdminRole } from "@/utils/admin-auth";
+import { startSession } from "@/utils/session";
 
 export default function AdminSignIn() {
   const router = useRouter();
@@ -21,19 +22,20 @@ export default function AdminSignIn() {
 
     try {
       // First, sign in the user
-      await signInWithEmailAndPassword(auth, email, password);
+      const { user } = await signInWithEmailAndPassword(auth, email, password);
       
-      // Then check if they're an admin
-      const adminDoc = await getDoc(doc(db, "admins", email));
+      // Then check if they hold an admin role claim
+      const role = await getAdminRole(user);
       
-      if (!adminDoc.exists() || adminDoc.data()?.role !== 'admin') {
+      if (!role) {
         // If not admin, show error and sign out
         await signOut(auth);
         setError("You are not authorized to access the admin panel.");
         return;
       }
 
-      // If they are an admin, redirect to admin dashboard
+      // If they are an admin, start a session and go to the admin dashboard
+      await startSession(user);
       router.push("/admin");
     } catch (error: any) {
       setError(
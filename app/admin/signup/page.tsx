@@ -1,24 +1,62 @@
 "use client";
 
-import { useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { signUpAdmin } from "@/utils/admin-auth";
+import {
+  acceptAdminInvite,
+  acceptAdminInviteWithExistingAccount
+} from "@/utils/admin-auth";
+import { ADMIN_ROLE_LABELS } from "@/lib/admin-roles";
 import { Loader2 } from "lucide-react";
+import type { AdminRole } from "@/types/admin";
 
-export default function AdminSignUp() {
+interface InvitePreview {
+  email: string;
+  role: AdminRole;
+}
+
+function AdminSignUpContent() {
   const router = useRouter();
-  const [email, setEmail] = useState("");
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [hasAccount, setHasAccount] = useState(false);
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [error, setError] = useState("");
+  const [isCheckingInvite, setIsCheckingInvite] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
 
+  useEffect(() => {
+    const loadInvite = async () => {
+      if (!token) {
+        setError("Admin accounts are invite-only. Ask an owner for an invite link.");
+        setIsCheckingInvite(false);
+        return;
+      }
+
+      try {
+        const response = await fetch(`/api/admin/invites/accept?token=${encodeURIComponent(token)}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        setInvite(data);
+      } catch (error: any) {
+        setError(error.message || "This invite could not be loaded");
+      } finally {
+        setIsCheckingInvite(false);
+      }
+    };
+
+    loadInvite();
+  }, [token]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!token || !invite) return;
     setError("");
 
-    if (password !== confirmPassword) {
+    if (!hasAccount && password !== confirmPassword) {
       setError("Passwords do not match");
       return;
     }
@@ -26,7 +64,11 @@ export default function AdminSignUp() {
     setIsLoading(true);
 
     try {
-      await signUpAdmin(email, password);
+      if (hasAccount) {
+        await acceptAdminInviteWithExistingAccount(token, invite.email, password);
+      } else {
+        await acceptAdminInvite(token, password);
+      }
       router.push("/admin");
     } catch (error: any) {
       setError(error.message);
@@ -35,69 +77,100 @@ export default function AdminSignUp() {
     }
   };
 
+  if (isCheckingInvite) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-100">
       <div className="bg-white p-8 rounded-lg shadow-md w-full max-w-md">
-        <h2 className="text-2xl font-bold text-center mb-6">Create Admin Account</h2>
-        
+        <h2 className="text-2xl font-bold text-center mb-6">Accept Admin Invite</h2>
+
         {error && (
           <div className="mb-4 p-3 bg-red-100 text-red-600 rounded">
             {error}
           </div>
         )}
 
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium mb-1">Email</label>
-            <input
-              type="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              className="w-full p-2 border rounded"
-              required
-            />
-          </div>
+        {invite && (
+          <>
+            <p className="mb-6 text-sm text-gray-600 text-center">
+              You've been invited to join the admin team as{" "}
+              <span className="font-medium">{ADMIN_ROLE_LABELS[invite.role]}</span>{" "}
+              with <span className="font-medium">{invite.email}</span>.
+            </p>
 
-          <div>
-            <label className="block text-sm font-medium mb-1">Password</label>
-            <input
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full p-2 border rounded"
-              required
-            />
-          </div>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Email</label>
+                <input
+                  type="email"
+                  value={invite.email}
+                  className="w-full p-2 border rounded bg-gray-50 text-gray-500"
+                  disabled
+                />
+              </div>
 
-          <div>
-            <label className="block text-sm font-medium mb-1">Confirm Password</label>
-            <input
-              type="password"
-              value={confirmPassword}
-              onChange={(e) => setConfirmPassword(e.target.value)}
-              className="w-full p-2 border rounded"
-              required
-            />
-          </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  {hasAccount ? "Current Password" : "Password"}
+                </label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full p-2 border rounded"
+                  minLength={hasAccount ? undefined : 8}
+                  required
+                />
+              </div>
+
+              {!hasAccount && (
+                <div>
+                  <label className="block text-sm font-medium mb-1">Confirm Password</label>
+                  <input
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="w-full p-2 border rounded"
+                    required
+                  />
+                </div>
+              )}
 
-          <button
-            type="submit"
-            disabled={isLoading}
-            className="w-full bg-blue-600 text-white py-2 rounded hover:bg-blue-700 disabled:opacity-50"
-          >
-            {isLoading ? (
-              <span className="flex items-center justify-center">
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                Creating account...
-              </span>
-            ) : (
-              "Create Account"
-            )}
-          </button>
-        </form>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={hasAccount}
+                  onChange={(e) => setHasAccount(e.target.checked)}
+                />
+                I already have an account with this email
+              </label>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-blue-600 text-white py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isLoading ? (
+                  <span className="flex items-center justify-center">
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Joining team...
+                  </span>
+                ) : (
+                  "Accept Invite"
+                )}
+              </button>
+            </form>
+          </>
+        )}
 
         <div className="mt-4 text-center text-sm">
-          Already have an account?{" "}
+          Already on the team?{" "}
           <Link href="/admin/signin" className="text-blue-600 hover:underline">
             Sign in
           </Link>
@@ -105,4 +178,18 @@ export default function AdminSignUp() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+export default function AdminSignUp() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center bg-gray-100">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      }
+    >
+      <AdminSignUpContent />
+    </Suspense>
+  );
+}
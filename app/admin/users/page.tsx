@@ -3,6 +3,9 @@
 import { useEffect, useState } from "react";
 import { Loader2, Search } from "lucide-react";
 import type { User, Business } from "@/types/index";
+import { authFetch } from "@/utils/auth-fetch";
+import { StatusBadge } from "@/components/business/status-badge";
+import { getDocumentUrl } from "@/lib/documents";
 
 export default function UsersPage() {
   const [users, setUsers] = useState<User[]>([]);
@@ -17,7 +20,7 @@ export default function UsersPage() {
 
   const fetchUsers = async () => {
     try {
-      const response = await fetch('/api/users');
+      const response = await authFetch('/api/users');
       const data = await response.json();
       
       if (!response.ok) throw new Error(data.error);
@@ -142,14 +145,7 @@ export default function UsersPage() {
                           <div className="text-sm">
                             <div>
                               Status: 
-                              <span className={`ml-2 px-2 py-1 rounded-full text-xs
-                                ${business.status === 'completed' 
-                                  ? 'bg-green-100 text-green-800' 
-                                  : 'bg-yellow-100 text-yellow-800'
-                                }`}
-                              >
-                                {business.status}
-                              </span>
+                              <StatusBadge status={business.status} className="ml-2 px-2 text-xs" />
                             </div>
                             {business.paymentDetails && (
                               <>
@@ -170,9 +166,9 @@ export default function UsersPage() {
                               <div key={owner.id} className="text-sm border-l-2 pl-3">
                                 <div>{owner.fullName}</div>
                                 <div>Ownership: {owner.ownership}%</div>
-                                {owner.documentUrl && (
+                                {owner.documentId && (
                                   <a
-                                    href={owner.documentUrl}
+                                    href={getDocumentUrl(owner.documentId)}
                                     target="_blank"
                                     rel="noopener noreferrer"
                                     className="text-blue-600 hover:underline"
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/utils/api-auth";
+import { AccountDeletionError, deleteAccount } from "@/utils/accounts";
+
+// Deleting requires a sign-in within this many seconds
+const RECENT_SIGN_IN_SECONDS = 5 * 60;
+
+// Delete the caller's account and everything stored about it
+export async function DELETE(req: Request) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
+  if (Date.now() / 1000 - user.auth_time > RECENT_SIGN_IN_SECONDS) {
+    return NextResponse.json(
+      { error: "Please sign in again before deleting your account" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    await deleteAccount(user.uid);
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    if (error instanceof AccountDeletionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error("Error deleting account:", error);
+    return NextResponse.json(
+      { error: "Failed to delete account" },
+      { status: 500 }
+    );
+  }
+}
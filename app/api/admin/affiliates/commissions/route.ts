@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { ADMIN_BILLING_ROLES } from '@/lib/admin-roles';
+import { COMMISSION_STATUS_LABELS, type CommissionStatus } from '@/lib/affiliates';
+import { requireAdmin } from '@/utils/api-auth';
+import { listCommissions, reviewCommissions } from '@/utils/affiliates';
+
+const isCommissionStatus = (value: unknown): value is CommissionStatus =>
+  typeof value === 'string' && Object.hasOwn(COMMISSION_STATUS_LABELS, value);
+
+// The commission ledger, optionally filtered with ?status=
+export async function GET(request: Request) {
+  const admin = await requireAdmin(request);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const status = new URL(request.url).searchParams.get('status') || undefined;
+    if (status !== undefined && !isCommissionStatus(status)) {
+      return NextResponse.json(
+        { error: 'Unknown commission status' },
+        { status: 400 }
+      );
+    }
+
+    const commissions = await listCommissions(status);
+    return NextResponse.json({ commissions });
+  } catch (error) {
+    console.error('Error listing commissions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch commissions' },
+      { status: 500 }
+    );
+  }
+}
+
+// Approve or reject pending commissions
+export async function PATCH(request: Request) {
+  const admin = await requireAdmin(request, ADMIN_BILLING_ROLES);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { ids, status } = await request.json();
+
+    if (!Array.isArray(ids) || ids.length === 0 || ids.length > 100 ||
+      !ids.every(id => typeof id === 'string' && id)) {
+      return NextResponse.json(
+        { error: 'Select between 1 and 100 commissions' },
+        { status: 400 }
+      );
+    }
+    if (status !== 'approved' && status !== 'rejected') {
+      return NextResponse.json(
+        { error: 'status must be approved or rejected' },
+        { status: 400 }
+      );
+    }
+
+    const commissions = await reviewCommissions(ids, status, admin.email);
+    return NextResponse.json({ commissions });
+  } catch (error) {
+    console.error('Error reviewing commissions:', error);
+    return NextResponse.json(
+      { error: 'Failed to update commissions' },
+      { status: 500 }
+    );
+  }
+}
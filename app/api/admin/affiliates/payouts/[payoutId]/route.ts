@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { ADMIN_BILLING_ROLES } from '@/lib/admin-roles';
+import { toPayoutCsv } from '@/lib/affiliates';
+import { requireAdmin } from '@/utils/api-auth';
+import { getPayout } from '@/utils/affiliates';
+
+// Download a payout batch as CSV
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ payoutId: string }> }
+) {
+  const admin = await requireAdmin(request, ADMIN_BILLING_ROLES);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { payoutId } = await params;
+    const payout = await getPayout(payoutId);
+    if (!payout) {
+      return NextResponse.json(
+        { error: 'Payout not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(toPayoutCsv(payout), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="payout-${payout.id}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting payout:', error);
+    return NextResponse.json(
+      { error: 'Failed to export payout' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { ADMIN_BILLING_ROLES } from '@/lib/admin-roles';
+import { requireAdmin } from '@/utils/api-auth';
+import { createPayout, listPayouts } from '@/utils/affiliates';
+
+export async function GET(request: Request) {
+  const admin = await requireAdmin(request);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const payouts = await listPayouts();
+    return NextResponse.json({ payouts });
+  } catch (error) {
+    console.error('Error listing payouts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payouts' },
+      { status: 500 }
+    );
+  }
+}
+
+// Mark every approved commission as paid in a new payout batch. The money
+// itself is sent outside the app, from the batch's CSV export.
+export async function POST(request: Request) {
+  const admin = await requireAdmin(request, ADMIN_BILLING_ROLES);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const payout = await createPayout(admin.email);
+    if (!payout) {
+      return NextResponse.json(
+        { error: 'There are no approved commissions to pay out' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ payout });
+  } catch (error) {
+    console.error('Error creating payout:', error);
+    return NextResponse.json(
+      { error: 'Failed to create payout' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { adminDb } from "@/lib/firebase-admin";
+import { requireAdmin } from "@/utils/api-auth";
+import { ADMIN_INVITES_COLLECTION } from "@/utils/admin-invites";
+import { NextResponse } from "next/server";
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ inviteId: string }> }
+) {
+  const admin = await requireAdmin(request, ['owner']);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { inviteId } = await params;
+    const inviteRef = adminDb.collection(ADMIN_INVITES_COLLECTION).doc(inviteId);
+
+    const inviteDoc = await inviteRef.get();
+    if (!inviteDoc.exists) {
+      return NextResponse.json(
+        { error: 'Invite not found' },
+        { status: 404 }
+      );
+    }
+
+    await inviteRef.delete();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking admin invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke invite' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { adminAuth, adminDb, setAdminRole } from "@/lib/firebase-admin";
+import { requireUser } from "@/utils/api-auth";
+import { ADMIN_INVITES_COLLECTION, hashInviteToken } from "@/utils/admin-invites";
+import { NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+
+// Preview an invite so the signup page can show who it was issued to
+export async function GET(request: Request) {
+  try {
+    const token = new URL(request.url).searchParams.get('token');
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Invite token is required' },
+        { status: 400 }
+      );
+    }
+
+    const inviteDoc = await adminDb
+      .collection(ADMIN_INVITES_COLLECTION)
+      .doc(hashInviteToken(token))
+      .get();
+    const invite = inviteDoc.data();
+
+    if (!invite || invite.acceptedAt || invite.expiresAt.toMillis() <= Date.now()) {
+      return NextResponse.json(
+        { error: 'This invite is invalid, expired or already used' },
+        { status: 410 }
+      );
+    }
+
+    return NextResponse.json({ email: invite.email, role: invite.role });
+  } catch (error) {
+    console.error('Error reading admin invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to read invite' },
+      { status: 500 }
+    );
+  }
+}
+
+// Accepting an invite either creates a new account with the given password,
+// or — when the request carries an ID token — promotes the signed-in account.
+export async function POST(request: Request) {
+  try {
+    const { token, password } = await request.json();
+
+    if (typeof token !== 'string' || !token) {
+      return NextResponse.json(
+        { error: 'Invite token is required' },
+        { status: 400 }
+      );
+    }
+
+    const inviteRef = adminDb
+      .collection(ADMIN_INVITES_COLLECTION)
+      .doc(hashInviteToken(token));
+
+    // Claim the invite first so it can only ever be used once
+    const invite = await adminDb.runTransaction(async (transaction) => {
+      const inviteDoc = await transaction.get(inviteRef);
+      const data = inviteDoc.data();
+
+      if (!data || data.acceptedAt) return null;
+      if (data.expiresAt.toMillis() <= Date.now()) return null;
+
+      transaction.update(inviteRef, { acceptedAt: Timestamp.now() });
+      return data;
+    });
+
+    if (!invite) {
+      return NextResponse.json(
+        { error: 'This invite is invalid, expired or already used' },
+        { status: 410 }
+      );
+    }
+
+    let uid: string;
+
+    if (request.headers.has('authorization')) {
+      const user = await requireUser(request);
+      if (user instanceof NextResponse) {
+        await inviteRef.update({ acceptedAt: null });
+        return user;
+      }
+
+      if (user.email?.toLowerCase() !== invite.email) {
+        await inviteRef.update({ acceptedAt: null });
+        return NextResponse.json(
+          { error: 'This invite was issued for a different email address' },
+          { status: 403 }
+        );
+      }
+
+      uid = user.uid;
+    } else {
+      if (typeof password !== 'string' || password.length < 8) {
+        await inviteRef.update({ acceptedAt: null });
+        return NextResponse.json(
+          { error: 'Password must be at least 8 characters' },
+          { status: 400 }
+        );
+      }
+
+      try {
+        const user = await adminAuth.createUser({ email: invite.email, password });
+        uid = user.uid;
+      } catch (error: any) {
+        await inviteRef.update({ acceptedAt: null });
+        if (error.code === 'auth/email-already-exists') {
+          return NextResponse.json(
+            { error: 'An account already exists for this email. Sign in to accept the invite.' },
+            { status: 409 }
+          );
+        }
+        throw error;
+      }
+    }
+
+    await setAdminRole(uid, invite.role);
+    await inviteRef.update({ acceptedBy: uid });
+
+    return NextResponse.json({ email: invite.email, role: invite.role });
+  } catch (error) {
+    console.error('Error accepting admin invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to accept invite' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { adminDb } from "@/lib/firebase-admin";
+import { isAdminRole } from "@/lib/admin-roles";
+import { requireAdmin } from "@/utils/api-auth";
+import {
+  ADMIN_INVITES_COLLECTION,
+  INVITE_TTL_DAYS,
+  generateInviteToken,
+} from "@/utils/admin-invites";
+import { NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+
+export async function GET(request: Request) {
+  const admin = await requireAdmin(request, ['owner']);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const snapshot = await adminDb
+      .collection(ADMIN_INVITES_COLLECTION)
+      .where('acceptedAt', '==', null)
+      .get();
+
+    const invites = snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() }))
+      .filter((invite: any) => invite.expiresAt.toMillis() > Date.now());
+
+    return NextResponse.json({ invites });
+  } catch (error) {
+    console.error('Error listing admin invites:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invites' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const admin = await requireAdmin(request, ['owner']);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { email, role } = await request.json();
+
+    if (typeof email !== 'string' || !email.includes('@')) {
+      return NextResponse.json(
+        { error: 'A valid email address is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isAdminRole(role)) {
+      return NextResponse.json(
+        { error: 'Invalid role' },
+        { status: 400 }
+      );
+    }
+
+    const { token, inviteId } = generateInviteToken();
+    const expiresAt = Timestamp.fromMillis(
+      Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000
+    );
+
+    await adminDb.collection(ADMIN_INVITES_COLLECTION).doc(inviteId).set({
+      email: email.trim().toLowerCase(),
+      role,
+      invitedBy: admin.email,
+      createdAt: Timestamp.now(),
+      expiresAt,
+      acceptedAt: null,
+    });
+
+    const inviteUrl = `${process.env.NEXT_PUBLIC_BASE_URL}/admin/signup?token=${token}`;
+
+    return NextResponse.json({ id: inviteId, inviteUrl, expiresAt });
+  } catch (error) {
+    console.error('Error creating admin invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to create invite' },
+      { status: 500 }
+    );
+  }
+}
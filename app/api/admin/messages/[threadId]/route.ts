@@ -0,0 +1,152 @@
+import { NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebase-admin';
+import { ADMIN_WRITE_ROLES, isAdminRole } from '@/lib/admin-roles';
+import { getFieldErrors } from '@/lib/business-schema';
+import { messageInputSchema, type ThreadAssignee } from '@/lib/messages';
+import { requireAdmin } from '@/utils/api-auth';
+import {
+  addMessage,
+  getThread,
+  listThreadMessages,
+  markThreadRead,
+  MessageError,
+  updateThread
+} from '@/utils/messages';
+
+type Params = { params: Promise<{ threadId: string }> };
+
+// A thread with its messages. Opening it marks it read for the admin team.
+export async function GET(request: Request, { params }: Params) {
+  const admin = await requireAdmin(request);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { threadId } = await params;
+    const thread = await getThread(threadId);
+    if (!thread) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const [messages] = await Promise.all([
+      listThreadMessages(threadId),
+      markThreadRead(threadId, 'admin'),
+    ]);
+
+    return NextResponse.json({ thread, messages });
+  } catch (error) {
+    console.error('Error fetching message thread:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation' },
+      { status: 500 }
+    );
+  }
+}
+
+// Reply to the customer
+export async function POST(request: Request, { params }: Params) {
+  const admin = await requireAdmin(request, ADMIN_WRITE_ROLES);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { threadId } = await params;
+    const thread = await getThread(threadId);
+    if (!thread) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = messageInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid message', fields: getFieldErrors(parsed.error) },
+        { status: 422 }
+      );
+    }
+
+    const message = await addMessage(
+      thread,
+      { uid: admin.uid, email: admin.email, side: 'admin' },
+      parsed.data
+    );
+
+    return NextResponse.json({ message });
+  } catch (error) {
+    if (error instanceof MessageError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error sending message:', error);
+    return NextResponse.json(
+      { error: 'Failed to send message' },
+      { status: 500 }
+    );
+  }
+}
+
+// Assign the thread to an admin (assignedTo: uid or null) or open/close it
+export async function PATCH(request: Request, { params }: Params) {
+  const admin = await requireAdmin(request, ADMIN_WRITE_ROLES);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { threadId } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    const update: { assignedTo?: ThreadAssignee | null; status?: 'open' | 'closed' } = {};
+
+    if ('status' in body) {
+      if (body.status !== 'open' && body.status !== 'closed') {
+        return NextResponse.json(
+          { error: 'status must be open or closed' },
+          { status: 400 }
+        );
+      }
+      update.status = body.status;
+    }
+
+    if ('assignedTo' in body) {
+      if (body.assignedTo === null) {
+        update.assignedTo = null;
+      } else {
+        const assignee = typeof body.assignedTo === 'string'
+          ? await adminAuth.getUser(body.assignedTo).catch(() => null)
+          : null;
+        if (!assignee?.email || !isAdminRole(assignee.customClaims?.role)) {
+          return NextResponse.json(
+            { error: 'Threads can only be assigned to admins' },
+            { status: 400 }
+          );
+        }
+        update.assignedTo = { uid: assignee.uid, email: assignee.email };
+      }
+    }
+
+    const thread = await updateThread(threadId, update);
+    if (!thread) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ thread });
+  } catch (error) {
+    console.error('Error updating message thread:', error);
+    return NextResponse.json(
+      { error: 'Failed to update conversation' },
+      { status: 500 }
+    );
+  }
+}
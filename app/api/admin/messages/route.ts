@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import type { ThreadStatus } from '@/lib/messages';
+import { requireAdmin } from '@/utils/api-auth';
+import { listInboxThreads } from '@/utils/messages';
+
+// The admin inbox. ?status=open|closed, ?assigned=me|unassigned
+export async function GET(request: Request) {
+  const admin = await requireAdmin(request);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const status = searchParams.get('status');
+    const assigned = searchParams.get('assigned');
+
+    if (status && status !== 'open' && status !== 'closed') {
+      return NextResponse.json(
+        { error: 'status must be open or closed' },
+        { status: 400 }
+      );
+    }
+
+    const threads = await listInboxThreads({
+      status: (status as ThreadStatus | null) || undefined,
+      assignedTo: assigned === 'me' ? admin.uid : assigned === 'unassigned' ? null : undefined,
+    });
+
+    return NextResponse.json({ threads });
+  } catch (error) {
+    console.error('Error listing inbox:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch messages' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/utils/api-auth';
+import { countUnread } from '@/utils/messages';
+
+// Unread customer messages for the admin navigation
+export async function GET(request: Request) {
+  const admin = await requireAdmin(request);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const count = await countUnread('admin');
+    return NextResponse.json({ count });
+  } catch (error) {
+    console.error('Error counting unread messages:', error);
+    return NextResponse.json(
+      { error: 'Failed to count unread messages' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { ADMIN_BILLING_ROLES } from "@/lib/admin-roles";
+import { requireAdmin } from "@/utils/api-auth";
+import { deletePriceVersion, PriceVersionLockedError } from "@/utils/price-versions";
+
+// Withdraw a scheduled price version before it takes effect
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ versionId: string }> }
+) {
+  const admin = await requireAdmin(request, ADMIN_BILLING_ROLES);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { versionId } = await params;
+
+    const deleted = await deletePriceVersion(versionId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Price version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof PriceVersionLockedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Error deleting price version:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete price version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { ADMIN_BILLING_ROLES } from "@/lib/admin-roles";
+import { getFieldErrors } from "@/lib/business-schema";
+import { priceVersionSchema } from "@/lib/pricing-schema";
+import { requireAdmin } from "@/utils/api-auth";
+import { createPriceVersion, listPriceVersions } from "@/utils/price-versions";
+
+export async function GET(request: Request) {
+  const admin = await requireAdmin(request);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const versions = await listPriceVersions();
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Error listing price versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch price versions' },
+      { status: 500 }
+    );
+  }
+}
+
+// Publish a new price version. It applies to drafts created from its
+// effective date on; existing drafts keep the version they started with.
+export async function POST(request: Request) {
+  const admin = await requireAdmin(request, ADMIN_BILLING_ROLES);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = priceVersionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid price version', fields: getFieldErrors(parsed.error) },
+        { status: 422 }
+      );
+    }
+
+    const version = await createPriceVersion(parsed.data, admin.email);
+
+    return NextResponse.json({ version });
+  } catch (error) {
+    console.error('Error creating price version:', error);
+    return NextResponse.json(
+      { error: 'Failed to create price version' },
+      { status: 500 }
+    );
+  }
+}
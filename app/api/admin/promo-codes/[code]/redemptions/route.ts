@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/api-auth";
+import { PromoCodeError } from "@/lib/promo-codes";
+import { getPromoCode, listRedemptions } from "@/utils/promo-codes";
+
+// Paid registrations that used a promo code, newest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const admin = await requireAdmin(request);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { code } = await params;
+
+    const promoCode = await getPromoCode(code);
+    if (!promoCode) {
+      return NextResponse.json(
+        { error: 'Promo code not found' },
+        { status: 404 }
+      );
+    }
+
+    const redemptions = await listRedemptions(code);
+
+    return NextResponse.json({ promoCode, redemptions });
+  } catch (error) {
+    if (error instanceof PromoCodeError) {
+      return NextResponse.json(
+        { error: 'Promo code not found' },
+        { status: 404 }
+      );
+    }
+
+    console.error('Error listing promo code redemptions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch redemptions' },
+      { status: 500 }
+    );
+  }
+}
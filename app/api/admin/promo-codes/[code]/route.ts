@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { ADMIN_BILLING_ROLES } from "@/lib/admin-roles";
+import { requireAdmin } from "@/utils/api-auth";
+import { PromoCodeError } from "@/lib/promo-codes";
+import { setPromoCodeActive } from "@/utils/promo-codes";
+
+// Enable or disable a promo code for new checkouts
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const admin = await requireAdmin(request, ADMIN_BILLING_ROLES);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { code } = await params;
+    const { active } = await request.json();
+
+    if (typeof active !== 'boolean') {
+      return NextResponse.json(
+        { error: 'active must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const promoCode = await setPromoCodeActive(code, active);
+    if (!promoCode) {
+      return NextResponse.json(
+        { error: 'Promo code not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ promoCode });
+  } catch (error) {
+    if (error instanceof PromoCodeError) {
+      return NextResponse.json(
+        { error: 'Promo code not found' },
+        { status: 404 }
+      );
+    }
+
+    console.error('Error updating promo code:', error);
+    return NextResponse.json(
+      { error: 'Failed to update promo code' },
+      { status: 500 }
+    );
+  }
+}
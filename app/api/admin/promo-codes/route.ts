@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { ADMIN_BILLING_ROLES } from "@/lib/admin-roles";
+import { getFieldErrors } from "@/lib/business-schema";
+import { promoCodeSchema } from "@/lib/promo-codes";
+import { requireAdmin } from "@/utils/api-auth";
+import { createPromoCode, listPromoCodes, PromoCodeExistsError } from "@/utils/promo-codes";
+
+export async function GET(request: Request) {
+  const admin = await requireAdmin(request);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const promoCodes = await listPromoCodes();
+    return NextResponse.json({ promoCodes });
+  } catch (error) {
+    console.error('Error listing promo codes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch promo codes' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a promo code and its Stripe coupon
+export async function POST(request: Request) {
+  const admin = await requireAdmin(request, ADMIN_BILLING_ROLES);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = promoCodeSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid promo code', fields: getFieldErrors(parsed.error) },
+        { status: 422 }
+      );
+    }
+
+    const promoCode = await createPromoCode(parsed.data, admin.email);
+
+    return NextResponse.json({ promoCode });
+  } catch (error) {
+    if (error instanceof PromoCodeExistsError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Error creating promo code:', error);
+    return NextResponse.json(
+      { error: 'Failed to create promo code' },
+      { status: 500 }
+    );
+  }
+}
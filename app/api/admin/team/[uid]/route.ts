@@ -0,0 +1,79 @@
+import { adminAuth, setAdminRole } from "@/lib/firebase-admin";
+import { isAdminRole } from "@/lib/admin-roles";
+import { requireAdmin } from "@/utils/api-auth";
+import { NextResponse } from "next/server";
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ uid: string }> }
+) {
+  const admin = await requireAdmin(request, ['owner']);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { uid } = await params;
+    const { role } = await request.json();
+
+    if (!isAdminRole(role)) {
+      return NextResponse.json(
+        { error: 'Invalid role' },
+        { status: 400 }
+      );
+    }
+
+    // Owners cannot demote themselves, so the team never loses its last owner
+    if (uid === admin.uid && role !== 'owner') {
+      return NextResponse.json(
+        { error: 'You cannot change your own role' },
+        { status: 400 }
+      );
+    }
+
+    const user = await adminAuth.getUser(uid);
+    if (!isAdminRole(user.customClaims?.role)) {
+      return NextResponse.json(
+        { error: 'User is not a team member' },
+        { status: 404 }
+      );
+    }
+
+    await setAdminRole(uid, role);
+
+    return NextResponse.json({ uid, role });
+  } catch (error) {
+    console.error('Error changing admin role:', error);
+    return NextResponse.json(
+      { error: 'Failed to change role' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ uid: string }> }
+) {
+  const admin = await requireAdmin(request, ['owner']);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { uid } = await params;
+
+    if (uid === admin.uid) {
+      return NextResponse.json(
+        { error: 'You cannot revoke your own access' },
+        { status: 400 }
+      );
+    }
+
+    await setAdminRole(uid, null);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking admin role:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke access' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { adminAuth } from "@/lib/firebase-admin";
+import { isAdminRole } from "@/lib/admin-roles";
+import { requireAdmin } from "@/utils/api-auth";
+import { NextResponse } from "next/server";
+import type { AdminUser } from "@/types/admin";
+
+export async function GET(request: Request) {
+  const admin = await requireAdmin(request);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const members: AdminUser[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const result = await adminAuth.listUsers(1000, pageToken);
+
+      for (const user of result.users) {
+        const role = user.customClaims?.role;
+        if (!isAdminRole(role) || !user.email) continue;
+
+        members.push({
+          uid: user.uid,
+          email: user.email,
+          displayName: user.displayName,
+          role,
+          createdAt: user.metadata.creationTime,
+          lastSignInTime: user.metadata.lastSignInTime,
+        });
+      }
+
+      pageToken = result.pageToken;
+    } while (pageToken);
+
+    return NextResponse.json({ members });
+  } catch (error) {
+    console.error('Error listing admin team:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch team' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { recordReferralClick } from "@/utils/affiliates";
+
+// Count a visit to a referral link. Public, called by the signup page.
+export async function POST(req: Request) {
+  try {
+    const { code } = await req.json().catch(() => ({}));
+
+    if (typeof code !== "string" || !code.trim()) {
+      return NextResponse.json({ error: "Referral code is required" }, { status: 400 });
+    }
+
+    const recorded = await recordReferralClick(code);
+    return NextResponse.json({ recorded });
+  } catch (error) {
+    console.error("Error recording referral click:", error);
+    return NextResponse.json(
+      { error: "Failed to record referral click" },
+      { status: 500 }
+    );
+  }
+}
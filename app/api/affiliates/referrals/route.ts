@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { adminAuth } from "@/lib/firebase-admin";
+import { requireUser } from "@/utils/api-auth";
+import { attributeReferral } from "@/utils/affiliates";
+
+// Attribute the caller's new account to the affiliate whose referral link
+// they signed up through
+export async function POST(req: Request) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { code } = await req.json().catch(() => ({}));
+
+    if (typeof code !== "string" || !code.trim()) {
+      return NextResponse.json({ error: "Referral code is required" }, { status: 400 });
+    }
+
+    const { metadata } = await adminAuth.getUser(user.uid);
+    const attributed = await attributeReferral(user.uid, new Date(metadata.creationTime), code);
+
+    return NextResponse.json({ attributed });
+  } catch (error) {
+    console.error("Error attributing referral:", error);
+    return NextResponse.json(
+      { error: "Failed to attribute referral" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/utils/api-auth";
+import { getOrCreateAffiliate, listAffiliateCommissions } from "@/utils/affiliates";
+
+// The caller's referral code, stats and commission ledger
+export async function GET(req: Request) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const [affiliate, commissions] = await Promise.all([
+      getOrCreateAffiliate(user.uid, user.email || ""),
+      listAffiliateCommissions(user.uid),
+    ]);
+
+    return NextResponse.json({ affiliate, commissions });
+  } catch (error) {
+    console.error("Error fetching affiliate:", error);
+    return NextResponse.json(
+      { error: "Failed to load affiliate program" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { adminAuth } from "@/lib/firebase-admin";
+import { SESSION_COOKIE_NAME, SESSION_MAX_AGE_SECONDS } from "@/lib/session-cookie";
+import { NextResponse } from "next/server";
+
+// Only mint session cookies from a sign-in that happened in the last few minutes
+const MAX_SIGN_IN_AGE_SECONDS = 5 * 60;
+
+export async function POST(request: Request) {
+  try {
+    const { idToken } = await request.json();
+
+    if (typeof idToken !== 'string' || !idToken) {
+      return NextResponse.json(
+        { error: 'ID token is required' },
+        { status: 400 }
+      );
+    }
+
+    const decodedToken = await adminAuth.verifyIdToken(idToken, true);
+    if (Date.now() / 1000 - decodedToken.auth_time > MAX_SIGN_IN_AGE_SECONDS) {
+      return NextResponse.json(
+        { error: 'Recent sign-in required' },
+        { status: 401 }
+      );
+    }
+
+    const sessionCookie = await adminAuth.createSessionCookie(idToken, {
+      expiresIn: SESSION_MAX_AGE_SECONDS * 1000,
+    });
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(SESSION_COOKIE_NAME, sessionCookie, {
+      maxAge: SESSION_MAX_AGE_SECONDS,
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Error creating session:', error);
+    return NextResponse.json(
+      { error: 'Failed to create session' },
+      { status: 401 }
+    );
+  }
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE_NAME);
+  return response;
+}
@@ -0,0 +1,54 @@
+import { adminAuth, adminDb } from "@/lib/firebase-admin";
+import { requireUser } from "@/utils/api-auth";
+import { sendEmail, verifyEmail, welcomeEmail, appUrl } from "@/lib/email";
+import { NextResponse } from "next/server";
+
+// Email the caller a link to verify their address. Signup passes
+// `welcome: true` to send the welcome email instead, which includes the
+// link unless the address is already verified (e.g. Google accounts).
+export async function POST(request: Request) {
+  const token = await requireUser(request);
+  if (token instanceof NextResponse) return token;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const welcome = body?.welcome === true;
+
+    const user = await adminAuth.getUser(token.uid);
+    if (!user.email) {
+      return NextResponse.json(
+        { error: "Your account has no email address" },
+        { status: 400 }
+      );
+    }
+
+    if (user.emailVerified && !welcome) {
+      return NextResponse.json(
+        { error: "Your email is already verified" },
+        { status: 409 }
+      );
+    }
+
+    // The link returns to the dashboard once the address is verified
+    const continueUrl = process.env.NEXT_PUBLIC_BASE_URL ? { url: appUrl("/dashboard") } : undefined;
+    const verifyUrl = user.emailVerified
+      ? undefined
+      : await adminAuth.generateEmailVerificationLink(user.email, continueUrl);
+
+    if (welcome) {
+      const profile = (await adminDb.collection("users").doc(user.uid).get()).data();
+      const firstName = profile?.firstName || user.displayName?.split(" ")[0];
+      await sendEmail(user.email, welcomeEmail({ firstName, verifyUrl }));
+    } else {
+      await sendEmail(user.email, verifyEmail({ verifyUrl: verifyUrl! }));
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error sending verification email:", error);
+    return NextResponse.json(
+      { error: "Failed to send verification email" },
+      { status: 500 }
+    );
+  }
+}
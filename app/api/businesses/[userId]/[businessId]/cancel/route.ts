@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/utils/api-auth"
+import { ADMIN_BILLING_ROLES } from "@/lib/admin-roles"
+import { StatusTransitionError } from "@/lib/business-lifecycle"
+import { cancelBusiness, RefundError } from "@/utils/refunds"
+
+// Cancel a registration, optionally refunding the remaining payment
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ userId: string; businessId: string }> }
+) {
+  const admin = await requireAdmin(request, ADMIN_BILLING_ROLES)
+  if (admin instanceof NextResponse) return admin
+
+  try {
+    const { userId, businessId } = await params
+    const { reason, refund } = await request.json()
+
+    if (typeof reason !== "string" || !reason.trim()) {
+      return NextResponse.json(
+        { error: "A cancellation reason is required" },
+        { status: 400 }
+      )
+    }
+
+    const refundEntry = await cancelBusiness(userId, businessId, admin, {
+      reason: reason.trim(),
+      refund: refund === true,
+    })
+
+    return NextResponse.json({ success: true, refund: refundEntry })
+  } catch (error) {
+    if (error instanceof RefundError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof StatusTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error("Error cancelling business:", error)
+    return NextResponse.json(
+      { error: "Failed to cancel business" },
+      { status: 500 }
+    )
+  }
+}
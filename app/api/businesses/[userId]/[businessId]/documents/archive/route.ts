@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server"
+import { Readable } from "stream"
+import { ZipArchive } from "archiver"
+import { requireUser } from "@/utils/api-auth"
+import { isAdminRole } from "@/lib/admin-roles"
+import { OWNER_ID_TYPE, type DocumentRecord } from "@/lib/documents"
+import { getBusiness } from "@/utils/firebase-admin"
+import {
+  canReadDocument,
+  getContentDisposition,
+  getDocumentFile,
+  getDocumentRecord,
+  logDocumentAccess
+} from "@/utils/documents"
+
+const MANIFEST_NAME = "manifest.csv"
+
+function toCsvRow(values: (string | number)[]) {
+  return values.map(value => `"${String(value).replace(/"/g, '""')}"`).join(",")
+}
+
+// Name inside the ZIP: owner IDs and filings in their own folders, prefixed
+// with the owner or document type, numbered when names collide
+function getEntryName(record: DocumentRecord, label: string, taken: Set<string>) {
+  const folder = record.type === OWNER_ID_TYPE ? "owner-ids" : "documents"
+  const base = `${label} - ${record.name}`.replace(/[\\/:*?"<>|]/g, "_")
+  const dot = base.lastIndexOf(".")
+  let name = `${folder}/${base}`
+  for (let copy = 2; taken.has(name); copy++) {
+    name = dot > 0
+      ? `${folder}/${base.slice(0, dot)} (${copy})${base.slice(dot)}`
+      : `${folder}/${base} (${copy})`
+  }
+  taken.add(name)
+  return name
+}
+
+// ZIP of a business's current documents, the owners' IDs and the delivered
+// filings, with a manifest.csv listing each file's type, original name,
+// upload date and SHA-256. Access is checked and logged per file, as for
+// GET /api/documents/[id].
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ userId: string; businessId: string }> }
+) {
+  const user = await requireUser(request)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const { userId, businessId } = await params
+    if (user.uid !== userId && !isAdminRole(user.role)) {
+      return NextResponse.json(
+        { error: "Business not found" },
+        { status: 404 }
+      )
+    }
+
+    const business = await getBusiness(userId, businessId)
+    if (!business) {
+      return NextResponse.json(
+        { error: "Business not found" },
+        { status: 404 }
+      )
+    }
+
+    const links: { id: string; label: string }[] = [
+      ...((business.owner || []) as { documentId?: string; fullName?: string }[])
+        .filter(owner => owner.documentId)
+        .map(owner => ({ id: owner.documentId!, label: owner.fullName || "Owner" })),
+      ...Object.entries((business.documents || {}) as Record<string, { id?: string }>)
+        .filter(([, document]) => document?.id)
+        .map(([type, document]) => ({ id: document.id!, label: type })),
+    ]
+
+    const entries: { record: DocumentRecord; label: string }[] = []
+    for (const { id, label } of links) {
+      const record = await getDocumentRecord(id)
+      if (!record || record.userId !== userId || !canReadDocument(record, user)) continue
+
+      const [exists] = await getDocumentFile(record).exists()
+      if (!exists) {
+        console.warn(`Skipping missing file ${record.path} in archive of ${businessId}`)
+        continue
+      }
+      entries.push({ record, label })
+    }
+
+    if (entries.length === 0) {
+      return NextResponse.json(
+        { error: "This business has no documents yet" },
+        { status: 404 }
+      )
+    }
+
+    const archive = new ZipArchive({ zlib: { level: 6 } })
+
+    const taken = new Set([MANIFEST_NAME])
+    const manifest = [toCsvRow(["file", "type", "original_filename", "uploaded_at", "sha256", "size"])]
+
+    for (const { record, label } of entries) {
+      await logDocumentAccess(record, user, "archive", request)
+
+      const name = getEntryName(record, label, taken)
+      archive.append(getDocumentFile(record).createReadStream(), { name, date: new Date(record.uploadedAt) })
+      manifest.push(toCsvRow([name, record.type, record.name, record.uploadedAt, record.sha256, record.size]))
+    }
+
+    archive.append(manifest.join("\n") + "\n", { name: MANIFEST_NAME })
+    // A file that fails to read mid-stream aborts the download
+    archive.finalize().catch(error => console.error("Error archiving business documents:", error))
+
+    const companyName = (business.company?.name as string | undefined)?.trim() || businessId
+    return new Response(Readable.toWeb(archive) as ReadableStream<Uint8Array>, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": getContentDisposition(`${companyName} documents.zip`, true),
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    })
+  } catch (error) {
+    console.error("Error archiving business documents:", error)
+    return NextResponse.json(
+      { error: "Failed to archive business documents" },
+      { status: 500 }
+    )
+  }
+}
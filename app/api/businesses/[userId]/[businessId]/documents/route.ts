@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import { requireUser } from "@/utils/api-auth"
+import { isAdminRole } from "@/lib/admin-roles"
+import { getBusiness } from "@/utils/firebase-admin"
+import { listBusinessDocuments } from "@/utils/documents"
+
+// Document history of a business: every version of every document, for the
+// business's owner and admins
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ userId: string; businessId: string }> }
+) {
+  const user = await requireUser(request)
+  if (user instanceof NextResponse) return user
+
+  try {
+    const { userId, businessId } = await params
+    if (user.uid !== userId && !isAdminRole(user.role)) {
+      return NextResponse.json(
+        { error: "Business not found" },
+        { status: 404 }
+      )
+    }
+
+    if (!(await getBusiness(userId, businessId))) {
+      return NextResponse.json(
+        { error: "Business not found" },
+        { status: 404 }
+      )
+    }
+
+    const documents = await listBusinessDocuments(userId, businessId)
+
+    return NextResponse.json({ documents })
+  } catch (error) {
+    console.error("Error fetching business documents:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch business documents" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/utils/api-auth"
+import { getBusinessEvents } from "@/utils/firebase-admin"
+
+// Audit trail for a business, newest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ userId: string; businessId: string }> }
+) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) return admin
+
+  try {
+    const { userId, businessId } = await params
+    const events = await getBusinessEvents(userId, businessId)
+
+    return NextResponse.json({ events })
+  } catch (error) {
+    console.error("Error fetching business events:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch business events" },
+      { status: 500 }
+    )
+  }
+}
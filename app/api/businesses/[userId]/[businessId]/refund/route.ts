@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/utils/api-auth"
+import { ADMIN_BILLING_ROLES } from "@/lib/admin-roles"
+import { refundBusiness, RefundError } from "@/utils/refunds"
+
+// Issue a full (no amount) or partial refund, in cents
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ userId: string; businessId: string }> }
+) {
+  const admin = await requireAdmin(request, ADMIN_BILLING_ROLES)
+  if (admin instanceof NextResponse) return admin
+
+  try {
+    const { userId, businessId } = await params
+    const { amount, reason } = await request.json()
+
+    if (typeof reason !== "string" || !reason.trim()) {
+      return NextResponse.json(
+        { error: "A refund reason is required" },
+        { status: 400 }
+      )
+    }
+
+    if (amount !== undefined && typeof amount !== "number") {
+      return NextResponse.json(
+        { error: "Refund amount must be a number of cents" },
+        { status: 400 }
+      )
+    }
+
+    const refund = await refundBusiness(userId, businessId, admin, {
+      amount,
+      reason: reason.trim(),
+    })
+
+    return NextResponse.json({ success: true, refund })
+  } catch (error) {
+    if (error instanceof RefundError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error refunding business:", error)
+    return NextResponse.json(
+      { error: "Failed to refund business" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,24 +1,74 @@
 // app/api/businesses/[userId]/[businessId]/route.ts
 import { adminDb } from "@/lib/firebase-admin"
+import { getBusinessRef, updateWithEvent } from "@/utils/firebase-admin"
 import { NextResponse } from "next/server"
 import { Timestamp } from "firebase-admin/firestore"
+import { requireAdmin } from "@/utils/api-auth"
+import { ADMIN_WRITE_ROLES } from "@/lib/admin-roles"
+import { adminBusinessUpdateSchema, getFieldErrors, getOwnersSchema } from "@/lib/business-schema"
+import { documentsDeliveredEmail } from "@/lib/email"
+import { notifyCustomer } from "@/utils/notifications"
+import { DOCUMENTS_COLLECTION } from "@/utils/documents"
+import type { DocumentData, Transaction } from "firebase-admin/firestore"
+import type { z } from "zod"
 
 interface BusinessDocument {
   id: string
   userId: string
   documents?: {
     [key: string]: {
-      url: string
+      id: string
       name: string
     }
   }
   updatedAt: FirebaseFirestore.Timestamp
 }
 
+type BusinessUpdate = z.infer<typeof adminBusinessUpdateSchema>
+
+// Field errors for the files an update links to. Each document id must be a
+// record of the business owner's, and legacy URL entries must be unchanged.
+async function getDocumentErrors(
+  transaction: Transaction,
+  userId: string,
+  stored: DocumentData,
+  update: BusinessUpdate
+) {
+  const fields: Record<string, string> = {}
+  const linked: [path: string, id: string][] = []
+
+  for (const [key, document] of Object.entries(update.documents || {})) {
+    if ("id" in document) {
+      linked.push([`documents.${key}`, document.id])
+    } else if (stored.documents?.[key]?.url !== document.url) {
+      fields[`documents.${key}`] = "Upload the document instead of linking a URL"
+    }
+  }
+  update.owner?.forEach((owner, index) => {
+    if (owner.documentId) linked.push([`owner.${index}.documentId`, owner.documentId])
+  })
+
+  if (linked.length === 0) return fields
+
+  const records = await transaction.getAll(
+    ...linked.map(([, id]) => adminDb.collection(DOCUMENTS_COLLECTION).doc(id))
+  )
+  records.forEach((record, index) => {
+    if (record.data()?.userId !== userId) {
+      fields[linked[index][0]] = "Document not found"
+    }
+  })
+
+  return fields
+}
+
 export async function PUT(
   request: Request,
   { params }: { params: Promise<{ userId: string; businessId: string }> }
 ) {
+  const admin = await requireAdmin(request, ADMIN_WRITE_ROLES)
+  if (admin instanceof NextResponse) return admin
+
   try {
     // Await the params object
     const { userId, businessId } = await params
@@ -32,34 +82,97 @@ export async function PUT(
     }
 
     // Validate request body
-    const body = await request.json()
-    if (!body || typeof body !== 'object') {
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
       return NextResponse.json(
         { error: "Invalid request body" },
         { status: 400 }
       )
     }
 
-    const businessRef = adminDb
-      .collection("users")
-      .doc(userId)
-      .collection("businesses")
-      .doc(businessId)
+    // Only the sections in adminBusinessUpdateSchema can be written here.
+    // Status changes go through the lifecycle in the status, refund and
+    // cancel routes.
+    const parsed = adminBusinessUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      const fields = getFieldErrors(parsed.error)
+      if ("status" in fields) {
+        fields.status = "Use the status endpoint to change a business's status"
+      }
 
-    // Check if business exists
-    const businessDoc = await businessRef.get()
-    if (!businessDoc.exists) {
+      return NextResponse.json(
+        { error: "Invalid business update", fields },
+        { status: 422 }
+      )
+    }
+
+    if (Object.keys(parsed.data).length === 0) {
+      return NextResponse.json(
+        { error: "Nothing to update" },
+        { status: 400 }
+      )
+    }
+
+    const businessRef = getBusinessRef(userId, businessId)
+
+    // Perform update, recording the changed fields in the business's events
+    const result = await adminDb.runTransaction(async (transaction) => {
+      const businessDoc = await transaction.get(businessRef)
+      if (!businessDoc.exists) return { found: false }
+
+      // Owners also answer the fields their business's country asks for
+      if (parsed.data.owner) {
+        const owners = getOwnersSchema(businessDoc.data()?.country?.name).safeParse(parsed.data.owner)
+        if (!owners.success) {
+          const fields = Object.fromEntries(
+            Object.entries(getFieldErrors(owners.error)).map(([path, message]) => [path ? `owner.${path}` : "owner", message])
+          )
+          return { found: true, fields }
+        }
+      }
+
+      const documentErrors = await getDocumentErrors(transaction, userId, businessDoc.data()!, parsed.data)
+      if (Object.keys(documentErrors).length > 0) {
+        return { found: true, fields: documentErrors }
+      }
+
+      updateWithEvent(transaction, businessRef, businessDoc.data(), {
+        ...parsed.data,
+        updatedAt: Timestamp.now(),
+      }, {
+        type: "updated",
+        actor: { uid: admin.uid, email: admin.email, role: admin.role },
+      })
+
+      // Documents that were added or replaced, for the customer's email
+      const previous: BusinessDocument["documents"] = businessDoc.data()?.documents || {}
+      const delivered = Object.entries(parsed.data.documents || {})
+        .filter(([key, document]) => "id" in document && previous?.[key]?.id !== document.id)
+        .map(([, document]) => document.name)
+
+      return { found: true, delivered, companyName: businessDoc.data()?.company?.name || "" }
+    })
+
+    if (!result.found) {
       return NextResponse.json(
         { error: "Business not found" },
         { status: 404 }
       )
     }
 
-    // Perform update
-    await businessRef.update({
-      ...body,
-      updatedAt: Timestamp.now(),
-    })
+    if (result.fields) {
+      return NextResponse.json(
+        { error: "Invalid business update", fields: result.fields },
+        { status: 422 }
+      )
+    }
+
+    if (result.delivered?.length) {
+      await notifyCustomer(userId, "documentDelivered", documentsDeliveredEmail({
+        companyName: result.companyName,
+        documents: result.delivered,
+      }))
+    }
 
     // Get updated document
     const updatedDoc = await businessRef.get()
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/utils/api-auth"
+import { ADMIN_WRITE_ROLES } from "@/lib/admin-roles"
+import { StatusTransitionError } from "@/lib/business-lifecycle"
+import { getFieldErrors, statusChangeSchema } from "@/lib/business-schema"
+import { updateBusinessStatus } from "@/utils/firebase-admin"
+
+// Move a business along its lifecycle (e.g. in_review -> filed_with_state)
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ userId: string; businessId: string }> }
+) {
+  const admin = await requireAdmin(request, ADMIN_WRITE_ROLES)
+  if (admin instanceof NextResponse) return admin
+
+  try {
+    const { userId, businessId } = await params
+    const parsed = statusChangeSchema.safeParse(await request.json().catch(() => null))
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid status change", fields: getFieldErrors(parsed.error) },
+        { status: 422 }
+      )
+    }
+
+    const { status, reason } = parsed.data
+    const change = await updateBusinessStatus(userId, businessId, status, {
+      actor: { uid: admin.uid, email: admin.email, role: admin.role },
+      reason,
+    })
+
+    if (!change) {
+      return NextResponse.json(
+        { error: "Business not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, ...change })
+  } catch (error) {
+    if (error instanceof StatusTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error("Error updating business status:", error)
+    return NextResponse.json(
+      { error: "Failed to update business status" },
+      { status: 500 }
+    )
+  }
+}
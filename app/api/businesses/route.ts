@@ -1,5 +1,6 @@
 import { adminAuth, adminDb } from "@/lib/firebase-admin"
 import { NextResponse } from "next/server"
+import { requireAdmin } from "@/utils/api-auth"
 
 interface Business {
   id: string
@@ -15,7 +16,10 @@ interface Business {
   updatedAt?: FirebaseFirestore.Timestamp
 }
 
-export async function GET() {
+export async function GET(request: Request) {
+  const admin = await requireAdmin(request)
+  if (admin instanceof NextResponse) return admin
+
   try {
     const usersResult = await adminAuth.listUsers()
     const businesses: Business[] = []
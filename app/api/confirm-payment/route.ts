@@ -1,18 +1,18 @@
 import { NextResponse } from "next/server";
-import Stripe from "stripe";
-import { completeBusinessRegistration, getBusinessDraft } from "@/utils/firebase";
-import { Timestamp } from "firebase/firestore";
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: "2024-12-18.acacia",
-});
+import { stripe } from "@/lib/stripe";
+import { getBusiness } from "@/utils/firebase-admin";
+import { requireUser } from "@/utils/api-auth";
+import { DRAFT_STATUSES, normalizeStatus } from "@/lib/business-lifecycle";
 
+// Read-only: the Stripe webhook marks the business as paid. This only
+// reports whether that has happened yet.
 export async function POST(req: Request) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
   try {
     const { sessionId } = await req.json();
-    const session = await stripe.checkout.sessions.retrieve(sessionId, {
-      expand: ["payment_intent"]
-    });
+    const session = await stripe.checkout.sessions.retrieve(sessionId);
 
     const businessId = session.metadata?.businessId;
     const userId = session.metadata?.userId;
@@ -21,41 +21,44 @@ export async function POST(req: Request) {
       throw new Error("Missing business ID or user ID in payment session");
     }
 
+    if (userId !== user.uid) {
+      return NextResponse.json(
+        { error: "This payment session belongs to another account" },
+        { status: 403 }
+      );
+    }
+
     if (session.payment_status !== "paid") {
       throw new Error("Payment not completed");
     }
 
-    const paymentIntent = session.payment_intent as Stripe.PaymentIntent;
-    const paymentDetails = {
-      amount: paymentIntent.amount,
-      currency: paymentIntent.currency,
-      paymentMethod: paymentIntent.payment_method_types[0],
-      status: paymentIntent.status,
-      stripePaymentIntentId: paymentIntent.id,
-    };
+    const businessData = await getBusiness(userId, businessId);
+    if (!businessData) {
+      throw new Error("Business not found");
+    }
 
-    const completedBusinessId = await completeBusinessRegistration(
-      userId,
-      businessId,
-      paymentDetails
-    );
+    // Paid, but the webhook has not been processed yet. The business is
+    // still awaiting payment (or abandoned, when paid late).
+    if (DRAFT_STATUSES.includes(normalizeStatus(businessData.status))) {
+      return NextResponse.json({ businessId, userId, status: "processing" });
+    }
 
-    // Get the updated business data
-    const businessData = await getBusinessDraft(userId, completedBusinessId);
+    const paymentDetails = businessData.paymentDetails;
 
     // Convert Firestore timestamp to a format that can be JSON serialized
-    const timestamp = businessData.paymentDetails?.createdAt;
+    const timestamp = paymentDetails?.createdAt;
     const createdAt = timestamp ? {
       seconds: timestamp.seconds,
       nanoseconds: timestamp.nanoseconds
     } : null;
 
     return NextResponse.json({
-      businessId: completedBusinessId,
+      businessId,
       userId,
-      amount: paymentIntent.amount,
-      currency: paymentIntent.currency,
-      stripePaymentIntentId: paymentIntent.id,
+      status: businessData.status,
+      amount: paymentDetails?.amount,
+      currency: paymentDetails?.currency,
+      stripePaymentIntentId: paymentDetails?.stripePaymentIntentId,
       createdAt
     });
 
@@ -66,4 +69,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
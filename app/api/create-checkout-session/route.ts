@@ -1,36 +1,128 @@
 import { NextResponse } from "next/server";
-import Stripe from "stripe";
+import { createHash } from "crypto";
+import { stripe } from "@/lib/stripe";
+import {
+  getCurrency,
+  getLineItems,
+  PricingError,
+  type PriceLineItem
+} from "@/lib/pricing";
+import { normalizeStatus, PAYABLE_STATUSES } from "@/lib/business-lifecycle";
+import { getBusiness, saveCheckoutSession } from "@/utils/firebase-admin";
+import { requireUser } from "@/utils/api-auth";
+import { getBusinessPriceVersion } from "@/utils/price-versions";
+import { getApplicablePromoCode } from "@/utils/promo-codes";
+import { PromoCodeError } from "@/lib/promo-codes";
+import { CUSTOMER_ROLE } from "@/lib/business-events";
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: "2024-12-18.acacia",
-});
+// Identifies what a Checkout Session charges, so an open session is only
+// reused when the draft's line items and promo code have not changed
+function hashLineItems(lineItems: PriceLineItem[], couponId: string | null) {
+  return createHash("sha256").update(JSON.stringify({ lineItems, couponId })).digest("hex");
+}
 
 export async function POST(req: Request) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
   try {
-    const { amount, businessId, userId } = await req.json();
+    const { businessId } = await req.json();
+    const userId = user.uid;
+
+    if (!businessId) {
+      return NextResponse.json({ error: "Missing business ID" }, { status: 400 });
+    }
+
+    const business = await getBusiness(userId, businessId);
+    if (!business) {
+      return NextResponse.json({ error: "Business not found" }, { status: 404 });
+    }
+
+    if (!PAYABLE_STATUSES.includes(normalizeStatus(business.status))) {
+      return NextResponse.json(
+        { error: "This registration is no longer awaiting payment" },
+        { status: 409 }
+      );
+    }
+
+    // Priced from the saved draft, never from the request, with the prices
+    // in effect when the draft was created
+    const priceVersion = await getBusinessPriceVersion(business);
+    const currency = getCurrency(priceVersion, business.country?.name);
+    const lineItems = getLineItems(business, priceVersion);
+
+    // Checked again here since the code may have expired or run out since
+    // the customer applied it
+    const promo = business.promoCode
+      ? await getApplicablePromoCode(business.promoCode, business, currency, lineItems)
+      : null;
+    const lineItemsHash = hashLineItems(lineItems, promo?.stripeCouponId ?? null);
+
+    const checkout = business.checkout;
+    if (checkout?.sessionId && checkout.status === "open") {
+      const existing = await stripe.checkout.sessions.retrieve(checkout.sessionId);
+
+      if (existing.status === "complete") {
+        return NextResponse.json(
+          { error: "This business has already been paid for" },
+          { status: 409 }
+        );
+      }
+
+      if (existing.status === "open") {
+        if (checkout.lineItemsHash === lineItemsHash) {
+          return NextResponse.json({ sessionId: existing.id });
+        }
+        // The draft changed since this session was opened
+        await stripe.checkout.sessions.expire(existing.id);
+      }
+    }
+
+    // Concurrent requests for the same attempt share one Stripe session
+    const attempt = (checkout?.attempt || 0) + 1;
 
     const session = await stripe.checkout.sessions.create({
       payment_method_types: ["card"],
-      line_items: [{
+      line_items: lineItems.map(item => ({
         price_data: {
-          currency: "usd",
-          product_data: { name: "Business Registration" },
-          unit_amount: amount * 100,
+          currency,
+          product_data: { name: item.name },
+          unit_amount: item.amount,
         },
         quantity: 1,
-      }],
+      })),
+      ...(promo && { discounts: [{ coupon: promo.stripeCouponId }] }),
       mode: "payment",
       success_url: `${process.env.NEXT_PUBLIC_BASE_URL}/dashboard/business/success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: `${process.env.NEXT_PUBLIC_BASE_URL}/dashboard/business?payment=cancel`,
       metadata: { businessId, userId },
+      // Copied onto the PaymentIntent so failure and refund webhooks can
+      // find the business
+      payment_intent_data: {
+        metadata: { businessId, userId },
+      },
+    }, {
+      idempotencyKey: `checkout-${businessId}-${attempt}`,
     });
 
+    await saveCheckoutSession(userId, businessId, {
+      sessionId: session.id,
+      attempt,
+      lineItemsHash,
+      priceVersion: priceVersion.id,
+      promoCode: promo?.code ?? null,
+    }, { uid: user.uid, email: user.email || "", role: CUSTOMER_ROLE });
+
     return NextResponse.json({ sessionId: session.id });
   } catch (error) {
+    if (error instanceof PricingError || error instanceof PromoCodeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error("Error creating checkout session:", error);
     return NextResponse.json(
       { error: "Error creating checkout session" },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
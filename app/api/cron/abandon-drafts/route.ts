@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { abandonStaleDrafts } from "@/utils/firebase-admin";
+import { requireCronSecret } from "@/utils/api-auth";
+
+const DEFAULT_ABANDON_DAYS = 30;
+
+// Marks drafts untouched for DRAFT_ABANDON_DAYS as abandoned. Run daily by
+// the scheduler in vercel.json.
+export async function GET(request: Request) {
+  const unauthorized = requireCronSecret(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const days = Number(process.env.DRAFT_ABANDON_DAYS) || DEFAULT_ABANDON_DAYS;
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const abandoned = await abandonStaleDrafts(cutoff);
+
+    return NextResponse.json({
+      cutoff: cutoff.toISOString(),
+      abandoned: abandoned.length
+    });
+  } catch (error) {
+    console.error("Error abandoning stale drafts:", error);
+    return NextResponse.json(
+      { error: "Failed to abandon stale drafts" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { sendDraftReminders } from "@/utils/firebase-admin";
+import { requireCronSecret } from "@/utils/api-auth";
+
+const DEFAULT_REMINDER_DAYS = 3;
+
+// Emails a reminder about drafts untouched for DRAFT_REMINDER_DAYS. Run
+// daily by the scheduler in vercel.json.
+export async function GET(request: Request) {
+  const unauthorized = requireCronSecret(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const days = Number(process.env.DRAFT_REMINDER_DAYS) || DEFAULT_REMINDER_DAYS;
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const reminded = await sendDraftReminders(cutoff);
+
+    return NextResponse.json({
+      cutoff: cutoff.toISOString(),
+      reminded: reminded.length
+    });
+  } catch (error) {
+    console.error("Error sending draft reminders:", error);
+    return NextResponse.json(
+      { error: "Failed to send draft reminders" },
+      { status: 500 }
+    );
+  }
+}
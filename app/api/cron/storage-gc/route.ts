@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { sweepStorage } from "@/utils/storage-gc";
+import { requireCronSecret } from "@/utils/api-auth";
+
+// Quarantines unreferenced Storage files and deletes the ones past
+// STORAGE_GC_GRACE_DAYS. Run daily by the scheduler in vercel.json, or with
+// `npm run storage:gc`. `?dryRun=1` only reports what would happen.
+export async function GET(request: Request) {
+  const unauthorized = requireCronSecret(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const dryRun = new URL(request.url).searchParams.get("dryRun") === "1";
+    const report = await sweepStorage({
+      dryRun,
+      minAgeHours: Number(process.env.STORAGE_GC_MIN_AGE_HOURS) || undefined,
+      graceDays: Number(process.env.STORAGE_GC_GRACE_DAYS) || undefined,
+    });
+
+    console.info(
+      `Storage sweep${dryRun ? " (dry run)" : ""}: ${report.scanned} files, ${report.orphans.length} orphaned, ` +
+      `${report.quarantined} quarantined, ${report.restored} restored, ${report.deleted} deleted`
+    );
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error sweeping storage:", error);
+    return NextResponse.json(
+      { error: "Failed to sweep storage" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { Readable } from "stream";
+import { requireUser } from "@/utils/api-auth";
+import {
+  canDeleteDocument,
+  canReadDocument,
+  deleteDocumentRecord,
+  getContentDisposition,
+  getDocumentFile,
+  getDocumentRecord,
+  getSignedDocumentUrl,
+  logDocumentAccess
+} from "@/utils/documents";
+
+// Read a private document. By default the file is streamed through this
+// route, so plain links work with the session cookie; `?mode=signed`
+// returns a short-lived signed Storage URL instead. `?download=1` asks the
+// browser to save the file. Every read is logged.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id } = await params;
+    const record = await getDocumentRecord(id);
+    // Documents the caller may not read look the same as missing ones
+    if (!record || !canReadDocument(record, user)) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const searchParams = new URL(req.url).searchParams;
+    const download = searchParams.get("download") === "1";
+
+    if (searchParams.get("mode") === "signed") {
+      const signed = await getSignedDocumentUrl(record, { download });
+      await logDocumentAccess(record, user, "signed_url", req);
+      return NextResponse.json(signed, { headers: { "Cache-Control": "no-store" } });
+    }
+
+    const file = getDocumentFile(record);
+    const [exists] = await file.exists();
+    if (!exists) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    await logDocumentAccess(record, user, "stream", req);
+
+    const stream = Readable.toWeb(file.createReadStream()) as ReadableStream<Uint8Array>;
+    return new Response(stream, {
+      headers: {
+        "Content-Type": record.contentType,
+        "Content-Length": String(record.size),
+        "Content-Disposition": getContentDisposition(record.name, download),
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Error reading document:", error);
+    return NextResponse.json(
+      { error: "Failed to read document" },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a document's file and record. Customers can delete files they
+// uploaded (e.g. a replaced owner ID) until the registration using them is
+// paid for; admins with write access can delete any.
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id } = await params;
+    const record = await getDocumentRecord(id);
+    if (!record || !canReadDocument(record, user)) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    if (!(await canDeleteDocument(record, user))) {
+      return NextResponse.json(
+        { error: "You cannot delete this document" },
+        { status: 403 }
+      );
+    }
+
+    await deleteDocumentRecord(record);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting document:", error);
+    return NextResponse.json(
+      { error: "Failed to delete document" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/utils/api-auth";
+import { DraftDeletionError, deleteBusinessDraft } from "@/utils/firebase-admin";
+
+// Delete one of the caller's registration drafts. Goes through the server
+// rather than the security rules so an open Checkout Session is expired
+// before the draft is removed.
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ businessId: string }> }
+) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { businessId } = await params;
+    const deleted = await deleteBusinessDraft(user.uid, businessId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    if (error instanceof DraftDeletionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error("Error deleting business draft:", error);
+    return NextResponse.json(
+      { error: "Failed to delete business draft" },
+      { status: 500 }
+    );
+  }
+}
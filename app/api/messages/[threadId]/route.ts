@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { getFieldErrors } from "@/lib/business-schema";
+import { messageInputSchema } from "@/lib/messages";
+import { requireUser } from "@/utils/api-auth";
+import {
+  addMessage,
+  getThread,
+  listThreadMessages,
+  markThreadRead,
+  MessageError
+} from "@/utils/messages";
+
+// A thread with its messages. Opening it marks it read for the customer.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ threadId: string }> }
+) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { threadId } = await params;
+    const thread = await getThread(threadId);
+    if (!thread || thread.userId !== user.uid) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    const [messages] = await Promise.all([
+      listThreadMessages(threadId),
+      markThreadRead(threadId, "customer"),
+    ]);
+
+    return NextResponse.json({ thread, messages });
+  } catch (error) {
+    console.error("Error fetching message thread:", error);
+    return NextResponse.json(
+      { error: "Failed to load conversation" },
+      { status: 500 }
+    );
+  }
+}
+
+// Reply to a thread
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ threadId: string }> }
+) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { threadId } = await params;
+    const thread = await getThread(threadId);
+    if (!thread || thread.userId !== user.uid) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const parsed = messageInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid message", fields: getFieldErrors(parsed.error) },
+        { status: 422 }
+      );
+    }
+
+    const message = await addMessage(
+      thread,
+      { uid: user.uid, email: user.email || "", side: "customer" },
+      parsed.data
+    );
+
+    return NextResponse.json({ message });
+  } catch (error) {
+    if (error instanceof MessageError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error sending message:", error);
+    return NextResponse.json(
+      { error: "Failed to send message" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { getFieldErrors } from "@/lib/business-schema";
+import { threadInputSchema } from "@/lib/messages";
+import { requireUser } from "@/utils/api-auth";
+import { createThread, listCustomerThreads, MessageError } from "@/utils/messages";
+
+// The caller's message threads, optionally for one business (?businessId=)
+export async function GET(req: Request) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const businessId = new URL(req.url).searchParams.get("businessId") || undefined;
+    const threads = await listCustomerThreads(user.uid, businessId);
+
+    return NextResponse.json({ threads });
+  } catch (error) {
+    console.error("Error listing message threads:", error);
+    return NextResponse.json(
+      { error: "Failed to load messages" },
+      { status: 500 }
+    );
+  }
+}
+
+// Start a conversation about one of the caller's businesses
+export async function POST(req: Request) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const body = await req.json().catch(() => null);
+    const parsed = threadInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid message", fields: getFieldErrors(parsed.error) },
+        { status: 422 }
+      );
+    }
+
+    const { businessId, subject, ...message } = parsed.data;
+    const thread = await createThread(
+      { uid: user.uid, email: user.email || "", side: "customer" },
+      businessId,
+      subject,
+      message
+    );
+
+    return NextResponse.json({ thread });
+  } catch (error) {
+    if (error instanceof MessageError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error creating message thread:", error);
+    return NextResponse.json(
+      { error: "Failed to send message" },
+      { status: 500 }
+    );
+  }
+}
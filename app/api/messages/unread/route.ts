@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/utils/api-auth";
+import { countUnread } from "@/utils/messages";
+
+// Unread replies for the dashboard sidebar
+export async function GET(req: Request) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const count = await countUnread("customer", user.uid);
+    return NextResponse.json({ count });
+  } catch (error) {
+    console.error("Error counting unread messages:", error);
+    return NextResponse.json(
+      { error: "Failed to count unread messages" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getCurrentPriceVersion, getPriceVersion } from "@/utils/price-versions";
+
+// Prices shown in the registration wizard: the version in effect now, or
+// the one a draft was created with (?version=<id>). Versions that have not
+// taken effect yet are not public.
+export async function GET(request: Request) {
+  try {
+    const versionId = new URL(request.url).searchParams.get("version");
+
+    const version = versionId
+      ? await getPriceVersion(versionId)
+      : await getCurrentPriceVersion();
+
+    if (!version || new Date(version.effectiveAt).getTime() > Date.now()) {
+      return NextResponse.json(
+        { error: "Price version not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ version });
+  } catch (error) {
+    console.error('Error fetching prices:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch prices' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getCurrency, getLineItems, getTotalAmount, PricingError } from "@/lib/pricing";
+import { describeDiscount, getDiscountAmount, PromoCodeError } from "@/lib/promo-codes";
+import { getBusiness } from "@/utils/firebase-admin";
+import { requireUser } from "@/utils/api-auth";
+import { getBusinessPriceVersion } from "@/utils/price-versions";
+import { getApplicablePromoCode } from "@/utils/promo-codes";
+
+// Preview a promo code on the Review step. Nothing is reserved; checkout
+// checks the code again before passing it to Stripe.
+export async function POST(req: Request) {
+  const user = await requireUser(req);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { businessId, code } = await req.json();
+
+    if (!businessId || typeof code !== "string" || !code.trim()) {
+      return NextResponse.json({ error: "Enter a promo code" }, { status: 400 });
+    }
+
+    const business = await getBusiness(user.uid, businessId);
+    if (!business) {
+      return NextResponse.json({ error: "Business not found" }, { status: 404 });
+    }
+
+    const priceVersion = await getBusinessPriceVersion(business);
+    const currency = getCurrency(priceVersion, business.country?.name);
+    const lineItems = getLineItems(business, priceVersion);
+    const promo = await getApplicablePromoCode(code, business, currency, lineItems);
+
+    const subtotal = getTotalAmount(lineItems);
+    const discount = getDiscountAmount(promo, lineItems);
+
+    return NextResponse.json({
+      code: promo.code,
+      label: promo.description || describeDiscount(promo),
+      currency,
+      subtotal,
+      discount,
+      total: subtotal - discount,
+    });
+  } catch (error) {
+    if (error instanceof PricingError || error instanceof PromoCodeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error validating promo code:", error);
+    return NextResponse.json(
+      { error: "Error validating promo code" },
+      { status: 500 }
+    );
+  }
+}
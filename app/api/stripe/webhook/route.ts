@@ -0,0 +1,152 @@
+import { NextResponse } from "next/server";
+import Stripe from "stripe";
+import { Timestamp } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { stripe } from "@/lib/stripe";
+import {
+  completeBusinessRegistration,
+  recordPaymentFailure,
+  recordRefund,
+  expireCheckoutSession
+} from "@/utils/firebase-admin";
+
+// Processed event IDs, so redelivered events are acknowledged without
+// being applied twice
+const STRIPE_EVENTS_COLLECTION = "stripeEvents";
+
+function getBusinessMetadata(metadata: Stripe.Metadata | null) {
+  const businessId = metadata?.businessId;
+  const userId = metadata?.userId;
+  return businessId && userId ? { businessId, userId } : null;
+}
+
+function toPaymentDetails(paymentIntent: Stripe.PaymentIntent) {
+  return {
+    amount: paymentIntent.amount,
+    currency: paymentIntent.currency,
+    paymentMethod: paymentIntent.payment_method_types[0],
+    status: paymentIntent.status,
+    stripePaymentIntentId: paymentIntent.id,
+  };
+}
+
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
+  const business = getBusinessMetadata(session.metadata);
+  if (!business) return;
+
+  // Promo codes always leave something to pay, so "no_payment_required"
+  // is not expected here
+  if (session.payment_status !== "paid") {
+    console.warn(`Checkout Session ${session.id} completed with payment status ${session.payment_status}`);
+    return;
+  }
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(session.payment_intent as string);
+  await completeBusinessRegistration(
+    business.userId,
+    business.businessId,
+    {
+      ...toPaymentDetails(paymentIntent),
+      amountDiscounted: session.total_details?.amount_discount || 0,
+    }
+  );
+}
+
+async function handleCheckoutExpired(session: Stripe.Checkout.Session) {
+  const business = getBusinessMetadata(session.metadata);
+  if (!business) return;
+
+  await expireCheckoutSession(business.userId, business.businessId, session.id);
+}
+
+async function handlePaymentFailed(paymentIntent: Stripe.PaymentIntent) {
+  const business = getBusinessMetadata(paymentIntent.metadata);
+  if (!business) return;
+
+  await recordPaymentFailure(
+    business.userId,
+    business.businessId,
+    toPaymentDetails(paymentIntent),
+    paymentIntent.last_payment_error?.message || "Payment failed"
+  );
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  if (!charge.payment_intent) return;
+
+  const paymentIntentId = typeof charge.payment_intent === "string"
+    ? charge.payment_intent
+    : charge.payment_intent.id;
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+
+  const business = getBusinessMetadata(paymentIntent.metadata);
+  if (!business) return;
+
+  await recordRefund(
+    business.userId,
+    business.businessId,
+    paymentIntentId,
+    charge.amount_refunded,
+    charge.refunded
+  );
+}
+
+export async function POST(req: Request) {
+  const signature = req.headers.get("stripe-signature");
+  if (!signature) {
+    return NextResponse.json({ error: "Missing Stripe signature" }, { status: 400 });
+  }
+
+  let event: Stripe.Event;
+  try {
+    const payload = await req.text();
+    event = stripe.webhooks.constructEvent(
+      payload,
+      signature,
+      process.env.STRIPE_WEBHOOK_SECRET!
+    );
+  } catch (error) {
+    console.error("Invalid Stripe webhook signature:", error);
+    return NextResponse.json({ error: "Invalid signature" }, { status: 400 });
+  }
+
+  const eventRef = adminDb.collection(STRIPE_EVENTS_COLLECTION).doc(event.id);
+
+  try {
+    const processed = await eventRef.get();
+    if (processed.exists) {
+      return NextResponse.json({ received: true, duplicate: true });
+    }
+
+    switch (event.type) {
+      case "checkout.session.completed":
+        await handleCheckoutCompleted(event.data.object);
+        break;
+      case "checkout.session.expired":
+        await handleCheckoutExpired(event.data.object);
+        break;
+      case "payment_intent.payment_failed":
+        await handlePaymentFailed(event.data.object);
+        break;
+      case "charge.refunded":
+        await handleChargeRefunded(event.data.object);
+        break;
+      default:
+        return NextResponse.json({ received: true });
+    }
+
+    await eventRef.set({
+      type: event.type,
+      processedAt: Timestamp.now(),
+    });
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    // A non-2xx response makes Stripe retry the event later
+    console.error(`Error handling Stripe event ${event.id}:`, error);
+    return NextResponse.json(
+      { error: "Webhook handler failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,44 +1,166 @@
-import { storage } from "@/lib/firebase";
-import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
+import { createHash, randomUUID } from "crypto";
+import { adminAuth, adminStorage } from "@/lib/firebase-admin";
 import { NextResponse } from "next/server";
+import { requireUser } from "@/utils/api-auth";
+import { ADMIN_WRITE_ROLES, isAdminRole } from "@/lib/admin-roles";
+import { ATTACHMENTS_FOLDER } from "@/lib/messages";
+import { ATTACHMENT_TYPE, OWNER_ID_TYPE } from "@/lib/documents";
+import { createDocumentRecord, getDocumentActor } from "@/utils/documents";
+import { getBusiness } from "@/utils/firebase-admin";
+import { ScannerUnavailableError } from "@/utils/file-scanner";
+import {
+  MAX_UPLOAD_BYTES,
+  UPLOAD_EXTENSIONS,
+  UploadError,
+  validateUpload
+} from "@/utils/uploads";
 
+// Room for the multipart boundaries and other form fields
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+
+// Document type keys (e.g. "articlesOfOrganization") and business IDs
+const KEY_PATTERN = /^\w+$/;
+const ID_PATTERN = /^[\w-]+$/;
+
+// Store a private file under users/{userId}/{folder}/ and create its
+// document record. Admins upload deliverable documents for any customer,
+// with the business and document `type` they are for; uploading a type the
+// business already has adds a new version. Customers may only upload owner
+// IDs and message attachments for themselves.
+// Files are checked by content and scanned before anything is stored
+// (see utils/uploads.ts). The file is read back through /api/documents/[id].
 export async function POST(request: Request) {
+  const token = await requireUser(request);
+  if (token instanceof NextResponse) return token;
+
   try {
+    const contentLength = Number(request.headers.get('content-length'));
+    if (contentLength > MAX_UPLOAD_BYTES + FORM_OVERHEAD_BYTES) {
+      return NextResponse.json(
+        { error: 'The file is too large' },
+        { status: 413 }
+      );
+    }
+
     const formData = await request.formData();
-    const file: File | null = formData.get('file') as unknown as File;
-    const userId = formData.get('userId') as string;
+    const file = formData.get('file');
+    const folder = (formData.get('folder') as string | null) || 'documents';
+    const canWriteAnyUser = isAdminRole(token.role) && ADMIN_WRITE_ROLES.includes(token.role);
+    const userId = (formData.get('userId') as string | null) || (canWriteAnyUser ? null : token.uid);
+
+    if (folder !== 'documents' && folder !== ATTACHMENTS_FOLDER) {
+      return NextResponse.json(
+        { error: 'Unknown upload folder' },
+        { status: 400 }
+      );
+    }
+
+    // Admins upload for a customer, so they have to say which one
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'userId is required for uploads on behalf of a customer' },
+        { status: 400 }
+      );
+    }
 
-    if (!file) {
+    if (!canWriteAnyUser && userId !== token.uid) {
+      return NextResponse.json(
+        { error: 'Your role does not allow this upload' },
+        { status: 403 }
+      );
+    }
+
+    if (!(file instanceof File)) {
       return NextResponse.json(
         { error: 'No file provided' },
         { status: 400 }
       );
     }
 
-    // Convert File to Buffer
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
+    // The userId becomes part of the storage path, so it must be a real user
+    if (userId !== token.uid) {
+      const exists = await adminAuth.getUser(userId).then(() => true, () => false);
+      if (!exists) {
+        return NextResponse.json(
+          { error: 'User not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const kind = folder === ATTACHMENTS_FOLDER
+      ? 'attachment'
+      : canWriteAnyUser ? 'deliverable' : 'ownerId';
+
+    const businessId = (formData.get('businessId') as string | null) || null;
+    const type = kind === 'deliverable'
+      ? formData.get('type') as string | null
+      : kind === 'attachment' ? ATTACHMENT_TYPE : OWNER_ID_TYPE;
+
+    if (kind === 'deliverable' && (!businessId || !type || !KEY_PATTERN.test(type))) {
+      return NextResponse.json(
+        { error: 'Documents need the business and document type they are for' },
+        { status: 400 }
+      );
+    }
+
+    if (businessId && (!ID_PATTERN.test(businessId) || !(await getBusiness(userId, businessId)))) {
+      return NextResponse.json(
+        { error: 'Business not found' },
+        { status: 404 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const contentType = await validateUpload(type!, buffer);
+
+    // The name on disk never comes from the client
+    const fileName = `${Date.now()}-${randomUUID()}.${UPLOAD_EXTENSIONS[contentType]}`;
+    const filePath = `users/${userId}/${folder}/${fileName}`;
 
-    // Create file path
-    const timestamp = Date.now();
-    const fileExtension = file.name.split('.').pop();
-    const fileName = `${timestamp}.${fileExtension}`;
-    const filePath = `users/${userId}/documents/${fileName}`;
+    // Upload to Firebase Storage. No download token is created, so the
+    // file can only be read with the admin SDK.
+    const fileRef = adminStorage.bucket().file(filePath);
+    await fileRef.save(buffer, { contentType });
 
-    // Upload to Firebase Storage
-    const storageRef = ref(storage, filePath);
-    await uploadBytes(storageRef, buffer);
-    const url = await getDownloadURL(storageRef);
+    const record = await createDocumentRecord({
+      userId,
+      businessId,
+      type: type!,
+      path: filePath,
+      name: file.name.slice(0, 255) || fileName,
+      contentType,
+      size: buffer.length,
+      sha256: createHash('sha256').update(buffer).digest('hex'),
+      uploadedBy: getDocumentActor(token),
+    });
 
-    return NextResponse.json({ 
-      url,
-      name: file.name
+    return NextResponse.json({
+      id: record.id,
+      name: record.name,
+      path: record.path,
+      version: record.version
     });
   } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    if (error instanceof ScannerUnavailableError) {
+      console.error('Error scanning upload:', error);
+      return NextResponse.json(
+        { error: 'Uploads are unavailable right now. Please try again later.' },
+        { status: 503 }
+      );
+    }
+
     console.error('Error uploading file:', error);
     return NextResponse.json(
       { error: 'Failed to upload file' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,7 +1,11 @@
 import { adminAuth, adminDb } from "@/lib/firebase-admin";
 import { NextResponse } from "next/server";
+import { requireAdmin } from "@/utils/api-auth";
+
+export async function GET(request: Request) {
+  const admin = await requireAdmin(request);
+  if (admin instanceof NextResponse) return admin;
 
-export async function GET() {
   try {
     // Get all users from Auth
     const usersResult = await adminAuth.listUsers();
@@ -0,0 +1,222 @@
+"use client";
+
+import { useAuth } from "@/hooks/use-auth";
+import { DashboardLayout } from "@/components/dashboard/dashboard-layout";
+import { authFetch } from "@/utils/auth-fetch";
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { AlertCircle, Check, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatPrice } from "@/lib/pricing";
+import {
+  COMMISSION_RATE,
+  COMMISSION_STATUS_LABELS,
+  REFERRAL_PARAM,
+  formatCommissionTotal,
+  type Affiliate,
+  type Commission,
+  type CommissionStatus
+} from "@/lib/affiliates";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const STATUS_BADGE_CLASSES: Record<CommissionStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-blue-100 text-blue-800",
+  rejected: "bg-gray-100 text-gray-600",
+  paid: "bg-green-100 text-green-800",
+};
+
+export default function AffiliatePage() {
+  const { user } = useAuth();
+  const [affiliate, setAffiliate] = useState<Affiliate | null>(null);
+  const [commissions, setCommissions] = useState<Commission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (user?.uid) {
+        try {
+          const response = await authFetch("/api/affiliates");
+          const data = await response.json();
+          if (!response.ok) throw new Error(data.error);
+
+          setAffiliate(data.affiliate);
+          setCommissions(data.commissions);
+          setError(null);
+        } catch (error) {
+          console.error("Error fetching affiliate program:", error);
+          setError("Failed to load the affiliate program. Please try again later.");
+        } finally {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchData();
+  }, [user]);
+
+  const referralLink = affiliate
+    ? `${window.location.origin}/signup?${REFERRAL_PARAM}=${affiliate.code}`
+    : "";
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(referralLink);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const withStatus = (...statuses: CommissionStatus[]) =>
+    commissions.filter(commission => statuses.includes(commission.status));
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col gap-4 p-8">
+          <Skeleton className="h-8 w-[200px]" />
+          <Skeleton className="h-4 w-[300px]" />
+          <Skeleton className="h-[400px] w-full" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !affiliate) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-screen gap-4">
+          <AlertCircle className="h-12 w-12 text-red-500" />
+          <h2 className="text-xl font-semibold">{error}</h2>
+          <Button onClick={() => window.location.reload()}>Retry</Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-[#3659fb] to-[#6384ff] bg-clip-text text-transparent">
+            Affiliate Program
+          </h1>
+          <p className="text-gray-500 mt-2">
+            Earn {COMMISSION_RATE * 100}% of every registration paid for by customers who sign up through your link
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Referral Link</CardTitle>
+            <CardDescription>Referral code {affiliate.code}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex gap-2">
+              <Input value={referralLink} readOnly className="font-mono" />
+              <Button variant="outline" onClick={handleCopyLink}>
+                {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+                {copied ? "Copied" : "Copy"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Summary Cards */}
+        <div className="grid gap-4 md:grid-cols-4">
+          <Card className="bg-gradient-to-br from-indigo-50 to-purple-50">
+            <CardHeader className="pb-2">
+              <CardDescription>Clicks</CardDescription>
+              <CardTitle className="text-3xl">{affiliate.clicks}</CardTitle>
+            </CardHeader>
+          </Card>
+
+          <Card className="bg-gradient-to-br from-blue-50 to-indigo-50">
+            <CardHeader className="pb-2">
+              <CardDescription>Signups</CardDescription>
+              <CardTitle className="text-3xl">{affiliate.signups}</CardTitle>
+            </CardHeader>
+          </Card>
+
+          <Card className="bg-gradient-to-br from-green-50 to-emerald-50">
+            <CardHeader className="pb-2">
+              <CardDescription>Conversions</CardDescription>
+              <CardTitle className="text-3xl">{affiliate.conversions}</CardTitle>
+            </CardHeader>
+          </Card>
+
+          <Card className="bg-gradient-to-br from-amber-50 to-orange-50">
+            <CardHeader className="pb-2">
+              <CardDescription>Paid Out</CardDescription>
+              <CardTitle className="text-3xl">{formatCommissionTotal(withStatus("paid"))}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-gray-500">
+              {formatCommissionTotal(withStatus("pending", "approved"))} awaiting payout
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Commissions</CardTitle>
+            <CardDescription className="mt-2">
+              Commissions are reviewed before they are paid out
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader className="bg-gray-50">
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Business</TableHead>
+                    <TableHead>Payment</TableHead>
+                    <TableHead>Commission</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {commissions.map((commission) => (
+                    <TableRow key={commission.id} className="hover:bg-gray-50">
+                      <TableCell className="font-medium">
+                        {new Date(commission.createdAt).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>{commission.companyName || "—"}</TableCell>
+                      <TableCell>{formatPrice(commission.amountPaid / 100, commission.currency)}</TableCell>
+                      <TableCell className="font-semibold">
+                        {formatPrice(commission.amount / 100, commission.currency)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={STATUS_BADGE_CLASSES[commission.status]}>
+                          {COMMISSION_STATUS_LABELS[commission.status]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {commissions.length === 0 && (
+              <div className="flex flex-col items-center justify-center p-8 gap-4">
+                <AlertCircle className="h-12 w-12 text-gray-400" />
+                <h3 className="text-lg font-medium">No commissions yet</h3>
+                <p className="text-gray-500">Share your referral link to start earning</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, Suspense } from "react";
+import { useState, useEffect, useRef, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { DashboardLayout } from "@/components/dashboard/dashboard-layout";
 import { Button } from "@/components/ui/button";
@@ -15,7 +15,7 @@ import { Stepper } from "@/components/business/stepper";
 import { CountrySelection } from "@/components/business/country-selection";
 import { PackageSelection } from "@/components/business/package-selection";
 import { CompanyDetails } from "@/components/business/company-details";
-import { StateSelection } from "@/components/business/state-selection";
+import { SubdivisionSelection } from "@/components/business/subdivision-selection";
 import { OwnerInformation } from "@/components/business/owner-information";
 import { AddressDetails } from "@/components/business/address-details";
 import { Review } from "@/components/business/review";
@@ -35,7 +35,38 @@ import {
   FileText,
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
-import { getBusinesses, deleteDocument } from "@/utils/firebase";
+import { usePriceVersion } from "@/hooks/use-price-version";
+import {
+  getBusinesses,
+  deleteDocument,
+  saveBusinessDraft,
+  updateBusiness,
+  deleteBusinessDraft,
+  getBusinessEvents,
+} from "@/utils/firebase";
+import {
+  DEFAULT_PRICE_VERSION_ID,
+  getCurrency,
+  getLineItems,
+  getTotalAmount
+} from "@/lib/pricing";
+import {
+  getOwnerFields,
+  getRequiredDocuments,
+  getSubdivisionStep,
+  isSubdivisionRequired
+} from "@/lib/jurisdictions";
+import {
+  DRAFT_STATUSES,
+  PAYABLE_STATUSES,
+  normalizeStatus,
+} from "@/lib/business-lifecycle";
+import { StatusBadge } from "@/components/business/status-badge";
+import { EventTimeline } from "@/components/business/event-timeline";
+import type { BusinessEvent } from "@/lib/business-events";
+import type { PromoCodePreview } from "@/lib/promo-codes";
+import { getDocumentUrl } from "@/lib/documents";
+import { authFetch } from "@/utils/auth-fetch";
 
 interface Owner {
   id: string;
@@ -44,11 +75,16 @@ interface Owner {
   isCEO?: boolean;
   birthDate?: string;
   document?: File | null;
-  documentUrl?: string;
+  documentId?: string;
   documentName?: string;
+  details?: Record<string, string>;
 }
 
 interface FormData {
+  // Price version the draft was created with, see lib/pricing.ts
+  priceVersion?: string;
+  // Applied on the Review step, checked again at checkout
+  promoCode?: string | null;
   country?: { name: string };
   package?: { name: string; price: number };
   company?: { name: string; type: string; industry: string };
@@ -65,7 +101,7 @@ interface FormData {
 
 interface BusinessDocument {
   name: string;
-  url: string;
+  id: string;
 }
 
 interface Business {
@@ -93,15 +129,13 @@ interface Business {
     createdAt: { seconds: number; nanoseconds: number };
   };
   status: string;
+  lastCompletedStep?: number;
+  priceVersion?: string;
+  promoCode?: string | null;
   updatedAt: { seconds: number; nanoseconds: number };
   documents?: Record<string, BusinessDocument>;
 }
 
-// Helper function to check if state selection is needed
-const isStateSelectionRequired = (country?: string) => {
-  return country === "United States";
-};
-
 // Dynamic steps based on country selection
 const getSteps = (country?: string) => {
   const baseSteps = [
@@ -117,10 +151,11 @@ const getSteps = (country?: string) => {
     { id: 7, name: "Payment", description: "Complete payment" },
   ];
 
-  if (isStateSelectionRequired(country)) {
+  const subdivision = getSubdivisionStep(country);
+  if (subdivision) {
     return [
       ...baseSteps,
-      { id: 4, name: "State", description: "Select state" },
+      { id: 4, name: subdivision.label, description: `Select ${subdivision.label.toLowerCase()}` },
       ...afterStateSteps.map(step => ({ ...step, id: step.id + 1 }))
     ];
   }
@@ -128,32 +163,11 @@ const getSteps = (country?: string) => {
   return [...baseSteps, ...afterStateSteps];
 };
 
-const getRequiredDocuments = (country: string, packageName: string) => {
-  if (country === "United Kingdom") {
-    return [
-      { key: "businessRegistration", name: "Business Registration" }
-    ];
-  }
-
-  const usDocuments = [
-    { key: "filedArticlesAndOrganizer", name: "Filed Articles & Statement of the Organizer" },
-    { key: "einTaxId", name: "EIN / Tax ID Number" },
-    { key: "boiReport", name: "BOI Report" }
-  ];
-
-  if (country === "United States" && packageName === "enterprise") {
-    return [
-      ...usDocuments,
-      { key: "itinNumber", name: "ITIN Number" }
-    ];
-  }
-
-  if (country === "United States") {
-    return usDocuments;
-  }
-
-  return [];
-};
+// Draft fields as stored in Firestore; selected files are not serializable
+const toDraftData = (data: FormData) => ({
+  ...data,
+  owner: data.owner?.map(({ document, ...owner }) => owner),
+});
 
 // Format timestamp to human readable date
 const formatDate = (timestamp: { seconds: number; nanoseconds: number }) => {
@@ -187,8 +201,17 @@ function BusinessContent() {
   const [existingBusinesses, setExistingBusinesses] = useState<Business[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [expandedBusinessId, setExpandedBusinessId] = useState<string | null>(null);
+  const [businessEvents, setBusinessEvents] = useState<Record<string, BusinessEvent[]>>({});
+  const [promoPreview, setPromoPreview] = useState<PromoCodePreview | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
   const { user } = useAuth();
+  const { priceVersion, loading: pricesLoading } = usePriceVersion(formData.priceVersion);
+  const currency = getCurrency(priceVersion, formData.country?.name);
   const steps = getSteps(formData.country?.name);
+  // One draft per wizard run: created on the first completed step, then
+  // updated in place. Saves run one after another.
+  const draftIdRef = useRef<Promise<string> | null>(null);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
 
   useEffect(() => {
     const fetchBusinesses = async () => {
@@ -222,6 +245,7 @@ function BusinessContent() {
         if (searchParams.has("clean")) {
           sessionStorage.removeItem("businessRegistrationData");
           sessionStorage.removeItem("businessRegistrationStep");
+          sessionStorage.removeItem("businessRegistrationDraftId");
         } else {
           if (savedStep) setCurrentStep(Number(savedStep));
           if (savedData) setFormData(JSON.parse(savedData));
@@ -236,62 +260,147 @@ function BusinessContent() {
     initializeData();
   }, [router, searchParams]);
 
+  // Display only; checkout recomputes the amount on the server
   const calculateTotalPrice = (data: FormData) => {
-    let total = data.package?.price || 0;
-    if (isStateSelectionRequired(data.country?.name) && data.state?.price) {
-      total += data.state.price;
+    try {
+      return getTotalAmount(getLineItems(data, priceVersion)) / 100;
+    } catch {
+      return 0;
+    }
+  };
+
+  const getDraftId = () => {
+    if (!draftIdRef.current) {
+      const savedDraftId = sessionStorage.getItem("businessRegistrationDraftId");
+      draftIdRef.current = savedDraftId
+        ? Promise.resolve(savedDraftId)
+        : saveBusinessDraft(user!.uid, {}).then((id) => {
+            sessionStorage.setItem("businessRegistrationDraftId", id);
+            return id;
+          });
+      draftIdRef.current.catch(() => {
+        draftIdRef.current = null;
+      });
     }
-    return total;
+    return draftIdRef.current;
+  };
+
+  const saveDraft = (data: FormData, lastCompletedStep: number) => {
+    if (!user) return;
+
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      try {
+        const draftId = await getDraftId();
+        await updateBusiness(user.uid, draftId, {
+          ...toDraftData(data),
+          lastCompletedStep,
+        });
+      } catch (error) {
+        console.error("Error saving draft:", error);
+      }
+    });
+  };
+
+  // Resolves once every pending step has been saved to the draft
+  const prepareCheckout = async () => {
+    await saveQueueRef.current;
+    return getDraftId();
+  };
+
+  // Check a promo code against the saved draft and keep it on the draft
+  const applyPromoCode = async (code: string) => {
+    const businessId = await prepareCheckout();
+    const response = await authFetch("/api/promo-codes/validate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ businessId, code }),
+    });
+    const preview = await response.json();
+    if (!response.ok) throw new Error(preview.error || "Failed to apply promo code");
+
+    const newData = { ...formData, promoCode: preview.code };
+    sessionStorage.setItem("businessRegistrationData", JSON.stringify(newData));
+    setFormData(newData);
+    setPromoPreview(preview);
+    setPromoError(null);
+    saveDraft(newData, currentStep - 1);
+  };
+
+  const removePromoCode = () => {
+    const newData = { ...formData, promoCode: null };
+    sessionStorage.setItem("businessRegistrationData", JSON.stringify(newData));
+    setFormData(newData);
+    setPromoPreview(null);
+    saveDraft(newData, currentStep - 1);
   };
 
+  // Amount shown on the Payment step, after any promo code
+  const getAmountDue = () => {
+    return promoPreview ? promoPreview.total / 100 : calculateTotalPrice(formData);
+  };
+
+  // A code kept on a resumed draft, or one whose discount was reset by an
+  // earlier step, is checked again once the Review step is reached
+  useEffect(() => {
+    const reviewStep = getSteps(formData.country?.name).length - 1;
+    if (currentStep < reviewStep || !formData.promoCode || promoPreview) return;
+
+    applyPromoCode(formData.promoCode).catch((error) => {
+      setPromoError(error instanceof Error ? error.message : "Promo code is no longer valid");
+      removePromoCode();
+    });
+  }, [currentStep, formData.promoCode, promoPreview]);
+
   const handleNext = (stepData: any) => {
-    setFormData((prev) => {
-      const newData = { ...prev };
-
-      switch (currentStep) {
-        case 1:
-          newData.country = { name: stepData.name || "" };
-          break;
-        case 2:
-          newData.package = {
+    // The first completed step pins the draft to the prices shown
+    const newData = { priceVersion: priceVersion.id, ...formData };
+
+    switch (currentStep) {
+      case 1:
+        newData.country = { name: stepData.name || "" };
+        break;
+      case 2:
+        newData.package = {
+          name: stepData.name || "",
+          price: stepData.price || 0,
+        };
+        break;
+      case 3:
+        newData.company = {
+          name: stepData.name || "",
+          type: stepData.type || "",
+          industry: stepData.industry || "",
+        };
+        break;
+      case 4:
+        if (isSubdivisionRequired(newData.country?.name)) {
+          newData.state = {
             name: stepData.name || "",
             price: stepData.price || 0,
           };
-          break;
-        case 3:
-          newData.company = {
-            name: stepData.name || "",
-            type: stepData.type || "",
-            industry: stepData.industry || "",
-          };
-          break;
-        case 4:
-          if (isStateSelectionRequired(newData.country?.name)) {
-            newData.state = {
-              name: stepData.name || "",
-              price: stepData.price || 0,
-            };
-          } else {
-            newData.owner = stepData;
-          }
-          break;
-        case 5:
-          if (isStateSelectionRequired(newData.country?.name)) {
-            newData.owner = stepData;
-          } else {
-            newData.address = stepData;
-          }
-          break;
-        case 6:
-          if (isStateSelectionRequired(newData.country?.name)) {
-            newData.address = stepData;
-          }
-          break;
-      }
+        } else {
+          newData.owner = stepData;
+        }
+        break;
+      case 5:
+        if (isSubdivisionRequired(newData.country?.name)) {
+          newData.owner = stepData;
+        } else {
+          newData.address = stepData;
+        }
+        break;
+      case 6:
+        if (isSubdivisionRequired(newData.country?.name)) {
+          newData.address = stepData;
+        }
+        break;
+    }
 
-      sessionStorage.setItem("businessRegistrationData", JSON.stringify(newData));
-      return newData;
-    });
+    sessionStorage.setItem("businessRegistrationData", JSON.stringify(newData));
+    setFormData(newData);
+    // The discount depends on the package and country, so it is checked again
+    setPromoPreview(null);
+    saveDraft(newData, currentStep);
 
     setCurrentStep((prev) => {
       const newStep = prev + 1;
@@ -300,6 +409,34 @@ function BusinessContent() {
     });
   };
 
+  // Continue a saved draft at the step after the last one completed
+  const handleResumeDraft = (business: Business) => {
+    const data: FormData = {
+      // Drafts saved before price versions existed use the built-in prices
+      priceVersion: business.priceVersion || DEFAULT_PRICE_VERSION_ID,
+      promoCode: business.promoCode,
+      country: business.country,
+      package: business.package,
+      company: business.company,
+      state: business.state,
+      owner: business.owner,
+      address: business.address,
+    };
+    const step = Math.min(
+      (business.lastCompletedStep || 0) + 1,
+      getSteps(data.country?.name).length
+    );
+
+    sessionStorage.setItem("businessRegistrationData", JSON.stringify(data));
+    sessionStorage.setItem("businessRegistrationStep", step.toString());
+    sessionStorage.setItem("businessRegistrationDraftId", business.id);
+    draftIdRef.current = Promise.resolve(business.id);
+
+    setFormData(data);
+    setCurrentStep(step);
+    setShowRegistration(true);
+  };
+
   const handleBack = () => {
     if (currentStep === 1) {
       handleCancelRegistration();
@@ -321,22 +458,32 @@ function BusinessContent() {
     try {
       if (formData.owner?.length) {
         for (const owner of formData.owner) {
-          if (owner.documentUrl) {
+          if (owner.documentId) {
             try {
-              await deleteDocument(owner.documentUrl);
+              await deleteDocument(owner.documentId);
             } catch (error) {
               console.error("Error cleaning up document:", error);
             }
           }
         }
       }
+
+      const draftId = sessionStorage.getItem("businessRegistrationDraftId");
+      if (user && draftId) {
+        await saveQueueRef.current;
+        await deleteBusinessDraft(draftId);
+        setExistingBusinesses((prev) => prev.filter((b) => b.id !== draftId));
+      }
     } catch (error) {
       console.error("Error during cleanup:", error);
     } finally {
       sessionStorage.removeItem("businessRegistrationData");
       sessionStorage.removeItem("businessRegistrationStep");
+      sessionStorage.removeItem("businessRegistrationDraftId");
+      draftIdRef.current = null;
       setCurrentStep(1);
       setFormData({});
+      setPromoPreview(null);
       setShowRegistration(false);
       router.push("/dashboard/business");
     }
@@ -354,6 +501,97 @@ function BusinessContent() {
     }, 0);
   };
 
+  // Expand or collapse a business, loading its activity when expanded
+  // Abandoned drafts cannot be resumed, only deleted
+  const handleDeleteDraft = async (business: Business) => {
+    if (!confirm(`Delete ${business.company?.name || "this registration"}? This cannot be undone.`)) return;
+
+    try {
+      await deleteBusinessDraft(business.id);
+      setExistingBusinesses((prev) => prev.filter((b) => b.id !== business.id));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to delete the registration");
+    }
+  };
+
+  const handleToggleDetails = async (businessId: string) => {
+    if (expandedBusinessId === businessId) {
+      setExpandedBusinessId(null);
+      return;
+    }
+
+    setExpandedBusinessId(businessId);
+    try {
+      const events = await getBusinessEvents(user!.uid, businessId);
+      setBusinessEvents((prev) => ({ ...prev, [businessId]: events }));
+    } catch (error) {
+      console.error("Error loading business activity:", error);
+      setBusinessEvents((prev) => ({ ...prev, [businessId]: [] }));
+    }
+  };
+
+  const renderDraftCard = (business: Business) => {
+    const canResume = PAYABLE_STATUSES.includes(normalizeStatus(business.status));
+    const totalSteps = getSteps(business.country?.name).length;
+    const completedSteps = business.lastCompletedStep || 0;
+
+    return (
+      <Card key={business.id} className="shadow-lg">
+        <CardContent className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-2xl font-bold flex items-center gap-2">
+                <Building2 className="h-6 w-6 text-indigo-600" />
+                {business.company?.name || "Untitled registration"}
+              </h3>
+              <p className="text-gray-500 mt-1">
+                {business.country?.name || "Country not selected"}
+                {business.package?.name && ` • ${business.package.name} package`}
+                {business.updatedAt && ` • Last saved ${formatDate(business.updatedAt)}`}
+              </p>
+            </div>
+            <StatusBadge status={business.status} className="px-4 py-2 text-base" />
+          </div>
+
+          <div className="relative">
+            <div className="flex mb-2 items-center justify-between">
+              <span className="text-sm font-semibold text-[#3659fb]">
+                Registration Steps
+              </span>
+              <span className="text-sm font-semibold text-[#3659fb]">
+                {completedSteps} of {totalSteps}
+              </span>
+            </div>
+            <div className="h-2 bg-indigo-100 rounded">
+              <div
+                className="h-2 bg-[#3659fb] rounded transition-all duration-500"
+                style={{ width: `${(completedSteps / totalSteps) * 100}%` }}
+              />
+            </div>
+          </div>
+
+          {canResume && (
+            <Button
+              onClick={() => handleResumeDraft(business)}
+              className="bg-[#3659fb] hover:bg-[#4b6bff] text-white transition-colors duration-200"
+            >
+              Resume Registration
+            </Button>
+          )}
+          {!canResume && (
+            <Button
+              variant="outline"
+              onClick={() => handleDeleteDraft(business)}
+              className="text-gray-600 hover:bg-gray-50"
+            >
+              Delete Registration
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
   const renderBusinessCard = (business: Business) => {
     const isExpanded = expandedBusinessId === business.id;
     const requiredDocuments = getRequiredDocuments(
@@ -362,7 +600,7 @@ function BusinessContent() {
     );
     const registrationStep = getCurrentStep(business);
     const totalSteps = requiredDocuments.length;
-    const totalAmount = (business.state?.price || 0) + business.package.price;
+    const totalAmount = (business.state?.price || 0) + (business.package?.price || 0);
     const documents = business.documents || {};
 
     return (
@@ -380,15 +618,7 @@ function BusinessContent() {
                 {business.state && ` • ${business.state.name}`}
               </p>
             </div>
-            <div
-              className={`px-4 py-2 rounded-full ${
-                business.status === "completed"
-                  ? "bg-green-100 text-green-800"
-                  : "bg-indigo-100 text-indigo-800"
-              }`}
-            >
-              {business.status === "completed" ? "Active" : "In Progress"}
-            </div>
+            <StatusBadge status={business.status} className="px-4 py-2 text-base" />
           </div>
 
           {/* Progress Bar */}
@@ -457,9 +687,9 @@ function BusinessContent() {
                         </p>
                       )}
                     </div>
-                    {documentInfo?.url && (
+                    {documentInfo?.id && (
                       <a
-                        href={documentInfo.url}
+                        href={getDocumentUrl(documentInfo.id)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-indigo-600 hover:text-indigo-800 text-sm font-medium"
@@ -477,9 +707,7 @@ function BusinessContent() {
         {/* Expandable Details Section */}
         <div className="border-t pt-4">
           <button
-            onClick={() =>
-              setExpandedBusinessId(isExpanded ? null : business.id)
-            }
+            onClick={() => handleToggleDetails(business.id)}
             className="w-full flex items-center justify-between p-2 hover:bg-gray-50 rounded-lg transition-colors duration-200"
           >
             <span className="font-medium text-gray-700">
@@ -519,7 +747,9 @@ function BusinessContent() {
                   </div>
                   {business.state && (
                     <div>
-                      <p className="text-gray-500 text-sm">State</p>
+                      <p className="text-gray-500 text-sm">
+                        {getSubdivisionStep(business.country?.name)?.label || "State"}
+                      </p>
                       <p className="font-medium">{business.state.name}</p>
                     </div>
                   )}
@@ -533,7 +763,7 @@ function BusinessContent() {
                   Ownership Structure
                 </h3>
                 <div className="space-y-3">
-                  {business.owner.map((owner) => (
+                  {business.owner?.map((owner) => (
                     <div
                       key={owner.id}
                       className="flex items-center justify-between p-2 bg-white rounded border"
@@ -544,6 +774,11 @@ function BusinessContent() {
                           {owner.isCEO ? "CEO • " : ""}
                           {owner.birthDate && new Date(owner.birthDate).toLocaleDateString()}
                         </p>
+                        {getOwnerFields(business.country?.name).map((field) => owner.details?.[field.key] && (
+                          <p key={field.key} className="text-sm text-gray-500">
+                            {field.label}: {owner.details[field.key]}
+                          </p>
+                        ))}
                       </div>
                       <span className="bg-indigo-100 text-indigo-800 px-2 py-1 rounded-full text-sm">
                         {owner.ownership}%
@@ -605,6 +840,19 @@ function BusinessContent() {
                   </div>
                 </div>
               )}
+
+              {/* Activity */}
+              <div className="bg-gray-50 p-4 rounded-lg">
+                <h3 className="font-medium text-gray-700 mb-3 flex items-center gap-2">
+                  <Clock className="h-5 w-5 text-gray-500" />
+                  Activity
+                </h3>
+                {businessEvents[business.id] ? (
+                  <EventTimeline events={businessEvents[business.id]} />
+                ) : (
+                  <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                )}
+              </div>
             </div>
           )}
         </div>
@@ -626,13 +874,19 @@ const renderBusinessDashboard = () => (
       </CardHeader>
       <CardContent>
         <div className="space-y-6">
-          {existingBusinesses.map((business) => renderBusinessCard(business))}
+          {existingBusinesses.map((business) =>
+            DRAFT_STATUSES.includes(normalizeStatus(business.status))
+              ? renderDraftCard(business)
+              : renderBusinessCard(business)
+          )}
         </div>
 
         <Button
           onClick={() => {
             sessionStorage.removeItem("businessRegistrationData");
             sessionStorage.removeItem("businessRegistrationStep");
+            sessionStorage.removeItem("businessRegistrationDraftId");
+            draftIdRef.current = null;
             router.push("/dashboard/business?register=true");
           }}
           className="bg-[#3659fb] hover:bg-[#4b6bff] text-white transition-colors duration-200 mt-6"
@@ -661,6 +915,7 @@ const renderRegistrationStep = () => {
           onBack={handleBack}
           initialData={formData.package}
           selectedCountry={formData.country?.name}
+          priceVersion={priceVersion}
         />
       );
     case 3:
@@ -673,17 +928,20 @@ const renderRegistrationStep = () => {
         />
       );
     case 4:
-      if (isStateSelectionRequired(formData.country?.name)) {
+      if (isSubdivisionRequired(formData.country?.name)) {
         return (
-          <StateSelection
+          <SubdivisionSelection
             onNext={handleNext}
             onBack={handleBack}
             initialData={formData.state}
+            country={formData.country?.name}
+            priceVersion={priceVersion}
           />
         );
       } else {
         return (
           <OwnerInformation
+            country={formData.country?.name}
             onNext={handleNext}
             onBack={handleBack}
             initialData={formData.owner}
@@ -691,9 +949,10 @@ const renderRegistrationStep = () => {
         );
       }
     case 5:
-      if (isStateSelectionRequired(formData.country?.name)) {
+      if (isSubdivisionRequired(formData.country?.name)) {
         return (
           <OwnerInformation
+            country={formData.country?.name}
             onNext={handleNext}
             onBack={handleBack}
             initialData={formData.owner}
@@ -709,7 +968,7 @@ const renderRegistrationStep = () => {
         );
       }
     case 6:
-      if (isStateSelectionRequired(formData.country?.name)) {
+      if (isSubdivisionRequired(formData.country?.name)) {
         return (
           <AddressDetails
             onNext={handleNext}
@@ -724,6 +983,11 @@ const renderRegistrationStep = () => {
               ...formData as Required<FormData>,
               totalPrice: calculateTotalPrice(formData)
             }}
+            currency={currency}
+            promo={promoPreview}
+            promoError={promoError}
+            onApplyPromoCode={applyPromoCode}
+            onRemovePromoCode={removePromoCode}
             onNext={() => setCurrentStep(7)}
             onBack={handleBack}
             onEdit={handleEdit}
@@ -731,13 +995,18 @@ const renderRegistrationStep = () => {
         );
       }
     case 7:
-      if (isStateSelectionRequired(formData.country?.name)) {
+      if (isSubdivisionRequired(formData.country?.name)) {
         return (
           <Review
             data={{
               ...formData as Required<FormData>,
               totalPrice: calculateTotalPrice(formData)
             }}
+            currency={currency}
+            promo={promoPreview}
+            promoError={promoError}
+            onApplyPromoCode={applyPromoCode}
+            onRemovePromoCode={removePromoCode}
             onNext={() => setCurrentStep(8)}
             onBack={handleBack}
             onEdit={handleEdit}
@@ -746,17 +1015,19 @@ const renderRegistrationStep = () => {
       } else {
         return (
           <Payment
-            amount={calculateTotalPrice(formData)}
-            businessData={formData}
+            amount={getAmountDue()}
+            currency={currency}
+            prepareCheckout={prepareCheckout}
           />
         );
       }
     case 8:
-      if (isStateSelectionRequired(formData.country?.name)) {
+      if (isSubdivisionRequired(formData.country?.name)) {
         return (
           <Payment
-            amount={calculateTotalPrice(formData)}
-            businessData={formData}
+            amount={getAmountDue()}
+            currency={currency}
+            prepareCheckout={prepareCheckout}
           />
         );
       }
@@ -766,7 +1037,7 @@ const renderRegistrationStep = () => {
   }
 };
 
-if (isLoading) {
+if (isLoading || (showRegistration && pricesLoading)) {
   return (
     <DashboardLayout>
       <div className="flex items-center justify-center h-screen">
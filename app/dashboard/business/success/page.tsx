@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button";
 import { CheckCircledIcon } from "@radix-ui/react-icons";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { getBusinessDraft, formatTimestamp } from "@/utils/firebase";
+import { authFetch } from "@/utils/auth-fetch";
 
 interface PaymentDetails {
   businessId?: string;
@@ -17,6 +18,9 @@ interface PaymentDetails {
   date?: string;
 }
 
+const CONFIRM_ATTEMPTS = 10;
+const CONFIRM_INTERVAL_MS = 2000;
+
 function LoadingSpinner() {
   return (
     <DashboardLayout>
@@ -33,6 +37,7 @@ function SuccessPageContent() {
   const [paymentDetails, setPaymentDetails] = useState<PaymentDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
 
   useEffect(() => {
     const verifyPayment = async () => {
@@ -44,16 +49,27 @@ function SuccessPageContent() {
       }
 
       try {
-        const response = await fetch("/api/confirm-payment", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ sessionId }),
-        });
-
-        if (!response.ok) throw new Error("Payment verification failed");
+        let result;
+        // The webhook usually lands within a few seconds of the redirect
+        for (let attempt = 0; attempt < CONFIRM_ATTEMPTS; attempt++) {
+          const response = await authFetch("/api/confirm-payment", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ sessionId }),
+          });
+
+          if (!response.ok) throw new Error("Payment verification failed");
+
+          result = await response.json();
+          if (result.status !== "processing") break;
+          await new Promise(resolve => setTimeout(resolve, CONFIRM_INTERVAL_MS));
+        }
+
+        if (result.status === "processing") {
+          setIsProcessing(true);
+          return;
+        }
 
-        const result = await response.json();
-        
         const businessData = await getBusinessDraft(
           result.userId,
           result.businessId
@@ -81,6 +97,7 @@ function SuccessPageContent() {
   useEffect(() => {
     window.sessionStorage.removeItem("businessRegistrationData");
     window.sessionStorage.removeItem("businessRegistrationStep");
+    window.sessionStorage.removeItem("businessRegistrationDraftId");
     window.localStorage.removeItem("currentStripeSession");
   }, []);
 
@@ -110,6 +127,28 @@ function SuccessPageContent() {
     );
   }
 
+  if (isProcessing) {
+    return (
+      <DashboardLayout>
+        <div className="max-w-2xl mx-auto text-center space-y-8 p-4">
+          <CheckCircledIcon className="h-20 w-20 text-indigo-600 mx-auto mb-4" />
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-[#3659fb] to-[#6384ff] bg-clip-text text-transparent">
+            Payment Received
+          </h1>
+          <p className="text-gray-500">
+            We are finalizing your registration. It will show as active on your dashboard in a few moments.
+          </p>
+          <Button
+            onClick={() => router.push("/dashboard/business")}
+            className="bg-[#3659fb] hover:bg-[#4b6bff] text-white transition-colors duration-200"
+          >
+            Go to Business Dashboard
+          </Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
   return (
     <DashboardLayout>
       <div className="max-w-2xl mx-auto space-y-8 p-4">
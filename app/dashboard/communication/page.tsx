@@ -0,0 +1,318 @@
+"use client";
+
+import { useAuth } from "@/hooks/use-auth";
+import { DashboardLayout } from "@/components/dashboard/dashboard-layout";
+import { MessageThread } from "@/components/messages/message-thread";
+import { getBusinesses } from "@/utils/firebase";
+import { authFetch } from "@/utils/auth-fetch";
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { AlertCircle, Loader2, MessageSquare, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  MESSAGE_MAX_LENGTH,
+  type AttachmentInput,
+  type Message,
+  type MessageThread as Thread
+} from "@/lib/messages";
+
+export default function CommunicationPage() {
+  const { user } = useAuth();
+  const [threads, setThreads] = useState<Thread[]>([]);
+  const [businesses, setBusinesses] = useState<any[]>([]);
+  const [selectedThread, setSelectedThread] = useState<Thread | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [isComposing, setIsComposing] = useState(false);
+  const [draft, setDraft] = useState({ businessId: "", subject: "", body: "" });
+  const [loading, setLoading] = useState(true);
+  const [threadLoading, setThreadLoading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (user?.uid) {
+        try {
+          const [response, businesses] = await Promise.all([
+            authFetch("/api/messages"),
+            getBusinesses(user.uid),
+          ]);
+          const data = await response.json();
+          if (!response.ok) throw new Error(data.error);
+
+          setThreads(data.threads);
+          setBusinesses(businesses);
+          setError(null);
+        } catch (error) {
+          console.error("Error fetching messages:", error);
+          setError("Failed to load your messages. Please try again later.");
+        } finally {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchData();
+  }, [user]);
+
+  const openThread = async (threadId: string) => {
+    setIsComposing(false);
+    setThreadLoading(true);
+
+    try {
+      const response = await authFetch(`/api/messages/${threadId}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setSelectedThread(data.thread);
+      setMessages(data.messages);
+      // Opening the thread marked it read
+      setThreads(prev => prev.map(t => t.id === threadId
+        ? { ...data.thread, unread: { ...data.thread.unread, customer: 0 } }
+        : t));
+    } catch (error) {
+      console.error("Error fetching conversation:", error);
+      setError("Failed to load the conversation. Please try again later.");
+    } finally {
+      setThreadLoading(false);
+    }
+  };
+
+  const handleReply = async (body: string, attachments: AttachmentInput[]) => {
+    if (!selectedThread) return;
+
+    const response = await authFetch(`/api/messages/${selectedThread.id}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ body, attachments }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error);
+
+    await openThread(selectedThread.id);
+  };
+
+  const handleCreateThread = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setFormError(null);
+
+    try {
+      const response = await authFetch("/api/messages", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(Object.values(data.fields || {})[0] as string || data.error);
+      }
+
+      setThreads(prev => [data.thread, ...prev]);
+      setDraft({ businessId: "", subject: "", body: "" });
+      await openThread(data.thread.id);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : "Failed to send message");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const getBusinessName = (business: any) =>
+    business.company?.name || `${business.country?.name || "New"} registration`;
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col gap-4 p-8">
+          <Skeleton className="h-8 w-[200px]" />
+          <Skeleton className="h-4 w-[300px]" />
+          <Skeleton className="h-[400px] w-full" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (error) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-screen gap-4">
+          <AlertCircle className="h-12 w-12 text-red-500" />
+          <h2 className="text-xl font-semibold">{error}</h2>
+          <Button onClick={() => window.location.reload()}>Retry</Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-[#3659fb] to-[#6384ff] bg-clip-text text-transparent">
+              Communication
+            </h1>
+            <p className="text-gray-500 mt-2">Ask our team about any of your registrations</p>
+          </div>
+          <Button
+            onClick={() => { setIsComposing(true); setSelectedThread(null); }}
+            disabled={businesses.length === 0}
+            className="bg-[#3659fb] hover:bg-[#4b6bff]"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Message
+          </Button>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-3">
+          <Card className="md:col-span-1">
+            <CardHeader>
+              <CardTitle>Conversations</CardTitle>
+              <CardDescription>{threads.length} conversations</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {threads.map(thread => (
+                <button
+                  key={thread.id}
+                  onClick={() => openThread(thread.id)}
+                  className={cn(
+                    "w-full text-left rounded-lg border p-3 transition-colors",
+                    selectedThread?.id === thread.id ? "border-[#3659fb] bg-blue-50" : "hover:bg-gray-50"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate">{thread.subject}</span>
+                    {thread.unread.customer > 0 && (
+                      <Badge>{thread.unread.customer}</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate">{thread.companyName || "Registration"}</div>
+                  {thread.lastMessage && (
+                    <div className="text-sm text-gray-600 truncate mt-1">{thread.lastMessage.preview}</div>
+                  )}
+                  {thread.status === "closed" && (
+                    <Badge variant="outline" className="mt-2">Closed</Badge>
+                  )}
+                </button>
+              ))}
+
+              {threads.length === 0 && (
+                <div className="flex flex-col items-center justify-center p-6 gap-2 text-center">
+                  <MessageSquare className="h-10 w-10 text-gray-400" />
+                  <p className="text-sm text-gray-500">
+                    {businesses.length === 0
+                      ? "Start a registration to message our team about it"
+                      : "No conversations yet"}
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="md:col-span-2">
+            {isComposing ? (
+              <>
+                <CardHeader>
+                  <CardTitle>New Message</CardTitle>
+                  <CardDescription>You can attach files once the conversation has started</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleCreateThread} className="space-y-4">
+                    {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+                    <Select
+                      value={draft.businessId}
+                      onValueChange={(businessId) => setDraft({ ...draft, businessId })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Which registration is this about?" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {businesses.map(business => (
+                          <SelectItem key={business.id} value={business.id}>
+                            {getBusinessName(business)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <Input
+                      placeholder="Subject"
+                      value={draft.subject}
+                      onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                      required
+                    />
+
+                    <textarea
+                      placeholder="How can we help?"
+                      value={draft.body}
+                      onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                      maxLength={MESSAGE_MAX_LENGTH}
+                      rows={6}
+                      required
+                      className="w-full border rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                    />
+
+                    <div className="flex justify-end gap-2">
+                      <Button type="button" variant="outline" onClick={() => setIsComposing(false)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        type="submit"
+                        disabled={isSending || !draft.businessId}
+                        className="bg-[#3659fb] hover:bg-[#4b6bff]"
+                      >
+                        {isSending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Send
+                      </Button>
+                    </div>
+                  </form>
+                </CardContent>
+              </>
+            ) : threadLoading ? (
+              <div className="flex items-center justify-center p-12">
+                <Loader2 className="h-8 w-8 animate-spin text-[#3659fb]" />
+              </div>
+            ) : selectedThread ? (
+              <>
+                <CardHeader>
+                  <CardTitle>{selectedThread.subject}</CardTitle>
+                  <CardDescription>
+                    {selectedThread.companyName || "Registration"}
+                    {selectedThread.status === "closed" && " • Closed, replying will reopen it"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <MessageThread
+                    thread={selectedThread}
+                    messages={messages}
+                    viewerSide="customer"
+                    onSend={handleReply}
+                  />
+                </CardContent>
+              </>
+            ) : (
+              <div className="flex flex-col items-center justify-center p-12 gap-4 text-center">
+                <MessageSquare className="h-12 w-12 text-gray-400" />
+                <p className="text-gray-500">Select a conversation or start a new one</p>
+              </div>
+            )}
+          </Card>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -23,9 +23,16 @@ import {
   Briefcase,
   ExternalLink,
   ArrowDownRight,
+  Download,
   Loader2
 } from "lucide-react"
 import { getBusinesses } from "@/utils/firebase"
+import { DRAFT_STATUSES, normalizeStatus } from "@/lib/business-lifecycle"
+import { StatusBadge } from "@/components/business/status-badge"
+import { getRequiredDocuments } from "@/lib/jurisdictions"
+import { getDocumentArchiveUrl, getDocumentUrl } from "@/lib/documents"
+import { useBusinessDocuments } from "@/hooks/use-business-documents"
+import { DocumentVersions } from "@/components/business/document-versions"
 import {
   LineChart,
   Line,
@@ -42,7 +49,7 @@ import {
 interface Business {
   id: string;
   company: { name: string; type: string; industry: string };
-  documents: Record<string, { url: string; name: string }>;
+  documents: Record<string, { id: string; name: string }>;
   paymentDetails: {
     amount: number;
     currency: string;
@@ -62,40 +69,8 @@ interface Business {
 
 const COLORS = ['#4F46E5', '#7C3AED', '#2563EB', '#9333EA'];
 
-const getRequiredDocuments = (country: string, packageName: string) => {
-  if (country === "United Kingdom") {
-    return [
-      { key: "businessRegistration", name: "Business Registration" }
-    ];
-  }
-
-  const usDocuments = [
-    { key: "filedArticlesAndOrganizer", name: "Filed Articles & Statement of the Organizer" },
-    { key: "einTaxId", name: "EIN / Tax ID Number" },
-    { key: "boiReport", name: "BOI Report" }
-  ];
-
-  if (country === "United States" && packageName === "enterprise") {
-    return [
-      ...usDocuments,
-      { key: "itinNumber", name: "ITIN Number" }
-    ];
-  }
-
-  if (country === "United States") {
-    return usDocuments;
-  }
-
-  return [];
-};
-
 const isBusinessCompleted = (business: Business) => {
-  if (!business.documents) return false;
-  const requiredDocs = getRequiredDocuments(
-    business.country?.name || '',
-    business.package?.name || ''
-  );
-  return requiredDocs.every(doc => business.documents[doc.key]);
+  return normalizeStatus(business.status) === 'active';
 };
 
 const getDocumentStatus = (business: Business) => {
@@ -139,11 +114,12 @@ const formatTimestamp = (timestamp: any, business?: Business) => {
   }
 };
 
-const DocumentsDisplay = ({ business }: { business: Business }) => {
+const DocumentsDisplay = ({ business, userId }: { business: Business; userId: string }) => {
   const requiredDocuments = getRequiredDocuments(
     business.country?.name || '',
     business.package?.name || ''
   );
+  const versions = useBusinessDocuments(userId, business.id, business.documents);
 
   return (
     <div className="space-y-4">
@@ -162,11 +138,12 @@ const DocumentsDisplay = ({ business }: { business: Business }) => {
                 {document && (
                   <p className="text-sm text-gray-500">{document.name}</p>
                 )}
+                <DocumentVersions versions={versions[doc.key]} currentId={document?.id} />
               </div>
             </div>
             {document && (
               <a
-                href={document.url}
+                href={getDocumentUrl(document.id)}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="flex items-center gap-2 text-indigo-600 hover:text-indigo-800 text-sm font-medium"
@@ -178,6 +155,18 @@ const DocumentsDisplay = ({ business }: { business: Business }) => {
           </div>
         );
       })}
+      {business.documents && Object.keys(business.documents).length > 0 && (
+        <div className="flex justify-end">
+          <a
+            href={getDocumentArchiveUrl(userId, business.id)}
+            download
+            className="flex items-center gap-2 text-indigo-600 hover:text-indigo-800 text-sm font-medium"
+          >
+            <Download className="h-4 w-4" />
+            <span>Download all (ZIP)</span>
+          </a>
+        </div>
+      )}
     </div>
   );
 };
@@ -194,7 +183,8 @@ export default function DashboardPage() {
       if (user?.uid) {
         try {
           const fetchedBusinesses = await getBusinesses(user.uid)
-          setBusinesses(fetchedBusinesses)
+          // Drafts still in the registration wizard are listed on the business page
+          setBusinesses(fetchedBusinesses.filter(b => !DRAFT_STATUSES.includes(normalizeStatus(b.status))))
         } catch (error) {
           console.error("Error fetching businesses:", error)
         } finally {
@@ -291,11 +281,7 @@ export default function DashboardPage() {
                     {business.company.type.toUpperCase()} - {business.company.industry}
                   </CardDescription>
                 </div>
-                <div className={`px-4 py-2 rounded-full ${
-                  isComplete ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
-                }`}>
-                  {isComplete ? 'Completed' : 'In Progress'}
-                </div>
+                <StatusBadge status={business.status} className="px-4 py-2 text-base" />
               </div>
             </CardHeader>
             <CardContent>
@@ -366,7 +352,7 @@ export default function DashboardPage() {
             <CardDescription>Track your document submission progress</CardDescription>
           </CardHeader>
           <CardContent>
-            <DocumentsDisplay business={business} />
+            <DocumentsDisplay business={business} userId={user!.uid} />
           </CardContent>
         </Card>
 
@@ -563,7 +549,6 @@ export default function DashboardPage() {
 
           <TabsContent value="documents" className="space-y-6">
             {businesses.map((business) => {
-              const isComplete = isBusinessCompleted(business);
               const docStatus = getDocumentStatus(business);
               
               return (
@@ -571,18 +556,14 @@ export default function DashboardPage() {
                   <CardHeader>
                     <div className="flex items-center justify-between">
                       <CardTitle>{business.company.name}</CardTitle>
-                      <div className={`px-3 py-1 rounded-full text-sm ${
-                        isComplete ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
-                      }`}>
-                        {isComplete ? 'Completed' : 'In Progress'}
-                      </div>
+                      <StatusBadge status={business.status} className="px-3" />
                     </div>
                     <CardDescription>
                       {docStatus.text} • Registration started on {formatTimestamp(business.createdAt, business)}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
-                    <DocumentsDisplay business={business} />
+                    <DocumentsDisplay business={business} userId={user!.uid} />
                   </CardContent>
                 </Card>
               );
@@ -10,7 +10,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from "@/components/ui/tooltip";
 import { Skeleton } from "@/components/ui/skeleton";
-import { CheckCircledIcon, CrossCircledIcon } from "@radix-ui/react-icons";
+import { CheckCircledIcon, CrossCircledIcon, CounterClockwiseClockIcon } from "@radix-ui/react-icons";
 import { cn } from "@/lib/utils"
 import {
   Table,
@@ -36,7 +36,8 @@ export default function PaymentsPage() {
       if (user?.uid) {
         try {
           const businesses = await getBusinesses(user.uid);
-          setBusinesses(businesses);
+          // Drafts that never reached checkout have no payment to show
+          setBusinesses(businesses.filter(b => b.paymentDetails));
           setError(null);
         } catch (error) {
           console.error("Error fetching businesses:", error);
@@ -89,8 +90,16 @@ export default function PaymentsPage() {
     return 0;
   });
 
+  // Net of refunds
   const totalRevenue = businesses.reduce((acc, business) => 
-    acc + (business.paymentDetails?.status === 'succeeded' ? business.paymentDetails?.amount : 0), 0);
+    acc + (business.paymentDetails?.status === 'succeeded'
+      ? business.paymentDetails.amount - (business.paymentDetails.amountRefunded || 0)
+      : 0), 0);
+
+  const getRefundLabel = (paymentDetails: any) => {
+    if (!paymentDetails?.amountRefunded) return null;
+    return paymentDetails.amountRefunded >= paymentDetails.amount ? "Refunded" : "Partially refunded";
+  };
 
   if (loading) {
     return (
@@ -195,6 +204,7 @@ export default function PaymentsPage() {
                       <TableHead>Business</TableHead>
                       <TableHead>Payment Method</TableHead>
                       <TableHead>Amount</TableHead>
+                      <TableHead>Refunded</TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead>Payment ID</TableHead>
                     </TableRow>
@@ -222,20 +232,37 @@ export default function PaymentsPage() {
                             maximumFractionDigits: 2
                           })}
                         </TableCell>
+                        <TableCell className="text-orange-600">
+                          {business.paymentDetails?.amountRefunded
+                            ? `$${(business.paymentDetails.amountRefunded / 100).toLocaleString(undefined, {
+                                minimumFractionDigits: 2,
+                                maximumFractionDigits: 2
+                              })}`
+                            : "—"}
+                        </TableCell>
                         <TableCell>
-                          <div className="flex items-center gap-2">
-                            {business.paymentDetails?.status === "succeeded" ? (
-                              <CheckCircledIcon className="h-5 w-5 text-green-600" />
-                            ) : (
-                              <CrossCircledIcon className="h-5 w-5 text-red-600" />
-                            )}
-                            <span className={cn(
-                              "font-medium",
-                              business.paymentDetails?.status === "succeeded" ? "text-green-600" : "text-red-600"
-                            )}>
-                              {business.paymentDetails?.status === "succeeded" ? "Success" : "Failed"}
-                            </span>
-                          </div>
+                          {getRefundLabel(business.paymentDetails) ? (
+                            <div className="flex items-center gap-2">
+                              <CounterClockwiseClockIcon className="h-5 w-5 text-orange-600" />
+                              <span className="font-medium text-orange-600">
+                                {getRefundLabel(business.paymentDetails)}
+                              </span>
+                            </div>
+                          ) : (
+                            <div className="flex items-center gap-2">
+                              {business.paymentDetails?.status === "succeeded" ? (
+                                <CheckCircledIcon className="h-5 w-5 text-green-600" />
+                              ) : (
+                                <CrossCircledIcon className="h-5 w-5 text-red-600" />
+                              )}
+                              <span className={cn(
+                                "font-medium",
+                                business.paymentDetails?.status === "succeeded" ? "text-green-600" : "text-red-600"
+                              )}>
+                                {business.paymentDetails?.status === "succeeded" ? "Success" : "Failed"}
+                              </span>
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell>
                           <Tooltip>
@@ -0,0 +1,103 @@
+"use client";
+
+import { useAuth } from "@/hooks/use-auth";
+import { DashboardLayout } from "@/components/dashboard/dashboard-layout";
+import { ProfileSettings } from "@/components/settings/profile-settings";
+import { EmailSettings } from "@/components/settings/email-settings";
+import { PasswordSettings } from "@/components/settings/password-settings";
+import { SignInMethods } from "@/components/settings/sign-in-methods";
+import { NotificationSettings } from "@/components/settings/notification-settings";
+import { DeleteAccount } from "@/components/settings/delete-account";
+import { auth } from "@/lib/firebase";
+import { getUserProfile, updateUserProfile, type UserProfile } from "@/utils/firebase";
+import { useEffect, useState } from "react";
+import { AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+
+export default function SettingsPage() {
+  const { user } = useAuth();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped after linking or unlinking providers to re-read providerData
+  const [, setProvidersVersion] = useState(0);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (user?.uid) {
+        try {
+          const profile = await getUserProfile(user.uid);
+
+          // Email changes are applied by Firebase once verified
+          if (user.email && profile.email !== user.email) {
+            await updateUserProfile(user.uid, { email: user.email });
+            profile.email = user.email;
+          }
+
+          setProfile(profile);
+          setError(null);
+        } catch (error) {
+          console.error("Error fetching profile:", error);
+          setError("Failed to load your settings. Please try again later.");
+        }
+      }
+    };
+
+    fetchData();
+  }, [user]);
+
+  const handleProfileSaved = (changes: Partial<UserProfile>) => {
+    setProfile(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleProvidersChanged = async () => {
+    await auth.currentUser?.reload();
+    setProvidersVersion(version => version + 1);
+  };
+
+  const currentUser = auth.currentUser;
+
+  if (error) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center h-screen gap-4">
+          <AlertCircle className="h-12 w-12 text-red-500" />
+          <h2 className="text-xl font-semibold">{error}</h2>
+          <Button onClick={() => window.location.reload()}>Retry</Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!profile || !currentUser) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col gap-4 p-8">
+          <Skeleton className="h-8 w-[200px]" />
+          <Skeleton className="h-4 w-[300px]" />
+          <Skeleton className="h-[400px] w-full" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 max-w-3xl">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-[#3659fb] to-[#6384ff] bg-clip-text text-transparent">
+            Settings
+          </h1>
+          <p className="text-gray-500 mt-2">Manage your account, sign-in methods and notifications</p>
+        </div>
+
+        <ProfileSettings user={currentUser} profile={profile} onSaved={handleProfileSaved} />
+        <EmailSettings user={currentUser} />
+        <PasswordSettings user={currentUser} onProvidersChanged={handleProvidersChanged} />
+        <SignInMethods user={currentUser} onProvidersChanged={handleProvidersChanged} />
+        <NotificationSettings userId={currentUser.uid} profile={profile} onSaved={handleProfileSaved} />
+        <DeleteAccount user={currentUser} />
+      </div>
+    </DashboardLayout>
+  );
+}
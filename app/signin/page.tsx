@@ -1,7 +1,7 @@
 'use client';
 
 import Link from 'next/link';
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { signInWithPopup, GoogleAuthProvider, signInWithEmailAndPassword } from 'firebase/auth';
 import { auth } from '@/lib/firebase';
 import { AuthLayout } from '@/components/auth/auth-layout';
@@ -12,6 +12,7 @@ import { useAuth } from '@/hooks/use-auth';
 import { useRouter } from 'next/navigation';
 import { EyeIcon, EyeOffIcon, Loader2 } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { resumeSession, startSession } from '@/utils/session';
 
 export default function SignInPage() {
   const router = useRouter();
@@ -21,9 +22,18 @@ export default function SignInPage() {
   const [error, setError] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const isSigningIn = useRef(false);
+
+  // Already signed in on this device: refresh the session cookie and move on
+  useEffect(() => {
+    if (!user || isSigningIn.current || !auth.currentUser) return;
+
+    resumeSession(auth.currentUser).then((resumed) => {
+      if (resumed) router.push('/dashboard');
+    });
+  }, [user]);
 
   if (user) {
-    router.push('/dashboard');
     return null;
   }
 
@@ -51,14 +61,17 @@ export default function SignInPage() {
     e.preventDefault();
     setError('');
     setIsLoading(true);
+    isSigningIn.current = true;
 
     try {
-      await signInWithEmailAndPassword(auth, email, password);
+      const { user } = await signInWithEmailAndPassword(auth, email, password);
+      await startSession(user);
       router.push('/dashboard');
     } catch (error: any) {
       const errorCode = error.code;
       const errorMessage = getErrorMessage(errorCode);
       setError(errorMessage);
+      isSigningIn.current = false;
     } finally {
       setIsLoading(false);
     }
@@ -66,14 +79,17 @@ export default function SignInPage() {
 
   const handleGoogleSignIn = async () => {
     const provider = new GoogleAuthProvider();
+    isSigningIn.current = true;
 
     try {
-      await signInWithPopup(auth, provider);
+      const { user } = await signInWithPopup(auth, provider);
+      await startSession(user);
       router.push('/dashboard');
     } catch (error: any) {
       const errorCode = error.code;
       const errorMessage = getErrorMessage(errorCode);
       setError(errorMessage);
+      isSigningIn.current = false;
     }
   };
 
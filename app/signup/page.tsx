@@ -15,6 +15,8 @@ import { Loader2, EyeIcon, EyeOffIcon, ChevronDown } from "lucide-react"
 import { useAuth } from "@/hooks/use-auth"
 import { useRouter } from "next/navigation"
 import { motion } from "framer-motion"
+import { sendVerificationEmail, startSession } from "@/utils/session"
+import { captureReferral, claimReferral } from "@/utils/referrals"
 import { useState } from "react"
 
 interface Country {
@@ -203,8 +205,10 @@ export default function SignUpPage() {
   const [countries, setCountries] = useState<Country[]>([])
   const [loading, setLoading] = useState(true)
   const [isLoading, setIsLoading] = useState(false)
+  const isSigningUp = useRef(false)
 
   useEffect(() => {
+    captureReferral()
     fetchCountries()
   }, [])
 
@@ -291,7 +295,8 @@ export default function SignUpPage() {
   }
 
   if (user) {
-    router.push("/dashboard")
+    // Mid-signup the handlers redirect once the session cookie is set
+    if (!isSigningUp.current) router.push("/dashboard")
     return null
   }
 
@@ -316,6 +321,8 @@ export default function SignUpPage() {
       return
     }
 
+    isSigningUp.current = true
+
     try {
       const userCredential = await createUserWithEmailAndPassword(auth, email, password)
       const user = userCredential.user
@@ -336,15 +343,23 @@ export default function SignUpPage() {
         createdAt: new Date().toISOString(),
       })
 
+      await startSession(user)
+      await claimReferral()
+      // A failed welcome email never blocks signup
+      await sendVerificationEmail({ welcome: true }).catch(error =>
+        console.error("Error sending welcome email:", error)
+      )
       router.push("/dashboard")
     } catch (error: any) {
       setError(error.message)
       setIsLoading(false)
+      isSigningUp.current = false
     }
   }
 
   const handleGoogleSignUp = async () => {
     const provider = new GoogleAuthProvider()
+    isSigningUp.current = true
     try {
       const result = await signInWithPopup(auth, provider)
       const user = result.user
@@ -355,9 +370,16 @@ export default function SignUpPage() {
         createdAt: new Date().toISOString(),
       })
 
+      await startSession(user)
+      await claimReferral()
+      // A failed welcome email never blocks signup
+      await sendVerificationEmail({ welcome: true }).catch(error =>
+        console.error("Error sending welcome email:", error)
+      )
       router.push("/dashboard")
     } catch (error: any) {
       setError(error.message)
+      isSigningUp.current = false
     }
   }
 
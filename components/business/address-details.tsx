@@ -2,6 +2,7 @@ import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { addressSchema } from "@/lib/business-schema"
 
 const countries = [
   { id: "af", name: "Afghanistan" },
@@ -224,10 +225,18 @@ export function AddressDetails({ onNext, onBack, initialData }: AddressDetailsPr
   const [state, setState] = useState(initialData?.state || "")
   const [postalCode, setPostalCode] = useState(initialData?.postalCode || "")
   const [country, setCountry] = useState(initialData?.country || "") // Store country name here
+  const [validationMessage, setValidationMessage] = useState("")
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    onNext({ street, city, state, postalCode, country }) // Pass country name to onNext
+    const result = addressSchema.safeParse({ street, city, state, postalCode, country })
+    if (!result.success) {
+      setValidationMessage(result.error.issues[0].message)
+      return
+    }
+
+    setValidationMessage("")
+    onNext(result.data) // Pass country name to onNext
   }
 
   return (
@@ -307,6 +316,12 @@ export function AddressDetails({ onNext, onBack, initialData }: AddressDetailsPr
           </div>
         </div>
 
+        {validationMessage && (
+          <p className="text-sm text-orange-600 bg-orange-50 p-2 rounded-md border border-orange-200">
+            {validationMessage}
+          </p>
+        )}
+
         {/* Back and Continue Buttons */}
         <div className="flex justify-center gap-4 pt-4">
           <Button type="button" variant="outline" onClick={onBack} className="px-8">
@@ -2,21 +2,8 @@ import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-
-const getCompanyTypes = (country?: string) => {
-  switch (country) {
-    case "United Kingdom":
-      return [
-        { id: "ltd", name: "Private Limited Company (LTD)" },
-        { id: "limited", name: "Public Limited Company (LIMITED)" },
-      ]
-    default:
-      return [
-        { id: "llc", name: "Limited Liability Company (LLC)" },
-        { id: "l.l.c", name: "Limited Liability Company (L.L.C.)" },
-      ]
-  }
-}
+import { companySchema } from "@/lib/business-schema"
+import { getCompanyTypes } from "@/lib/jurisdictions"
 
 const industries = [
   // Agriculture, Forestry, Fishing and Hunting
@@ -99,12 +86,12 @@ export function CompanyDetails({ onNext, onBack, initialData, country }: Company
 
   const companyTypes = getCompanyTypes(country)
 
+  // Same rules the admin API applies to company names
   const validateCompanyName = (value: string) => {
-    // Regular expression to check for any symbols except '&'
-    const invalidSymbolsRegex = /[^a-zA-Z0-9\s&]/
+    const result = companySchema.shape.name.safeParse(value)
 
-    if (invalidSymbolsRegex.test(value)) {
-      setNameError("Only letters, numbers, spaces, and '&' symbol are allowed")
+    if (!result.success) {
+      setNameError(result.error.issues[0].message)
       return false
     }
 
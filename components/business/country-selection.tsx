@@ -2,32 +2,16 @@ import { useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Check } from "lucide-react"
-
-const countries = [
-  {
-    id: "us",
-    name: "United States",
-    code: "us",
-    processingTime: "5-7 business days",
-    features: ["LLC/Corporation Formation", "EIN Registration", "Registered Agent (1 year)", "Operating Agreement"],
-  },
-  {
-    id: "uk",
-    name: "United Kingdom",
-    code: "gb",
-    processingTime: "3-5 business days",
-    features: ["Limited Company Formation", "VAT Registration", "Company Secretary", "Articles of Association"],
-  },
-]
+import { JURISDICTIONS } from "@/lib/jurisdictions"
 
 interface CountrySelectionProps {
-  onNext: (country: (typeof countries)[0]) => void
+  onNext: (country: { id: string; name: string }) => void
   initialData?: { name: string }
 }
 
 export function CountrySelection({ onNext, initialData }: CountrySelectionProps) {
   const [selectedCountry, setSelectedCountry] = useState<string | null>(
-    initialData ? countries.find((c) => c.name === initialData.name)?.id || null : null,
+    initialData ? JURISDICTIONS.find((c) => c.name === initialData.name)?.id || null : null,
   )
 
   return (
@@ -42,7 +26,7 @@ export function CountrySelection({ onNext, initialData }: CountrySelectionProps)
       </div>
 
       <div className="grid gap-6 md:grid-cols-2">
-        {countries.map((country) => (
+        {JURISDICTIONS.map((country) => (
           <Card
             key={country.id}
             className={`cursor-pointer transition-all relative overflow-hidden group h-full ${
@@ -55,7 +39,7 @@ export function CountrySelection({ onNext, initialData }: CountrySelectionProps)
             <div
               className="absolute inset-0 opacity-5 group-hover:opacity-10 transition-opacity"
               style={{
-                backgroundImage: `url(https://flagcdn.com/w640/${country.code.toLowerCase()}.png)`,
+                backgroundImage: `url(https://flagcdn.com/w640/${country.flagCode}.png)`,
                 backgroundSize: "cover",
                 backgroundPosition: "center",
                 transform: "scale(1.2)",
@@ -67,7 +51,7 @@ export function CountrySelection({ onNext, initialData }: CountrySelectionProps)
               <CardTitle className="flex items-center min-h-[28px]">
                 <div className="flex items-center gap-2 flex-1">
                   <img
-                    src={`https://flagcdn.com/24x18/${country.code.toLowerCase()}.png`}
+                    src={`https://flagcdn.com/24x18/${country.flagCode}.png`}
                     alt={`${country.name} flag`}
                     className="w-6 h-auto rounded shadow-sm flex-shrink-0"
                   />
@@ -86,7 +70,7 @@ export function CountrySelection({ onNext, initialData }: CountrySelectionProps)
               <div className="space-y-4">
                 <div className="text-sm text-gray-500">Processing time: {country.processingTime}</div>
                 <ul className="space-y-2">
-                  {country.features.map((feature) => (
+                  {country.highlights.map((feature) => (
                     <li key={feature} className="flex items-center gap-2">
                       <div className="bg-green-100 p-1 rounded-full flex-shrink-0">
                         <Check className="h-4 w-4 text-green-600" />
@@ -105,7 +89,10 @@ export function CountrySelection({ onNext, initialData }: CountrySelectionProps)
         <Button
           className="px-8 bg-[#3659fb] hover:bg-[#4b6bff] text-white transition-colors duration-200"
           disabled={!selectedCountry}
-          onClick={() => onNext(countries.find((c) => c.id === selectedCountry)!)}
+          onClick={() => {
+            const country = JURISDICTIONS.find((c) => c.id === selectedCountry)!
+            onNext({ id: country.id, name: country.name })
+          }}
         >
           Continue
         </Button>
@@ -0,0 +1,58 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronUp, History } from "lucide-react";
+import { formatFileSize, getDocumentUrl, type DocumentRecord } from "@/lib/documents";
+
+interface DocumentVersionsProps {
+  // One document type's versions, newest first
+  versions?: DocumentRecord[];
+  // The version the business currently shows, left out of the list
+  currentId?: string;
+  // Admins see who uploaded each version
+  showUploader?: boolean;
+}
+
+// Collapsible list of a document's previous versions
+export function DocumentVersions({ versions = [], currentId, showUploader = false }: DocumentVersionsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const previous = versions.filter(version => version.id !== currentId);
+
+  if (previous.length === 0) return null;
+
+  return (
+    <div className="mt-2 text-sm">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-1 text-gray-500 hover:text-gray-700"
+      >
+        <History className="h-4 w-4" />
+        {previous.length} previous version{previous.length === 1 ? "" : "s"}
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+
+      {isOpen && (
+        <ol className="mt-2 space-y-1 border-l-2 border-gray-200 pl-3">
+          {previous.map(version => (
+            <li key={version.id} className="flex flex-wrap items-center gap-x-2 text-gray-600">
+              <span className="font-medium">v{version.version}</span>
+              <a
+                href={getDocumentUrl(version.id)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-indigo-600 hover:text-indigo-800 truncate max-w-[200px]"
+              >
+                {version.name}
+              </a>
+              <span className="text-gray-400">
+                {new Date(version.uploadedAt).toLocaleDateString()} • {formatFileSize(version.size)}
+                {showUploader && ` • ${version.uploadedBy?.email || "Unknown uploader"}`}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import {
+  BUSINESS_EVENT_LABELS,
+  type BusinessEvent,
+  type FieldChange
+} from "@/lib/business-events";
+
+interface EventTimelineProps {
+  events: BusinessEvent[];
+}
+
+// Short display form of a changed value
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") {
+    const seconds = (value as any).seconds ?? (value as any)._seconds;
+    if (typeof seconds === "number") return new Date(seconds * 1000).toLocaleString();
+    value = Array.isArray(value) ? `${value.length} item${value.length === 1 ? "" : "s"}` : JSON.stringify(value);
+  }
+  const text = String(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function ChangeList({ changes }: { changes: Record<string, FieldChange> }) {
+  const entries = Object.entries(changes || {});
+  if (entries.length === 0) return null;
+
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+      {entries.map(([field, change]) => (
+        <li key={field} className="break-all">
+          <span className="font-mono text-gray-500">{field}</span>
+          {": "}
+          <span className="line-through text-gray-400">{formatValue(change.before)}</span>
+          {" → "}
+          <span>{formatValue(change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Audit trail of a business, newest first
+export function EventTimeline({ events }: EventTimelineProps) {
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No activity recorded yet</p>;
+  }
+
+  return (
+    <ol className="space-y-4">
+      {events.map((event) => {
+        const seconds = event.createdAt?.seconds ?? event.createdAt?._seconds;
+
+        return (
+          <li key={event.id} className="flex items-start gap-3 text-sm">
+            <div className="mt-1.5 h-2 w-2 rounded-full bg-indigo-600 flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="font-medium">
+                {BUSINESS_EVENT_LABELS[event.type] || event.type}
+              </p>
+              <p className="text-gray-500">
+                {seconds ? new Date(seconds * 1000).toLocaleString() : ""}
+                {` • ${event.actor ? `${event.actor.email || event.actor.uid} (${event.actor.role})` : "System"}`}
+                {event.reason && ` • ${event.reason}`}
+              </p>
+              <ChangeList changes={event.changes} />
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -2,9 +2,13 @@ import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Plus, Trash2, FileUp, Loader2 } from "lucide-react"
 import { useAuth } from "@/hooks/use-auth"
 import { uploadDocument, deleteDocument } from "@/utils/firebase"
+import { getOwnersSchema } from "@/lib/business-schema"
+import { getOwnerFields } from "@/lib/jurisdictions"
+import { getDocumentUrl } from "@/lib/documents"
 
 interface Owner {
   id: string
@@ -13,21 +17,24 @@ interface Owner {
   isCEO?: boolean
   birthDate?: string
   document?: File | null
-  documentUrl?: string
+  documentId?: string
   documentName?: string
+  details?: Record<string, string>
 }
 
 interface OwnerInformationProps {
+  country?: string
   onNext: (owners: Owner[]) => void
   onBack: () => void
   initialData?: Owner[]
 }
 
-export function OwnerInformation({ onNext, onBack, initialData }: OwnerInformationProps) {
+export function OwnerInformation({ country, onNext, onBack, initialData }: OwnerInformationProps) {
   const [owners, setOwners] = useState<Owner[]>(initialData || [{ id: "1", fullName: "", ownership: "" }])
   const [validationMessage, setValidationMessage] = useState<string>("")
   const [uploadingFiles, setUploadingFiles] = useState<{ [key: string]: boolean }>({})
   const { user } = useAuth()
+  const ownerFields = getOwnerFields(country)
 
   const addOwner = () => {
     setOwners(prev => [
@@ -84,6 +91,12 @@ export function OwnerInformation({ onNext, onBack, initialData }: OwnerInformati
     }));
   };
 
+  const updateOwnerDetail = (id: string, key: string, value: string) => {
+    setOwners(prev => prev.map(owner =>
+      owner.id === id ? { ...owner, details: { ...owner.details, [key]: value } } : owner
+    ))
+  }
+
   const handleFileChange = async (id: string, event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (!file || !user) return
@@ -104,25 +117,25 @@ export function OwnerInformation({ onNext, onBack, initialData }: OwnerInformati
 
     try {
       const currentOwner = owners.find(owner => owner.id === id)
-      const currentDocumentUrl = currentOwner?.documentUrl
+      const currentDocumentId = currentOwner?.documentId
 
-      if (currentDocumentUrl) {
+      if (currentDocumentId) {
         try {
-          await deleteDocument(currentDocumentUrl)
+          await deleteDocument(currentDocumentId)
         } catch (error) {
           console.error("Error deleting old document:", error)
         }
       }
 
-      const documentUrl = await uploadDocument(user.uid, file)
+      const uploaded = await uploadDocument(file)
       
       setOwners(prev => prev.map(owner => {
         if (owner.id === id) {
           return {
             ...owner,
             document: file,
-            documentUrl: documentUrl,
-            documentName: file.name
+            documentId: uploaded.id,
+            documentName: uploaded.name
           }
         }
         return owner
@@ -130,55 +143,19 @@ export function OwnerInformation({ onNext, onBack, initialData }: OwnerInformati
 
     } catch (error) {
       console.error("Error uploading file:", error)
-      alert("There was an error uploading your file")
+      alert(error instanceof Error ? error.message : "There was an error uploading your file")
     } finally {
       setUploadingFiles(prev => ({ ...prev, [id]: false }))
     }
   }
 
+  // Same rules the admin API applies to owners
   const validateOwners = (): boolean => {
-    const totalOwnership = owners.reduce((sum, owner) => sum + (Number(owner.ownership) || 0), 0)
+    const result = getOwnersSchema(country).safeParse(owners.map(({ document, ...owner }) => owner))
 
-    if (totalOwnership < 100) {
-      const remaining = 100 - totalOwnership
-      setValidationMessage(`Total ownership is ${totalOwnership}%. You need ${remaining}% more to reach 100%.`)
+    if (!result.success) {
+      setValidationMessage(result.error.issues[0].message)
       return false
-    } else if (totalOwnership > 100) {
-      const excess = totalOwnership - 100
-      setValidationMessage(`Total ownership is ${totalOwnership}%. Please reduce by ${excess}% to equal 100%.`)
-      return false
-    }
-
-    if (owners.length === 1) {
-      const owner = owners[0]
-      if (!owner.birthDate) {
-        setValidationMessage("Please enter the birth date")
-        return false
-      }
-      
-      if (!owner.documentUrl) {
-        setValidationMessage("Please upload an identification document")
-        return false
-      }
-    } else {
-      const ceoCount = owners.filter((owner) => owner.isCEO).length
-      if (ceoCount !== 1) {
-        setValidationMessage("Please designate exactly one owner as CEO")
-        return false
-      }
-
-      const ceo = owners.find((owner) => owner.isCEO)
-      if (ceo) {
-        if (!ceo.birthDate) {
-          setValidationMessage("Please enter the CEO's birth date")
-          return false
-        }
-        
-        if (!ceo.documentUrl) {
-          setValidationMessage("Please upload the CEO's identification document")
-          return false
-        }
-      }
     }
 
     setValidationMessage("")
@@ -268,6 +245,36 @@ export function OwnerInformation({ onNext, onBack, initialData }: OwnerInformati
               />
             </div>
 
+            {ownerFields.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <label className="text-sm font-medium">{field.label}</label>
+                {field.options ? (
+                  <Select
+                    required
+                    value={owner.details?.[field.key] || ""}
+                    onValueChange={(value) => updateOwnerDetail(owner.id, field.key, value)}
+                  >
+                    <SelectTrigger className="border-gray-200 focus:border-indigo-600 focus:ring-indigo-600">
+                      <SelectValue placeholder={field.placeholder || "Select an option"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {field.options.map((option) => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    required
+                    value={owner.details?.[field.key] || ""}
+                    onChange={(e) => updateOwnerDetail(owner.id, field.key, e.target.value)}
+                    placeholder={field.placeholder || `Enter ${field.label.toLowerCase()}`}
+                    className="border-gray-200 focus:border-indigo-600 focus:ring-indigo-600"
+                  />
+                )}
+              </div>
+            ))}
+
             {(owners.length === 1 || owner.isCEO) && (
               <div className="space-y-4 pt-2 border-t">
                 <div className="space-y-2">
@@ -293,7 +300,7 @@ export function OwnerInformation({ onNext, onBack, initialData }: OwnerInformati
                   <div className="mt-2 p-4 bg-gray-50 border border-gray-200 rounded-lg">
                     <div className="flex items-center space-x-2">
                       <Input
-                        required={!owner.documentUrl}
+                        required={!owner.documentId}
                         type="file"
                         accept=".pdf,.jpg,.jpeg,.png"
                         onChange={(e) => handleFileChange(owner.id, e)}
@@ -310,9 +317,9 @@ export function OwnerInformation({ onNext, onBack, initialData }: OwnerInformati
                     {owner.documentName && (
                       <div className="mt-2 flex items-center justify-between text-sm text-gray-600">
                         <span>Current file: {owner.documentName}</span>
-                        {owner.documentUrl && (
+                        {owner.documentId && (
                           <a
-                            href={owner.documentUrl}
+                            href={getDocumentUrl(owner.documentId)}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-indigo-600 hover:text-indigo-700"
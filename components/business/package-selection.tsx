@@ -2,163 +2,29 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Check, Rocket, Plane, ScrollText, ArrowLeft } from "lucide-react";
-
-interface Feature {
-  name: string;
-  included: boolean;
-}
-
-interface Package {
-  id: string;
-  name: string;
-  price: number;
-  subtitle: string;
-  plan: string;
-  priceNote?: string;
-  description?: string;
-  recommended?: boolean;
-  features: Feature[];
-}
-
-type CountryPackages = {
-  "United States": Package[];
-  "United Kingdom": Package[];
-};
-
-const countryPackages: CountryPackages = {
-  "United States": [
-    {
-      id: "basic",
-      name: "basic",
-      price: 129,
-      subtitle: "For the small",
-      plan: "Basic",
-      description: "Essential features for small businesses",
-      priceNote: "+ State Fees",
-      features: [
-        { name: "Articles of Organization", included: true },
-        { name: "EIN Business Tax Number", included: true },
-        { name: "Lifetime Compliance Alerts", included: true },
-        { name: "Business Banking Account Offer", included: true },
-        { name: "US Address with Mail forwarding", included: true },
-        { name: "Business Tax Consultation", included: true },
-        { name: "Incorporation documents", included: true },
-      ],
-    },
-    {
-      id: "growth",
-      name: "growth",
-      price: 159,
-      subtitle: "For startups",
-      plan: "Growth",
-      description: "Advanced features for growing businesses",
-      priceNote: "+ State Fees",
-      recommended: true,
-      features: [
-        { name: "Order priority", included: true },
-        { name: "Articles of Organization", included: true },
-        { name: "Fast EIN Business Tax Number", included: true },
-        { name: "BOI Reporting", included: true },
-        { name: "Lifetime Compliance Alerts", included: true },
-        { name: "Business Banking Account Offer", included: true },
-        { name: "Business Tax Consultation", included: true },
-        { name: "Incorporation documents", included: true },
-      ],
-    },
-    {
-      id: "enterprise",
-      name: "enterprise",
-      price: 599,
-      subtitle: "For business",
-      plan: "Enterprise",
-      description: "Complete solution for established businesses",
-      priceNote: "+ State Fees",
-      features: [
-        { name: "Order priority", included: true },
-        { name: "Articles of Organization", included: true },
-        { name: "Fast EIN Business Tax Number", included: true },
-        { name: "BOI Reporting", included: true },
-        { name: "Lifetime Compliance Alerts", included: true },
-        { name: "Business Banking Account Offer", included: true },
-        { name: "Incorporation documents", included: true },
-        { name: "ITIN Number", included: true },
-        { name: "DUNS Number", included: true },
-      ],
-    },
-  ],
-  "United Kingdom": [
-    {
-      id: "basic",
-      name: "basic",
-      price: 99,
-      subtitle: "For the small",
-      plan: "Basic",
-      description: "Essential features for small businesses",
-      features: [
-        { name: "Company formation and documents", included: true },
-        { name: "Registered office address", included: true },
-        { name: "Bank account: Stripe + payoneer", included: true },
-        { name: "Certificate of Incorporation", included: true },
-        { name: "Lifetime Compliance Alerts", included: true },
-      ],
-    },
-    {
-      id: "growth",
-      name: "growth",
-      price: 197,
-      subtitle: "For startups",
-      plan: "Growth",
-      description: "Advanced features for growing businesses",
-      recommended: true,
-      features: [
-        { name: "Order priority", included: true },
-        { name: "Company formation and documents", included: true },
-        { name: "FREE UK Business Address", included: true },
-        { name: "Bank account: Stripe + payoneer", included: true },
-        { name: "Certificate of Incorporation", included: true },
-        { name: "Priority customer support", included: true },
-      ],
-    },
-    {
-      id: "enterprise",
-      name: "enterprise",
-      price: 207,
-      subtitle: "For business",
-      plan: "Enterprise",
-      description: "Complete solution for established businesses",
-      features: [
-        { name: "Order priority", included: true },
-        { name: "FREE UK Phone number", included: true },
-        { name: "FREE UK Business Address", included: true },
-        { name: "Company formation and documents", included: true },
-        { name: "Bank account: Stripe + payoneer", included: true },
-        { name: "Certificate of Incorporation", included: true },
-        { name: "Priority customer support", included: true },
-      ],
-    },
-  ],
-};
+import type { Package } from "@/lib/jurisdictions";
+import { formatPrice, getCurrency, getPricedPackages, type PriceVersion } from "@/lib/pricing";
 
 interface PackageSelectionProps {
   onNext: (pkg: Package) => void;
   onBack: () => void;
   initialData?: { name: string; price: number };
   selectedCountry?: string;
+  priceVersion: PriceVersion;
 }
 
 export function PackageSelection({
   onNext,
   onBack,
   initialData,
-  selectedCountry = "United States",
+  selectedCountry,
+  priceVersion,
 }: PackageSelectionProps) {
   const [selectedPackage, setSelectedPackage] = useState<string | null>(null);
   const [hoveredPackage, setHoveredPackage] = useState<string | null>(null);
 
-  const packages =
-    selectedCountry === "United Kingdom"
-      ? countryPackages["United Kingdom"]
-      : countryPackages["United States"];
+  const packages = getPricedPackages(priceVersion, selectedCountry) ?? [];
+  const currency = getCurrency(priceVersion, selectedCountry);
 
   useEffect(() => {
     if (initialData) {
@@ -239,7 +105,7 @@ export function PackageSelection({
               <div>
                 <div className="flex items-baseline gap-2">
                   <span className="text-4xl font-bold text-gray-900">
-                    ${pkg.price}
+                    {formatPrice(pkg.price, currency)}
                   </span>
                   {pkg.priceNote && (
                     <span className="text-gray-500 text-sm">{pkg.priceNote}</span>
@@ -7,16 +7,19 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { CreditCard, Loader2 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { loadStripe } from "@stripe/stripe-js";
-import { saveBusinessDraft } from "@/utils/firebase";
+import { authFetch } from "@/utils/auth-fetch";
+import { formatPrice } from "@/lib/pricing";
 
 const stripePromise = loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!);
 
 interface PaymentProps {
   amount: number;
-  businessData: any;
+  currency: string;
+  // Saves any pending wizard changes and resolves to the draft's ID
+  prepareCheckout: () => Promise<string>;
 }
 
-export function Payment({ amount, businessData }: PaymentProps) {
+export function Payment({ amount, currency, prepareCheckout }: PaymentProps) {
   const [isLoading, setIsLoading] = useState(false);
   const { user } = useAuth();
   const router = useRouter();
@@ -26,19 +29,19 @@ export function Payment({ amount, businessData }: PaymentProps) {
 
     setIsLoading(true);
     try {
-      const businessId = await saveBusinessDraft(user.uid, businessData);
+      const businessId = await prepareCheckout();
 
-      const response = await fetch("/api/create-checkout-session", {
+      const response = await authFetch("/api/create-checkout-session", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          amount,
-          businessId,
-          userId: user.uid
-        }),
+        body: JSON.stringify({ businessId }),
       });
 
-      if (!response.ok) throw new Error("Failed to create checkout session");
+      if (!response.ok) {
+        // e.g. a promo code that expired since it was applied
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "processing_failed");
+      }
 
       const { sessionId } = await response.json();
       const stripe = await stripePromise;
@@ -55,7 +58,8 @@ export function Payment({ amount, businessData }: PaymentProps) {
 
     } catch (error) {
       console.error("Payment failed:", error);
-      router.push("/dashboard/business?payment_error=processing_failed");
+      const message = error instanceof Error ? error.message : "processing_failed";
+      router.push(`/dashboard/business?payment_error=${encodeURIComponent(message)}`);
     } finally {
       setIsLoading(false);
     }
@@ -75,7 +79,7 @@ export function Payment({ amount, businessData }: PaymentProps) {
           <CardTitle className="text-center text-xl">Payment Summary</CardTitle>
         </CardHeader>
         <CardContent className="text-center">
-          <p className="text-4xl font-bold text-indigo-600">${amount}</p>
+          <p className="text-4xl font-bold text-indigo-600">{formatPrice(amount, currency)}</p>
           <p className="text-sm text-gray-500 mt-1">One-time registration fee</p>
         </CardContent>
       </Card>
@@ -1,7 +1,12 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Globe, Package, Building2, Users, MapPin, FileText } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Globe, Package, Building2, Users, MapPin, FileText, Tag, Loader2, X } from "lucide-react";
+import { getOwnerFields, getSubdivisionStep } from "@/lib/jurisdictions";
+import { formatPrice } from "@/lib/pricing";
+import { getDocumentUrl } from "@/lib/documents";
+import type { PromoCodePreview } from "@/lib/promo-codes";
 
 interface Owner {
   id: string;
@@ -10,8 +15,9 @@ interface Owner {
   isCEO?: boolean;
   birthDate?: string;
   document?: File | null;
-  documentUrl?: string;
+  documentId?: string;
   documentName?: string;
+  details?: Record<string, string>;
 }
 
 interface ReviewProps {
@@ -42,12 +48,33 @@ interface ReviewProps {
     };
     totalPrice: number;
   };
+  currency: string;
+  promo: PromoCodePreview | null;
+  promoError: string | null;
+  // Rejects with a customer-facing message when the code cannot be used
+  onApplyPromoCode: (code: string) => Promise<void>;
+  onRemovePromoCode: () => void;
   onNext: () => void;
   onBack: () => void;
   onEdit: (step: number) => void;
 }
 
-export function Review({ data, onNext, onBack, onEdit }: ReviewProps) {
+export function Review({
+  data,
+  currency,
+  promo,
+  promoError,
+  onApplyPromoCode,
+  onRemovePromoCode,
+  onNext,
+  onBack,
+  onEdit
+}: ReviewProps) {
+  const [promoInput, setPromoInput] = useState("");
+  const [applyError, setApplyError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const subdivision = getSubdivisionStep(data.country?.name);
+  const ownerFields = getOwnerFields(data.country?.name);
   const missingFields = [];
   if (!data.country) missingFields.push("Country");
   if (!data.package) missingFields.push("Package");
@@ -55,6 +82,21 @@ export function Review({ data, onNext, onBack, onEdit }: ReviewProps) {
   if (!data.owner) missingFields.push("Owner Information");
   if (!data.address) missingFields.push("Address Details");
 
+  const handleApplyPromoCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsApplying(true);
+    setApplyError(null);
+
+    try {
+      await onApplyPromoCode(promoInput);
+      setPromoInput("");
+    } catch (error) {
+      setApplyError(error instanceof Error ? error.message : "Failed to apply promo code");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
   if (missingFields.length > 0) {
     return (
       <div className="text-center max-w-xl mx-auto">
@@ -91,14 +133,59 @@ export function Review({ data, onNext, onBack, onEdit }: ReviewProps) {
           <CardTitle className="text-center text-xl">Total Cost</CardTitle>
         </CardHeader>
         <CardContent className="text-center">
-          <p className="text-4xl font-bold text-indigo-600">${data.totalPrice}</p>
+          {promo && (
+            <p className="text-lg text-gray-400 line-through">{formatPrice(data.totalPrice, currency)}</p>
+          )}
+          <p className="text-4xl font-bold text-indigo-600">
+            {formatPrice(promo ? promo.total / 100 : data.totalPrice, currency)}
+          </p>
           <div className="space-y-1 mt-2">
-            <p className="text-sm text-gray-500">Package fee: ${data.package.price}</p>
+            <p className="text-sm text-gray-500">Package fee: {formatPrice(data.package.price, currency)}</p>
             {data.state?.price && (
-              <p className="text-sm text-gray-500">State registration fee: ${data.state.price}</p>
+              <p className="text-sm text-gray-500">
+                {subdivision?.feeLabel || "State fee"}: {formatPrice(data.state.price, currency)}
+              </p>
+            )}
+            {promo && (
+              <p className="text-sm text-green-700">
+                Promo code {promo.code} ({promo.label}): -{formatPrice(promo.discount / 100, currency)}
+              </p>
             )}
           </div>
           <p className="text-sm text-gray-500 mt-1">One-time fee</p>
+
+          <div className="mt-4 max-w-sm mx-auto">
+            {promo ? (
+              <div className="flex items-center justify-center gap-2 text-sm">
+                <Tag className="h-4 w-4 text-green-600" />
+                <span className="font-medium">{promo.code}</span>
+                <button
+                  type="button"
+                  onClick={onRemovePromoCode}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove promo code"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ) : (
+              <form onSubmit={handleApplyPromoCode} className="flex gap-2">
+                <Input
+                  value={promoInput}
+                  onChange={(e) => setPromoInput(e.target.value)}
+                  placeholder="Promo code"
+                  className="bg-white uppercase"
+                />
+                <Button type="submit" variant="outline" disabled={!promoInput.trim() || isApplying}>
+                  {isApplying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Apply
+                </Button>
+              </form>
+            )}
+            {(applyError || (!promo && promoError)) && (
+              <p className="text-sm text-red-600 mt-2">{applyError || promoError}</p>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -155,7 +242,7 @@ export function Review({ data, onNext, onBack, onEdit }: ReviewProps) {
               </div>
               <div>
                 <dt className="text-sm font-medium text-gray-500">Price</dt>
-                <dd className="mt-1 font-medium">${data.package.price}</dd>
+                <dd className="mt-1 font-medium">{formatPrice(data.package.price, currency)}</dd>
               </div>
             </dl>
           </CardContent>
@@ -196,14 +283,14 @@ export function Review({ data, onNext, onBack, onEdit }: ReviewProps) {
           </CardContent>
         </Card>
 
-        {/* State Details (US Only) */}
+        {/* Subdivision Details (countries with a subdivision step) */}
         {data.state && (
           <Card className="hover:shadow-md transition-shadow">
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
                 <span className="flex items-center gap-2">
                   <MapPin className="h-5 w-5 text-indigo-600" />
-                  State Registration
+                  {subdivision?.label || "State"} Registration
                 </span>
                 <Button
                   variant="ghost"
@@ -217,12 +304,12 @@ export function Review({ data, onNext, onBack, onEdit }: ReviewProps) {
             <CardContent>
               <dl className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                 <div>
-                  <dt className="text-sm font-medium text-gray-500">Selected State</dt>
+                  <dt className="text-sm font-medium text-gray-500">Selected {subdivision?.label || "State"}</dt>
                   <dd className="mt-1 font-medium">{data.state.name}</dd>
                 </div>
                 <div>
-                  <dt className="text-sm font-medium text-gray-500">State Fee</dt>
-                  <dd className="mt-1 font-medium">${data.state.price}</dd>
+                  <dt className="text-sm font-medium text-gray-500">{subdivision?.feeLabel || "State Fee"}</dt>
+                  <dd className="mt-1 font-medium">{formatPrice(data.state.price, currency)}</dd>
                 </div>
               </dl>
             </CardContent>
@@ -262,6 +349,12 @@ export function Review({ data, onNext, onBack, onEdit }: ReviewProps) {
                       <dt className="text-sm font-medium text-gray-500">Ownership</dt>
                       <dd className="mt-1 font-medium">{owner.ownership}%</dd>
                     </div>
+                    {ownerFields.map((field) => (
+                      <div key={field.key}>
+                        <dt className="text-sm font-medium text-gray-500">{field.label}</dt>
+                        <dd className="mt-1 font-medium">{owner.details?.[field.key] || "Not provided"}</dd>
+                      </div>
+                    ))}
                     {(owner.isCEO || data.owner.length === 1) && (
                       <>
                         <div>
@@ -281,9 +374,9 @@ export function Review({ data, onNext, onBack, onEdit }: ReviewProps) {
                                     ? owner.documentName.slice(0, 25) + "..." + owner.documentName.split(".").pop()
                                     : owner.documentName}
                                 </span>
-                                {owner.documentUrl && (
+                                {owner.documentId && (
                                   <a
-                                    href={owner.documentUrl}
+                                    href={getDocumentUrl(owner.documentId)}
                                     target="_blank"
                                     rel="noopener noreferrer"
                                     className="text-indigo-600 hover:text-indigo-700 text-sm"
@@ -0,0 +1,21 @@
+import { cn } from "@/lib/utils";
+import {
+  BUSINESS_STATUS_COLORS,
+  BUSINESS_STATUS_LABELS,
+  normalizeStatus
+} from "@/lib/business-lifecycle";
+
+interface StatusBadgeProps {
+  status: unknown;
+  className?: string;
+}
+
+export function StatusBadge({ status, className }: StatusBadgeProps) {
+  const normalized = normalizeStatus(status);
+
+  return (
+    <span className={cn("px-3 py-1 rounded-full text-sm", BUSINESS_STATUS_COLORS[normalized], className)}>
+      {BUSINESS_STATUS_LABELS[normalized]}
+    </span>
+  );
+}
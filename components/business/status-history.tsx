@@ -0,0 +1,45 @@
+import { BUSINESS_STATUS_LABELS, normalizeStatus } from "@/lib/business-lifecycle";
+
+export interface StatusHistoryEntry {
+  from: string;
+  to: string;
+  reason?: string;
+  actor?: { email: string } | null;
+  changedAt: { seconds?: number; _seconds?: number };
+}
+
+interface StatusHistoryProps {
+  history?: StatusHistoryEntry[];
+  // Admins see who made each change
+  showActor?: boolean;
+}
+
+export function StatusHistory({ history = [], showActor = false }: StatusHistoryProps) {
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">No status changes yet</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {[...history].reverse().map((entry, index) => {
+        const seconds = entry.changedAt?.seconds ?? entry.changedAt?._seconds;
+
+        return (
+          <li key={index} className="flex items-start gap-3 text-sm">
+            <div className="mt-1.5 h-2 w-2 rounded-full bg-indigo-600 flex-shrink-0" />
+            <div>
+              <p className="font-medium">
+                {BUSINESS_STATUS_LABELS[normalizeStatus(entry.to)]}
+              </p>
+              <p className="text-gray-500">
+                {seconds ? new Date(seconds * 1000).toLocaleString() : ""}
+                {entry.reason && ` • ${entry.reason}`}
+                {showActor && ` • ${entry.actor?.email || "System"}`}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
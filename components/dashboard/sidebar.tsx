@@ -3,8 +3,7 @@
 import { useState } from 'react';
 import Link from 'next/link';
 import { useRouter, usePathname } from 'next/navigation';
-import { signOut } from 'firebase/auth';
-import { auth } from '@/lib/firebase';
+import { endSession } from '@/utils/session';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import {
@@ -19,20 +18,22 @@ import {
 } from 'lucide-react';
 import { Logo } from '@/components/auth/logo';
 import { useAuth } from '@/hooks/use-auth';
+import { useUnreadMessages } from '@/hooks/use-unread-messages';
 
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: Home },
   { name: 'Payments', href: '/dashboard/payments', icon: CreditCard },
-  // { name: 'Communication', href: '/dashboard/communication', icon: MessageSquare },
+  { name: 'Communication', href: '/dashboard/communication', icon: MessageSquare },
   { name: 'My Business', href: '/dashboard/business', icon: Briefcase },
-  // { name: 'Affiliate Program', href: '/dashboard/affiliate', icon: Users },
-  // { name: 'Settings', href: '/dashboard/settings', icon: Settings },
+  { name: 'Affiliate Program', href: '/dashboard/affiliate', icon: Users },
+  { name: 'Settings', href: '/dashboard/settings', icon: Settings },
 ];
 
 export function Sidebar() {
   const router = useRouter();
   const pathname = usePathname();
   const { user } = useAuth();
+  const unreadMessages = useUnreadMessages(user ? '/api/messages/unread' : null, pathname);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
 
   const handleSignOut = async () => {
@@ -40,7 +41,7 @@ export function Sidebar() {
 
     setIsLoggingOut(true);
     try {
-      await signOut(auth);
+      await endSession();
       router.push('/');
       router.refresh();
     } catch (error) {
@@ -96,6 +97,16 @@ export function Sidebar() {
                 )} 
               />
               {item.name}
+              {item.href === '/dashboard/communication' && unreadMessages > 0 && (
+                <span
+                  className={cn(
+                    'ml-auto rounded-full px-2 py-0.5 text-xs',
+                    isActive ? 'bg-white text-[#3659fb]' : 'bg-[#3659fb] text-white'
+                  )}
+                >
+                  {unreadMessages}
+                </span>
+              )}
             </Link>
           );
         })}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { CheckCheck, Check, Loader2, Paperclip, Send, X, FileText } from "lucide-react";
+import {
+  ATTACHMENTS_FOLDER,
+  MAX_ATTACHMENTS,
+  MESSAGE_MAX_LENGTH,
+  isMessageRead,
+  type AttachmentInput,
+  type Message,
+  type MessageSide,
+  type MessageThread as Thread
+} from "@/lib/messages";
+import { authFetch } from "@/utils/auth-fetch";
+import { cn } from "@/lib/utils";
+import { formatFileSize } from "@/lib/documents";
+
+interface MessageThreadProps {
+  thread: Thread;
+  messages: Message[];
+  // Whose point of view the thread is shown from
+  viewerSide: MessageSide;
+  onSend?: (body: string, attachments: AttachmentInput[]) => Promise<void>;
+}
+
+// Messages of a thread with read receipts, and a reply form that uploads
+// attachments through /api/upload. Shared by the customer dashboard and
+// the admin inbox.
+export function MessageThread({ thread, messages, viewerSide, onSend }: MessageThreadProps) {
+  const [body, setBody] = useState("");
+  const [attachments, setAttachments] = useState<AttachmentInput[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "end" });
+  }, [messages.length]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setError(null);
+
+    if (attachments.length + files.length > MAX_ATTACHMENTS) {
+      setError(`Attach at most ${MAX_ATTACHMENTS} files`);
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      for (const file of Array.from(files)) {
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("folder", ATTACHMENTS_FOLDER);
+        formData.append("userId", thread.userId);
+        formData.append("businessId", thread.businessId);
+
+        const response = await authFetch("/api/upload", { method: "POST", body: formData });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || `Failed to upload ${file.name}`);
+
+        setAttachments(prev => [...prev, { name: data.name, path: data.path }]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload attachment");
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onSend || !body.trim()) return;
+
+    setIsSending(true);
+    setError(null);
+    try {
+      await onSend(body, attachments);
+      setBody("");
+      setAttachments([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send message");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-1">
+        {messages.map(message => {
+          const isOwn = message.sender.side === viewerSide;
+          const read = isMessageRead(thread, message);
+
+          return (
+            <div key={message.id} className={cn("flex", isOwn ? "justify-end" : "justify-start")}>
+              <div
+                className={cn(
+                  "max-w-[75%] rounded-lg px-4 py-3 text-sm",
+                  isOwn ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-900"
+                )}
+              >
+                <div className={cn("text-xs mb-1", isOwn ? "text-blue-100" : "text-gray-500")}>
+                  {message.sender.side === "admin" ? `Support • ${message.sender.email}` : message.sender.email}
+                </div>
+                <p className="whitespace-pre-wrap break-words">{message.body}</p>
+
+                {message.attachments.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {message.attachments.map(attachment => (
+                      <li key={attachment.path}>
+                        <a
+                          href={attachment.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className={cn("flex items-center gap-1 underline", isOwn ? "text-white" : "text-blue-600")}
+                        >
+                          <FileText className="w-4 h-4" />
+                          {attachment.name} ({formatFileSize(attachment.size)})
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className={cn("flex items-center justify-end gap-1 mt-1 text-xs", isOwn ? "text-blue-100" : "text-gray-500")}>
+                  {new Date(message.createdAt).toLocaleString()}
+                  {isOwn && (read
+                    ? <CheckCheck className="w-3.5 h-3.5" aria-label="Read" />
+                    : <Check className="w-3.5 h-3.5" aria-label="Sent" />)}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={endRef} />
+      </div>
+
+      {onSend && (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Write a reply..."
+            maxLength={MESSAGE_MAX_LENGTH}
+            rows={3}
+            className="w-full border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          {attachments.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {attachments.map(attachment => (
+                <span key={attachment.path} className="flex items-center gap-1 px-2 py-1 rounded-full bg-gray-100 text-xs">
+                  <FileText className="w-3 h-3" />
+                  {attachment.name}
+                  <button
+                    type="button"
+                    onClick={() => setAttachments(prev => prev.filter(a => a.path !== attachment.path))}
+                    className="text-gray-500 hover:text-red-600"
+                    aria-label={`Remove ${attachment.name}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-1 text-sm text-gray-600 cursor-pointer hover:text-blue-600">
+              {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Paperclip className="w-4 h-4" />}
+              Attach files
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept="application/pdf,image/jpeg,image/png"
+                onChange={(e) => handleFiles(e.target.files)}
+                disabled={isUploading}
+                className="hidden"
+              />
+            </label>
+
+            <button
+              type="submit"
+              disabled={isSending || isUploading || !body.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 flex items-center"
+            >
+              {isSending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+              Send
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
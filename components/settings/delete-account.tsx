@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { User } from "firebase/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import { authFetch } from "@/utils/auth-fetch";
+import { endSession, getAuthErrorMessage, hasPasswordProvider, reauthenticate } from "@/utils/session";
+
+interface DeleteAccountProps {
+  user: User;
+}
+
+const CONFIRMATION = "DELETE";
+
+// Deletes the account and everything stored with it through DELETE
+// /api/account, which needs a fresh sign-in
+export function DeleteAccount({ user }: DeleteAccountProps) {
+  const router = useRouter();
+  const [confirmation, setConfirmation] = useState("");
+  const [password, setPassword] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState("");
+
+  const needsPassword = hasPasswordProvider(user);
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsDeleting(true);
+    setError("");
+
+    try {
+      await reauthenticate(user, password);
+      // The route checks the sign-in time in a fresh token
+      await user.getIdToken(true);
+
+      const response = await authFetch("/api/account", { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      await endSession();
+      router.push("/signin");
+    } catch (error) {
+      setError(getAuthErrorMessage(error));
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Card className="border-red-200">
+      <CardHeader>
+        <CardTitle className="text-red-600">Delete Account</CardTitle>
+        <CardDescription>
+          Permanently delete your account, your registrations, uploaded documents and messages.
+          Payment records are kept for accounting. This cannot be undone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleDelete} className="space-y-4">
+          <Input
+            placeholder={`Type ${CONFIRMATION} to confirm`}
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+          />
+          {needsPassword && (
+            <Input
+              type="password"
+              placeholder="Current password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          )}
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <Button
+            type="submit"
+            disabled={isDeleting || confirmation !== CONFIRMATION}
+            className="bg-red-600 hover:bg-red-700 text-white"
+          >
+            {isDeleting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Delete My Account
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { verifyBeforeUpdateEmail, type User } from "firebase/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import { getAuthErrorMessage, hasPasswordProvider, reauthenticate, sendVerificationEmail } from "@/utils/session";
+
+interface EmailSettingsProps {
+  user: User;
+}
+
+// The new address only replaces the old one once the customer opens the
+// verification link Firebase sends to it
+export function EmailSettings({ user }: EmailSettingsProps) {
+  const [newEmail, setNewEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  const needsPassword = hasPasswordProvider(user);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError("");
+    setSuccess("");
+
+    try {
+      await reauthenticate(user, password);
+      await verifyBeforeUpdateEmail(user, newEmail.trim());
+      setSuccess(`We sent a verification link to ${newEmail.trim()}. Your email changes once you open it.`);
+      setNewEmail("");
+      setPassword("");
+    } catch (error) {
+      setError(getAuthErrorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    setIsResending(true);
+    setError("");
+    setSuccess("");
+
+    try {
+      await sendVerificationEmail();
+      setSuccess(`We sent a new verification link to ${user.email}`);
+    } catch (error) {
+      setError(getAuthErrorMessage(error));
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email</CardTitle>
+        <CardDescription className="flex items-center gap-2">
+          {user.email}
+          {user.emailVerified ? (
+            <Badge variant="outline" className="text-green-700">Verified</Badge>
+          ) : (
+            <Badge variant="outline" className="text-orange-700">Not verified</Badge>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!user.emailVerified && (
+          <Button variant="outline" onClick={handleResendVerification} disabled={isResending}>
+            {isResending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Resend Verification Email
+          </Button>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            type="email"
+            placeholder="New email"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+            required
+          />
+          {needsPassword && (
+            <Input
+              type="password"
+              placeholder="Current password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          )}
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          {success && <p className="text-sm text-green-600">{success}</p>}
+
+          <Button type="submit" disabled={isSaving} className="bg-[#3659fb] hover:bg-[#4b6bff]">
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Change Email
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
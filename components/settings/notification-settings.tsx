@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2 } from "lucide-react";
+import {
+  NOTIFICATION_PREFERENCES,
+  getNotificationPreferences,
+  type NotificationPreference
+} from "@/lib/notification-preferences";
+import { updateUserProfile, type UserProfile } from "@/utils/firebase";
+
+interface NotificationSettingsProps {
+  userId: string;
+  profile: UserProfile;
+  onSaved: (profile: Partial<UserProfile>) => void;
+}
+
+// Each toggle is saved as soon as it changes
+export function NotificationSettings({ userId, profile, onSaved }: NotificationSettingsProps) {
+  const [preferences, setPreferences] = useState(() =>
+    getNotificationPreferences(profile.notificationPreferences)
+  );
+  const [savingKey, setSavingKey] = useState<NotificationPreference | null>(null);
+  const [error, setError] = useState("");
+
+  const handleToggle = async (key: NotificationPreference, enabled: boolean) => {
+    const previous = preferences;
+    const updated = { ...preferences, [key]: enabled };
+
+    setPreferences(updated);
+    setSavingKey(key);
+    setError("");
+
+    try {
+      await updateUserProfile(userId, { notificationPreferences: updated });
+      onSaved({ notificationPreferences: updated });
+    } catch (error: any) {
+      setPreferences(previous);
+      setError(error.message);
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Notifications</CardTitle>
+        <CardDescription>Choose which emails we send you</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {NOTIFICATION_PREFERENCES.map(({ key, label, description }) => (
+          <label key={key} className="flex items-start gap-3 cursor-pointer">
+            <Checkbox
+              checked={preferences[key]}
+              onCheckedChange={(checked) => handleToggle(key, checked === true)}
+              disabled={savingKey !== null}
+              className="mt-1"
+            />
+            <div className="flex-1">
+              <div className="font-medium flex items-center gap-2">
+                {label}
+                {savingKey === key && <Loader2 className="h-3 w-3 animate-spin" />}
+              </div>
+              <div className="text-sm text-gray-500">{description}</div>
+            </div>
+          </label>
+        ))}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
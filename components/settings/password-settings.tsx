@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { EmailAuthProvider, linkWithCredential, updatePassword, type User } from "firebase/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import { getAuthErrorMessage, hasPasswordProvider, reauthenticate } from "@/utils/session";
+
+interface PasswordSettingsProps {
+  user: User;
+  onProvidersChanged: () => void;
+}
+
+// Change the password, or add one to an account created with Google
+export function PasswordSettings({ user, onProvidersChanged }: PasswordSettingsProps) {
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  const hasPassword = hasPasswordProvider(user);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSuccess("");
+
+    if (newPassword !== confirmPassword) {
+      setError("The new passwords do not match");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await reauthenticate(user, currentPassword);
+      if (hasPassword) {
+        await updatePassword(user, newPassword);
+        setSuccess("Your password has been changed");
+      } else {
+        await linkWithCredential(user, EmailAuthProvider.credential(user.email!, newPassword));
+        setSuccess("You can now also sign in with your email and password");
+        onProvidersChanged();
+      }
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+    } catch (error) {
+      setError(getAuthErrorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Password</CardTitle>
+        <CardDescription>
+          {hasPassword
+            ? "Change the password you sign in with"
+            : "Add a password to sign in with your email as well as Google"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {hasPassword && (
+            <Input
+              type="password"
+              placeholder="Current password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              required
+            />
+          )}
+          <Input
+            type="password"
+            placeholder="New password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            minLength={6}
+            required
+          />
+          <Input
+            type="password"
+            placeholder="Confirm new password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            minLength={6}
+            required
+          />
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          {success && <p className="text-sm text-green-600">{success}</p>}
+
+          <Button type="submit" disabled={isSaving} className="bg-[#3659fb] hover:bg-[#4b6bff]">
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {hasPassword ? "Change Password" : "Add Password"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
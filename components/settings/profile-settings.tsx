@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { updateProfile, type User } from "firebase/auth";
+import { AsYouType, parsePhoneNumberFromString } from "libphonenumber-js/max";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import { updateUserProfile, type UserProfile } from "@/utils/firebase";
+
+interface ProfileSettingsProps {
+  user: User;
+  profile: UserProfile;
+  onSaved: (profile: Partial<UserProfile>) => void;
+}
+
+// Google signups only have a display name, so split it for the form
+function getInitialNames(user: User, profile: UserProfile) {
+  if (profile.firstName || profile.lastName) {
+    return { firstName: profile.firstName || "", lastName: profile.lastName || "" };
+  }
+  const [firstName = "", ...rest] = (user.displayName || "").split(" ");
+  return { firstName, lastName: rest.join(" ") };
+}
+
+export function ProfileSettings({ user, profile, onSaved }: ProfileSettingsProps) {
+  const initialNames = getInitialNames(user, profile);
+  const [firstName, setFirstName] = useState(initialNames.firstName);
+  const [lastName, setLastName] = useState(initialNames.lastName);
+  const [phone, setPhone] = useState(profile.phone || "");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  const parsedPhone = phone ? parsePhoneNumberFromString(phone) : undefined;
+  const phoneError = phone && !parsedPhone?.isValid()
+    ? "Enter a valid phone number including the country code, e.g. +94 77 123 4567"
+    : "";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (phoneError) return;
+
+    setIsSaving(true);
+    setError("");
+    setSuccess("");
+
+    try {
+      const displayName = `${firstName.trim()} ${lastName.trim()}`.trim();
+      const changes = {
+        firstName: firstName.trim(),
+        lastName: lastName.trim(),
+        displayName,
+        phone: parsedPhone?.format("E.164") || "",
+      };
+
+      await updateProfile(user, { displayName });
+      await updateUserProfile(user.uid, changes);
+      onSaved(changes);
+      setSuccess("Your profile has been updated");
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profile</CardTitle>
+        <CardDescription>Your name and the phone number we can reach you on</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              placeholder="First Name"
+              value={firstName}
+              onChange={(e) => setFirstName(e.target.value)}
+              required
+            />
+            <Input
+              placeholder="Last Name"
+              value={lastName}
+              onChange={(e) => setLastName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Input
+              type="tel"
+              placeholder="Phone number, e.g. +94 77 123 4567"
+              value={phone}
+              onChange={(e) => setPhone(new AsYouType().input(e.target.value))}
+              className={phoneError ? "border-red-500" : ""}
+            />
+            {phoneError && <p className="text-sm text-red-500">{phoneError}</p>}
+          </div>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          {success && <p className="text-sm text-green-600">{success}</p>}
+
+          <Button type="submit" disabled={isSaving || !!phoneError} className="bg-[#3659fb] hover:bg-[#4b6bff]">
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Profile
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
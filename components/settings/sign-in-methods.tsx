@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { GoogleAuthProvider, linkWithPopup, unlink, type User } from "firebase/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { getAuthErrorMessage } from "@/utils/session";
+
+interface SignInMethodsProps {
+  user: User;
+  onProvidersChanged: () => void;
+}
+
+// Link or unlink Google. The last sign-in method cannot be removed.
+export function SignInMethods({ user, onProvidersChanged }: SignInMethodsProps) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState("");
+
+  const googleProvider = user.providerData.find(
+    provider => provider.providerId === GoogleAuthProvider.PROVIDER_ID
+  );
+  const canUnlink = user.providerData.length > 1;
+
+  const handleLink = async () => {
+    setIsUpdating(true);
+    setError("");
+
+    try {
+      await linkWithPopup(user, new GoogleAuthProvider());
+      onProvidersChanged();
+    } catch (error) {
+      setError(getAuthErrorMessage(error));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleUnlink = async () => {
+    setIsUpdating(true);
+    setError("");
+
+    try {
+      await unlink(user, GoogleAuthProvider.PROVIDER_ID);
+      onProvidersChanged();
+    } catch (error) {
+      setError(getAuthErrorMessage(error));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sign-in Methods</CardTitle>
+        <CardDescription>Accounts you can use to sign in</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div>
+            <div className="font-medium">Google</div>
+            <div className="text-sm text-gray-500">
+              {googleProvider ? `Linked to ${googleProvider.email}` : "Not linked"}
+            </div>
+          </div>
+          {googleProvider ? (
+            <Button
+              variant="outline"
+              onClick={handleUnlink}
+              disabled={isUpdating || !canUnlink}
+              title={canUnlink ? undefined : "Add a password before unlinking Google"}
+            >
+              {isUpdating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Unlink
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={handleLink} disabled={isUpdating}>
+              {isUpdating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Link Google
+            </Button>
+          )}
+        </div>
+
+        {googleProvider && !canUnlink && (
+          <p className="text-sm text-gray-500">Add a password before unlinking Google</p>
+        )}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
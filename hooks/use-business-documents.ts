@@ -0,0 +1,32 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { authFetch } from '@/utils/auth-fetch';
+import { groupDocumentVersions, type DocumentRecord } from '@/lib/documents';
+
+// Every version of a business's documents, keyed by document type, from
+// /api/businesses/[userId]/[businessId]/documents. Reloaded when
+// `refreshKey` changes, e.g. after an upload.
+export function useBusinessDocuments(userId: string, businessId: string, refreshKey?: unknown) {
+  const [versions, setVersions] = useState<Record<string, DocumentRecord[]>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+
+    authFetch(`/api/businesses/${userId}/${businessId}/documents`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        if (!cancelled) setVersions(groupDocumentVersions(data.documents));
+      })
+      .catch((error) => {
+        console.error('Error loading document history:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, businessId, refreshKey]);
+
+  return versions;
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { getDefaultPriceVersion, type PriceVersion } from '@/lib/pricing';
+
+// Prices for the registration wizard: the version a draft was created with,
+// or the one in effect now. Falls back to the built-in prices while loading
+// or when the pricing API is unavailable; checkout is priced on the server
+// either way.
+export function usePriceVersion(versionId?: string) {
+  const [priceVersion, setPriceVersion] = useState<PriceVersion>(getDefaultPriceVersion);
+  const [loading, setLoading] = useState(true);
+  const loadedIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    // Pinning a new draft to the version already shown needs no refetch
+    if (versionId && versionId === loadedIdRef.current) return;
+
+    let cancelled = false;
+    const query = versionId ? `?version=${encodeURIComponent(versionId)}` : '';
+
+    setLoading(true);
+    fetch(`/api/pricing${query}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        if (cancelled) return;
+        loadedIdRef.current = data.version.id;
+        setPriceVersion(data.version);
+      })
+      .catch((error) => {
+        console.error('Error loading prices:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [versionId]);
+
+  return { priceVersion, loading };
+}
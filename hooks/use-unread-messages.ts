@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { authFetch } from '@/utils/auth-fetch';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+// Unread message count for a navigation badge, from /api/messages/unread
+// or /api/admin/messages/unread. Refreshed every minute and whenever
+// `refreshKey` (e.g. the current path) changes. A null endpoint skips
+// loading, for pages rendered before sign-in.
+export function useUnreadMessages(endpoint: string | null, refreshKey?: string) {
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    if (!endpoint) return;
+    let cancelled = false;
+
+    const loadCount = () => {
+      authFetch(endpoint)
+        .then(async (response) => {
+          const data = await response.json();
+          if (!response.ok) throw new Error(data.error);
+          if (!cancelled) setCount(data.count);
+        })
+        .catch((error) => {
+          console.error('Error loading unread messages:', error);
+        });
+    };
+
+    loadCount();
+    const interval = setInterval(loadCount, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [endpoint, refreshKey]);
+
+  return count;
+}
@@ -0,0 +1,29 @@
+import type { AdminRole } from "@/types/admin";
+
+// Ordered from most to least privileged
+export const ADMIN_ROLES: AdminRole[] = ['owner', 'admin', 'support', 'viewer'];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  support: 'Support',
+  viewer: 'Viewer',
+};
+
+export const ADMIN_ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  owner: 'Full access, including team management',
+  admin: 'Manage users, businesses, documents, refunds, pricing and payouts',
+  support: 'Update businesses and upload documents',
+  viewer: 'Read-only access to the admin panel',
+};
+
+// Roles allowed to change business records
+export const ADMIN_WRITE_ROLES: AdminRole[] = ['owner', 'admin', 'support'];
+
+// Roles allowed to issue refunds, cancel registrations, publish prices,
+// manage promo codes and pay affiliates
+export const ADMIN_BILLING_ROLES: AdminRole[] = ['owner', 'admin'];
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && ADMIN_ROLES.includes(value as AdminRole);
+}
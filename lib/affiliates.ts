@@ -0,0 +1,111 @@
+import { formatPrice } from "@/lib/pricing";
+
+// Affiliate program. Every customer gets a referral code, and signups
+// through /signup?ref=<code> are attributed to its owner. When a referred
+// customer's payment is confirmed, the affiliate earns a commission that
+// admins approve and then pay out in batches.
+
+// Query parameter carrying the referral code on signup links
+export const REFERRAL_PARAM = 'ref';
+
+// Share of the amount paid (after discounts) earned per conversion
+export const COMMISSION_RATE = 0.1;
+
+export type CommissionStatus = 'pending' | 'approved' | 'rejected' | 'paid';
+
+export const COMMISSION_STATUS_LABELS: Record<CommissionStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  paid: 'Paid',
+};
+
+export interface Affiliate {
+  uid: string;
+  code: string;
+  email: string;
+  clicks: number;
+  signups: number;
+  conversions: number;
+  createdAt: string;
+}
+
+export interface Commission {
+  id: string; // Same as businessId, one commission per registration
+  affiliateUid: string;
+  referredUid: string;
+  businessId: string;
+  companyName: string;
+  amountPaid: number; // In cents
+  amount: number; // In cents
+  currency: string;
+  stripePaymentIntentId: string;
+  status: CommissionStatus;
+  createdAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  rejectionReason?: string; // For commissions rejected on a refund or cancellation
+  payoutId?: string;
+  paidAt?: string;
+}
+
+// One row of a payout export: everything owed to an affiliate in a currency
+export interface PayoutLine {
+  affiliateUid: string;
+  email: string;
+  code: string;
+  currency: string;
+  amount: number; // In cents
+  commissionCount: number;
+}
+
+export interface Payout {
+  id: string;
+  commissionIds: string[];
+  lines: PayoutLine[];
+  createdBy: string;
+  createdAt: string;
+}
+
+export function normalizeReferralCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+// Commission in cents for a payment in cents
+export function getCommissionAmount(amountPaid: number) {
+  return Math.round(amountPaid * COMMISSION_RATE);
+}
+
+// Sum commissions per currency, e.g. "$120 + €45"
+export function formatCommissionTotal(commissions: Pick<Commission, 'amount' | 'currency'>[]) {
+  const totals: Record<string, number> = {};
+  for (const commission of commissions) {
+    totals[commission.currency] = (totals[commission.currency] || 0) + commission.amount;
+  }
+
+  return Object.entries(totals)
+    .map(([currency, amount]) => formatPrice(amount / 100, currency))
+    .join(' + ') || formatPrice(0);
+}
+
+// Payout export for the finance team, amounts in whole currency units.
+// Cells that spreadsheets would read as formulas are prefixed with a quote.
+export function toPayoutCsv(payout: Payout) {
+  const escape = (value: string) => {
+    const cell = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  };
+  const rows = [
+    ['affiliate_uid', 'email', 'referral_code', 'currency', 'amount', 'commissions'],
+    ...payout.lines.map(line => [
+      line.affiliateUid,
+      line.email,
+      line.code,
+      line.currency.toUpperCase(),
+      (line.amount / 100).toFixed(2),
+      String(line.commissionCount),
+    ]),
+  ];
+
+  return rows.map(row => row.map(escape).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,99 @@
+// Audit events stored in users/{userId}/businesses/{businessId}/events.
+// Events are written alongside every change to a business, by the client
+// helpers in utils/firebase.ts and the server helpers in
+// utils/firebase-admin.ts, and are never updated or deleted.
+
+export type BusinessEventType =
+  | 'created'
+  | 'updated'
+  | 'status_changed'
+  | 'checkout_started'
+  | 'checkout_expired'
+  | 'payment_succeeded'
+  | 'payment_failed'
+  | 'refunded'
+  | 'cancelled'
+  | 'reminder_sent';
+
+export const BUSINESS_EVENT_LABELS: Record<BusinessEventType, string> = {
+  created: 'Registration started',
+  updated: 'Details updated',
+  status_changed: 'Status changed',
+  checkout_started: 'Checkout started',
+  checkout_expired: 'Checkout expired',
+  payment_succeeded: 'Payment received',
+  payment_failed: 'Payment failed',
+  refunded: 'Refund issued',
+  cancelled: 'Registration cancelled',
+  reminder_sent: 'Reminder sent',
+};
+
+// Role recorded for changes made by the business's owner
+export const CUSTOMER_ROLE = 'customer';
+
+// Who made a change: an admin, the customer (CUSTOMER_ROLE) or, when null,
+// the system (webhooks, cron)
+export interface EventActor {
+  uid: string;
+  email: string;
+  role: string;
+}
+
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface BusinessEvent {
+  id: string;
+  type: BusinessEventType;
+  actor: EventActor | null;
+  reason: string;
+  // Keyed by field path, e.g. "company.name" or "paymentDetails.amountRefunded"
+  changes: Record<string, FieldChange>;
+  createdAt: any;
+}
+
+// Bookkeeping fields left out of diffs
+const IGNORED_FIELDS = ['createdAt', 'updatedAt', 'statusHistory', 'lastEventId'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+// Values that can be compared and stored in an event: primitives, arrays,
+// plain objects and Firestore timestamps. FieldValue sentinels are not.
+function isComparable(value: unknown): boolean {
+  if (value === null || typeof value !== 'object') return true;
+  return Array.isArray(value) || isPlainObject(value) || typeof (value as any).toMillis === 'function';
+}
+
+function getPath(data: Record<string, any>, path: string) {
+  return path.split('.').reduce<any>((value, key) => value?.[key], data);
+}
+
+// Field-level diff between a business and the update applied to it. The
+// update may use dotted field paths like Firestore's update(). Nested
+// objects are diffed per field; arrays are compared as a whole.
+export function diffFields(
+  before: Record<string, any> | undefined,
+  update: Record<string, any>,
+  prefix = ''
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+
+  for (const [key, after] of Object.entries(update)) {
+    const path = prefix + key;
+    if (!prefix && IGNORED_FIELDS.includes(key)) continue;
+    if (after === undefined || !isComparable(after)) continue;
+
+    const previous = before ? getPath(before, key) : undefined;
+    if (isPlainObject(after) && isPlainObject(previous)) {
+      Object.assign(changes, diffFields(previous, after, `${path}.`));
+    } else if (JSON.stringify(previous ?? null) !== JSON.stringify(after)) {
+      changes[path] = { before: previous ?? null, after };
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,139 @@
+// Business registration lifecycle shared by the API routes and both
+// dashboards. Every status change goes through assertTransition.
+
+export type BusinessStatus =
+  | 'draft'
+  | 'awaiting_payment'
+  | 'paid'
+  | 'in_review'
+  | 'filed_with_state'
+  | 'ein_pending'
+  | 'documents_delivered'
+  | 'active'
+  | 'abandoned'
+  | 'cancelled'
+  | 'refunded';
+
+// The main path, in order
+export const LIFECYCLE_STATUSES: BusinessStatus[] = [
+  'draft',
+  'awaiting_payment',
+  'paid',
+  'in_review',
+  'filed_with_state',
+  'ein_pending',
+  'documents_delivered',
+  'active',
+];
+
+export const BUSINESS_STATUSES: BusinessStatus[] = [
+  ...LIFECYCLE_STATUSES,
+  'abandoned',
+  'cancelled',
+  'refunded',
+];
+
+export const BUSINESS_STATUS_LABELS: Record<BusinessStatus, string> = {
+  draft: 'Draft',
+  awaiting_payment: 'Awaiting Payment',
+  paid: 'Paid',
+  in_review: 'In Review',
+  filed_with_state: 'Filed with State',
+  ein_pending: 'EIN Pending',
+  documents_delivered: 'Documents Delivered',
+  active: 'Active',
+  abandoned: 'Abandoned',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+// Tailwind classes for status badges
+export const BUSINESS_STATUS_COLORS: Record<BusinessStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  awaiting_payment: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-blue-100 text-blue-800',
+  in_review: 'bg-indigo-100 text-indigo-800',
+  filed_with_state: 'bg-indigo-100 text-indigo-800',
+  ein_pending: 'bg-purple-100 text-purple-800',
+  documents_delivered: 'bg-teal-100 text-teal-800',
+  active: 'bg-green-100 text-green-800',
+  abandoned: 'bg-gray-100 text-gray-500',
+  cancelled: 'bg-red-100 text-red-800',
+  refunded: 'bg-orange-100 text-orange-800',
+};
+
+// Allowed next statuses. Cancelling and refunding are possible from any
+// status after payment; abandoned drafts can still be paid for since
+// Stripe is the source of truth.
+const STATUS_TRANSITIONS: Record<BusinessStatus, BusinessStatus[]> = {
+  draft: ['awaiting_payment', 'abandoned', 'cancelled'],
+  awaiting_payment: ['draft', 'paid', 'abandoned', 'cancelled'],
+  abandoned: ['paid', 'cancelled'],
+  paid: ['in_review', 'cancelled', 'refunded'],
+  in_review: ['filed_with_state', 'cancelled', 'refunded'],
+  filed_with_state: ['ein_pending', 'documents_delivered', 'cancelled', 'refunded'],
+  ein_pending: ['documents_delivered', 'cancelled', 'refunded'],
+  documents_delivered: ['active', 'cancelled', 'refunded'],
+  active: ['cancelled', 'refunded'],
+  cancelled: [],
+  refunded: [],
+};
+
+// Statuses admins set by hand. The rest follow from checkout, payments,
+// refunds and cancellations.
+export const ADMIN_MANAGED_STATUSES: BusinessStatus[] = [
+  'in_review',
+  'filed_with_state',
+  'ein_pending',
+  'documents_delivered',
+  'active',
+];
+
+// Statuses a customer can still check out from
+export const PAYABLE_STATUSES: BusinessStatus[] = ['draft', 'awaiting_payment'];
+
+// Statuses of registrations that are still being filled in by the customer
+export const DRAFT_STATUSES: BusinessStatus[] = ['draft', 'awaiting_payment', 'abandoned'];
+
+export class StatusTransitionError extends Error {
+  constructor(public from: BusinessStatus, public to: BusinessStatus) {
+    super(
+      `Cannot change status from ${BUSINESS_STATUS_LABELS[from]} to ${BUSINESS_STATUS_LABELS[to]}`
+    );
+  }
+}
+
+export function isBusinessStatus(value: unknown): value is BusinessStatus {
+  return typeof value === 'string' && BUSINESS_STATUSES.includes(value as BusinessStatus);
+}
+
+// Map stored values onto the lifecycle. Businesses paid before the
+// lifecycle existed were stored as "completed".
+export function normalizeStatus(status: unknown): BusinessStatus {
+  if (status === 'completed') return 'paid';
+  return isBusinessStatus(status) ? status : 'draft';
+}
+
+export function getNextStatuses(status: unknown): BusinessStatus[] {
+  return STATUS_TRANSITIONS[normalizeStatus(status)];
+}
+
+export function canTransition(from: unknown, to: BusinessStatus) {
+  return getNextStatuses(from).includes(to);
+}
+
+export function assertTransition(from: unknown, to: BusinessStatus) {
+  if (!canTransition(from, to)) {
+    throw new StatusTransitionError(normalizeStatus(from), to);
+  }
+}
+
+// 0-based position on the main path, or -1 for cancelled/refunded/abandoned
+export function getLifecycleStep(status: unknown) {
+  return LIFECYCLE_STATUSES.indexOf(normalizeStatus(status));
+}
+
+// Paid and not cancelled or refunded
+export function isPaidStatus(status: unknown) {
+  return getLifecycleStep(status) >= LIFECYCLE_STATUSES.indexOf('paid');
+}
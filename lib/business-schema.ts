@@ -0,0 +1,179 @@
+import { z } from "zod";
+import { ADMIN_MANAGED_STATUSES, type BusinessStatus } from "@/lib/business-lifecycle";
+import { getOwnerFields } from "@/lib/jurisdictions";
+
+// Validation for the editable sections of a business, shared by the
+// registration wizard, the admin dashboard and the API routes. Objects are
+// strict, so fields outside a section's allowlist are rejected rather than
+// silently written.
+
+export const COMPANY_NAME_MESSAGE = "Only letters, numbers, spaces, and '&' symbol are allowed";
+
+export const companySchema = z.object({
+  name: z.string().trim()
+    .min(1, "Company name is required")
+    .regex(/^[a-zA-Z0-9\s&]+$/, COMPANY_NAME_MESSAGE),
+  type: z.string().min(1, "Select a company type"),
+  industry: z.string().min(1, "Select an industry"),
+}).strict();
+
+export const addressSchema = z.object({
+  street: z.string().trim().min(1, "Street address is required"),
+  city: z.string().trim().min(1, "City is required"),
+  state: z.string().trim().min(1, "State or province is required"),
+  postalCode: z.string().trim().min(1, "Postal code is required"),
+  country: z.string().min(1, "Select a country"),
+}).strict();
+
+export const ownerSchema = z.object({
+  id: z.string().min(1),
+  fullName: z.string().trim().min(1, "Full name is required"),
+  ownership: z.string().refine(
+    value => Number(value) > 0 && Number(value) <= 100,
+    "Ownership must be between 1 and 100"
+  ),
+  isCEO: z.boolean().optional(),
+  birthDate: z.string().optional(),
+  documentId: z.string().min(1).optional(), // Record in the documents collection
+  documentName: z.string().optional(),
+  // Country-specific answers keyed by OwnerField.key, e.g. "eResidencyCode"
+  details: z.record(z.string(), z.string()).optional(),
+}).strict();
+
+export const ownersSchema = z.array(ownerSchema)
+  .min(1, "Add at least one owner")
+  .superRefine((owners, ctx) => {
+    const totalOwnership = owners.reduce((sum, owner) => sum + (Number(owner.ownership) || 0), 0);
+    if (totalOwnership < 100) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Total ownership is ${totalOwnership}%. You need ${100 - totalOwnership}% more to reach 100%.`,
+      });
+      return;
+    }
+    if (totalOwnership > 100) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Total ownership is ${totalOwnership}%. Please reduce by ${totalOwnership - 100}% to equal 100%.`,
+      });
+      return;
+    }
+
+    // A sole owner is the CEO; otherwise exactly one owner must be marked
+    const ceos = owners.length === 1 ? owners : owners.filter(owner => owner.isCEO);
+    if (ceos.length !== 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Please designate exactly one owner as CEO",
+      });
+      return;
+    }
+
+    const subject = owners.length === 1 ? "the" : "the CEO's";
+    if (!ceos[0].birthDate) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Please enter ${subject} birth date`,
+      });
+    } else if (!ceos[0].documentId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Please upload ${subject} identification document`,
+      });
+    }
+  });
+
+// Owners plus the extra fields the country asks of every owner
+export function getOwnersSchema(country?: string) {
+  const fields = getOwnerFields(country);
+  if (fields.length === 0) return ownersSchema;
+
+  return ownersSchema.superRefine((owners, ctx) => {
+    owners.forEach((owner, index) => {
+      for (const field of fields) {
+        const value = owner.details?.[field.key]?.trim() || "";
+        const message = !value
+          ? `Please enter ${field.label.toLowerCase()} for owner ${index + 1}`
+          : (field.options && !field.options.includes(value)) || (field.pattern && !field.pattern.test(value))
+            ? field.message || `Invalid ${field.label.toLowerCase()} for owner ${index + 1}`
+            : "";
+
+        if (message) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, "details", field.key],
+            message,
+          });
+        }
+      }
+    });
+  });
+}
+
+// A delivered document; the file is read through /api/documents/[id]
+export const documentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+}).strict();
+
+// A document delivered before private storage, still held as a public URL
+// until `npm run documents:migrate` has run. Only accepted unchanged.
+export const legacyDocumentSchema = z.object({
+  url: z.string().min(1),
+  name: z.string().min(1),
+}).strict();
+
+// Keyed by document type, e.g. "articlesOfOrganization"
+export const documentsSchema = z.record(
+  z.string().regex(/^\w+$/),
+  z.union([documentSchema, legacyDocumentSchema])
+);
+
+// Customers can read their business document, so notes must be
+// customer-safe
+export const adminNotesSchema = z.string().trim().max(2000, "Notes can be at most 2000 characters");
+
+// Status changes go through POST /api/businesses/[userId]/[businessId]/status
+export const statusChangeSchema = z.object({
+  status: z.enum(ADMIN_MANAGED_STATUSES as [BusinessStatus, ...BusinessStatus[]], {
+    errorMap: () => ({ message: "This status cannot be set directly" }),
+  }),
+  reason: z.string().trim().max(500).default(""),
+}).strict();
+
+// Body of PUT /api/businesses/[userId]/[businessId]. Each section replaces
+// the stored one as a whole.
+export const adminBusinessUpdateSchema = z.object({
+  documents: documentsSchema,
+  company: companySchema,
+  address: addressSchema,
+  owner: ownersSchema,
+  adminNotes: adminNotesSchema,
+}).partial().strict();
+
+export type CompanySection = z.infer<typeof companySchema>;
+export type AddressSection = z.infer<typeof addressSchema>;
+export type OwnerSection = z.infer<typeof ownerSchema>;
+export type AdminBusinessUpdate = z.infer<typeof adminBusinessUpdateSchema>;
+
+// Flatten validation issues to one message per field path, e.g.
+// { "company.name": "...", "paymentDetails": "This field cannot be updated" }.
+// Issues about a whole section are keyed by the section.
+export function getFieldErrors(error: z.ZodError): Record<string, string> {
+  const fields: Record<string, string> = {};
+
+  for (const issue of error.issues) {
+    const paths = issue.code === z.ZodIssueCode.unrecognized_keys
+      ? issue.keys.map(key => [...issue.path, key].join("."))
+      : [issue.path.join(".")];
+    const message = issue.code === z.ZodIssueCode.unrecognized_keys
+      ? "This field cannot be updated"
+      : issue.message;
+
+    for (const path of paths) {
+      fields[path] ??= message;
+    }
+  }
+
+  return fields;
+}
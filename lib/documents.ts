@@ -0,0 +1,72 @@
+import type { EventActor } from "@/lib/business-events";
+
+// Uploaded files (owner IDs, delivered filings, message attachments) are
+// private in Storage. Each one has a record in the documents collection,
+// and businesses and messages refer to it by id. The file is only read
+// through GET /api/documents/[id], which checks access and logs it.
+//
+// Uploading a file of a type a business already has adds a new version:
+// the new record `supersedes` the previous one, which gets `supersededBy`.
+// Old versions are kept, so each business has a full document history.
+
+export interface DocumentRecord {
+  id: string;
+  userId: string; // The customer the file belongs to
+  businessId: string | null;
+  // Document type, e.g. "articlesOfOrganization", or OWNER_ID_TYPE and
+  // ATTACHMENT_TYPE for files customers upload
+  type: string;
+  path: string; // Storage path, under users/{userId}/
+  name: string; // Original file name
+  contentType: string;
+  size: number;
+  sha256: string; // Hex digest of the file
+  uploadedBy: EventActor | null; // null for files migrated from before records
+  uploadedAt: string;
+  version: number; // 1 for the first upload of a type
+  supersedes: string | null; // The previous version's id
+  supersededBy: string | null; // The next version's id
+}
+
+// What businesses store for a document, e.g. in `documents[key]`
+export interface DocumentLink {
+  id: string;
+  name: string;
+}
+
+export const OWNER_ID_TYPE = 'ownerId';
+export const ATTACHMENT_TYPE = 'attachment';
+
+// 'archive' reads are files downloaded in a business's ZIP archive
+export type DocumentAccessMode = 'stream' | 'signed_url' | 'archive';
+
+// Signed URLs from GET /api/documents/[id]?mode=signed expire after this
+export const SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+// Link that opens a document with the signed-in user's session cookie
+export function getDocumentUrl(documentId: string, { download = false } = {}) {
+  return `/api/documents/${encodeURIComponent(documentId)}${download ? '?download=1' : ''}`;
+}
+
+// ZIP of a business's owner IDs and delivered documents, with a manifest
+export function getDocumentArchiveUrl(userId: string, businessId: string) {
+  return `/api/businesses/${encodeURIComponent(userId)}/${encodeURIComponent(businessId)}/documents/archive`;
+}
+
+// A business's documents keyed by type, newest version first
+export function groupDocumentVersions(records: DocumentRecord[]) {
+  const groups: Record<string, DocumentRecord[]> = {};
+  for (const record of records) {
+    (groups[record.type] ||= []).push(record);
+  }
+  for (const versions of Object.values(groups)) {
+    versions.sort((a, b) => b.version - a.version);
+  }
+  return groups;
+}
+
+export function formatFileSize(bytes: number) {
+  return bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
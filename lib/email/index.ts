@@ -0,0 +1,18 @@
+import { getEmailTransport } from "@/lib/email/transports";
+import { renderEmail, type EmailContent } from "@/lib/email/templates";
+
+export * from "@/lib/email/templates";
+export { getEmailTransport, type EmailTransport } from "@/lib/email/transports";
+
+const DEFAULT_FROM = "Privatily <no-reply@privatily.com>";
+
+// Render a template and hand it to the configured transport. Server only.
+export async function sendEmail(to: string, content: EmailContent) {
+  const email = renderEmail(content);
+
+  await getEmailTransport().send({
+    from: process.env.EMAIL_FROM || DEFAULT_FROM,
+    to,
+    ...email,
+  });
+}
@@ -0,0 +1,234 @@
+import { BUSINESS_STATUS_LABELS, type BusinessStatus } from "@/lib/business-lifecycle";
+import { formatPrice } from "@/lib/pricing";
+
+// Transactional email templates. Each template describes its content once
+// (heading, paragraphs, a details table and a call to action) and
+// renderEmail turns that into matching HTML and plain-text bodies.
+
+export interface EmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  details?: [label: string, value: string][];
+  action?: { label: string; url: string };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const BRAND_NAME = "Privatily";
+const BRAND_COLOR = "#3659fb";
+
+// Absolute link to a page of the app
+export function appUrl(path: string) {
+  return `${process.env.NEXT_PUBLIC_BASE_URL || ""}${path}`;
+}
+
+// Amounts from Stripe are in cents
+function formatCents(amount: number, currency: string) {
+  return formatPrice(amount / 100, currency);
+}
+
+function companyName(name: string) {
+  return name || "your company";
+}
+
+export function welcomeEmail({ firstName, verifyUrl }: { firstName?: string; verifyUrl?: string }): EmailContent {
+  return {
+    subject: `Welcome to ${BRAND_NAME}`,
+    heading: firstName ? `Welcome, ${firstName}` : "Welcome",
+    paragraphs: [
+      "Thanks for creating an account. You can start registering your company from your dashboard at any time.",
+      ...(verifyUrl ? ["Please confirm your email address so we can keep you updated on your registration."] : []),
+    ],
+    action: verifyUrl
+      ? { label: "Verify Email", url: verifyUrl }
+      : { label: "Go to Dashboard", url: appUrl("/dashboard") },
+  };
+}
+
+export function verifyEmail({ verifyUrl }: { verifyUrl: string }): EmailContent {
+  return {
+    subject: "Verify your email address",
+    heading: "Verify your email address",
+    paragraphs: [
+      "Open the link below to confirm this is your email address. If you did not ask for this, you can ignore this email.",
+    ],
+    action: { label: "Verify Email", url: verifyUrl },
+  };
+}
+
+export function paymentReceiptEmail({ companyName: name, amount, amountDiscounted, currency, paymentIntentId, paidAt }: {
+  companyName: string;
+  amount: number;
+  amountDiscounted?: number;
+  currency: string;
+  paymentIntentId: string;
+  paidAt: Date;
+}): EmailContent {
+  return {
+    subject: `Payment received for ${companyName(name)}`,
+    heading: "Payment received",
+    paragraphs: [
+      `Thank you. We received your payment for the registration of ${companyName(name)} and our team will start reviewing it shortly.`,
+    ],
+    details: [
+      ["Amount paid", formatCents(amount, currency)],
+      ...(amountDiscounted ? [["Discount", formatCents(amountDiscounted, currency)] as [string, string]] : []),
+      ["Date", paidAt.toLocaleDateString("en-US", { dateStyle: "long" })],
+      ["Reference", paymentIntentId],
+    ],
+    action: { label: "View Payments", url: appUrl("/dashboard/payments") },
+  };
+}
+
+export function refundEmail({ companyName: name, amount, amountRefunded, currency, reason }: {
+  companyName: string;
+  amount: number; // This refund
+  amountRefunded: number; // All refunds so far
+  currency: string;
+  reason?: string;
+}): EmailContent {
+  return {
+    subject: `Refund issued for ${companyName(name)}`,
+    heading: "Refund issued",
+    paragraphs: [
+      `We refunded ${formatCents(amount, currency)} for the registration of ${companyName(name)}. Refunds usually reach your account within 5 to 10 business days.`,
+    ],
+    details: [
+      ["Refunded", formatCents(amount, currency)],
+      ["Total refunded", formatCents(amountRefunded, currency)],
+      ...(reason ? [["Reason", reason] as [string, string]] : []),
+    ],
+    action: { label: "View Payments", url: appUrl("/dashboard/payments") },
+  };
+}
+
+export function statusChangedEmail({ companyName: name, status, reason }: {
+  companyName: string;
+  status: BusinessStatus;
+  reason?: string;
+}): EmailContent {
+  return {
+    subject: `${companyName(name)}: ${BUSINESS_STATUS_LABELS[status]}`,
+    heading: "Your registration was updated",
+    paragraphs: [
+      `The registration of ${companyName(name)} is now ${BUSINESS_STATUS_LABELS[status]}.`,
+      ...(reason ? [reason] : []),
+    ],
+    action: { label: "View Registration", url: appUrl("/dashboard/business") },
+  };
+}
+
+export function documentsDeliveredEmail({ companyName: name, documents }: {
+  companyName: string;
+  documents: string[];
+}): EmailContent {
+  return {
+    subject: `New documents for ${companyName(name)}`,
+    heading: "Your documents are ready",
+    paragraphs: [
+      `We added ${documents.length === 1 ? "a new document" : `${documents.length} new documents`} to the registration of ${companyName(name)}:`,
+      documents.join(", "),
+    ],
+    action: { label: "Download Documents", url: appUrl("/dashboard") },
+  };
+}
+
+export function draftReminderEmail({ companyName: name }: { companyName: string }): EmailContent {
+  return {
+    subject: "Finish registering your company",
+    heading: "Pick up where you left off",
+    paragraphs: [
+      `Your registration of ${companyName(name)} is saved as a draft. Complete it and pay to send it to our team for filing.`,
+    ],
+    action: { label: "Continue Registration", url: appUrl("/dashboard/business") },
+  };
+}
+
+export function messageReplyEmail({ subject, companyName: name, preview }: {
+  subject: string;
+  companyName: string;
+  preview: string;
+}): EmailContent {
+  return {
+    subject: `New reply: ${subject}`,
+    heading: "You have a new message",
+    paragraphs: [
+      `Our team replied to your conversation about ${companyName(name)}:`,
+      preview,
+    ],
+    action: { label: "Read Message", url: appUrl("/dashboard/communication") },
+  };
+}
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderHtml({ subject, heading, paragraphs, details, action }: EmailContent) {
+  const body = [
+    `<h1 style="margin:0 0 16px;font-size:22px;color:#111827">${escapeHtml(heading)}</h1>`,
+    ...paragraphs.map(paragraph =>
+      `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(paragraph)}</p>`
+    ),
+  ];
+
+  if (details?.length) {
+    const rows = details.map(([label, value]) =>
+      `<tr><td style="padding:6px 16px 6px 0;color:#6b7280">${escapeHtml(label)}</td>` +
+      `<td style="padding:6px 0;font-weight:600">${escapeHtml(value)}</td></tr>`
+    );
+    body.push(`<table style="margin:0 0 16px;border-collapse:collapse">${rows.join("")}</table>`);
+  }
+
+  if (action) {
+    body.push(
+      `<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" ` +
+      `style="background:${BRAND_COLOR};color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;font-weight:600">` +
+      `${escapeHtml(action.label)}</a></p>`
+    );
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#374151">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">
+${body.join("\n")}
+</div>
+<p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#9ca3af;text-align:center">
+${escapeHtml(BRAND_NAME)} &middot; <a href="${escapeHtml(appUrl("/dashboard/settings"))}" style="color:#9ca3af">Email preferences</a>
+</p>
+</body>
+</html>`;
+}
+
+function renderText({ heading, paragraphs, details, action }: EmailContent) {
+  const sections = [heading, ...paragraphs];
+  if (details?.length) {
+    sections.push(details.map(([label, value]) => `${label}: ${value}`).join("\n"));
+  }
+  if (action) {
+    sections.push(`${action.label}: ${action.url}`);
+  }
+  sections.push(`--\n${BRAND_NAME}\nEmail preferences: ${appUrl("/dashboard/settings")}`);
+
+  return sections.join("\n\n");
+}
+
+export function renderEmail(content: EmailContent): RenderedEmail {
+  return {
+    subject: content.subject,
+    html: renderHtml(content),
+    text: renderText(content),
+  };
+}
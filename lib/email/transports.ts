@@ -0,0 +1,90 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+
+// Where rendered emails go. SMTP in production; locally and in tests the
+// file transport writes each email to EMAIL_FILE_DIR (open the .html file
+// in a browser) and the console transport logs it. A local SMTP catcher
+// such as Mailpit also works with EMAIL_TRANSPORT=smtp.
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+export type EmailTransportName = "smtp" | "file" | "console";
+
+export function createSmtpTransport(): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(email) {
+      await transporter.sendMail(email);
+    },
+  };
+}
+
+export function createFileTransport(directory = process.env.EMAIL_FILE_DIR || ".emails"): EmailTransport {
+  return {
+    name: "file",
+    async send(email) {
+      await mkdir(directory, { recursive: true });
+      const slug = email.to.replace(/[^a-z0-9]+/gi, "-");
+      const base = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, "-")}-${slug}`);
+
+      await Promise.all([
+        writeFile(`${base}.json`, JSON.stringify(email, null, 2)),
+        writeFile(`${base}.html`, email.html),
+      ]);
+    },
+  };
+}
+
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: "console",
+    async send(email) {
+      console.info(`[email] To: ${email.to}\nSubject: ${email.subject}\n\n${email.text}`);
+    },
+  };
+}
+
+let transport: EmailTransport | null = null;
+
+// The transport named by EMAIL_TRANSPORT. Defaults to SMTP when SMTP_HOST
+// is set and to the console otherwise.
+export function getEmailTransport(): EmailTransport {
+  if (transport) return transport;
+
+  const name = (process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console")) as EmailTransportName;
+  switch (name) {
+    case "smtp":
+      transport = createSmtpTransport();
+      break;
+    case "file":
+      transport = createFileTransport();
+      break;
+    case "console":
+      transport = createConsoleTransport();
+      break;
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${name}"`);
+  }
+  return transport;
+}
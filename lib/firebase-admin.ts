@@ -1,6 +1,8 @@
 import { initializeApp, getApps, cert } from "firebase-admin/app";
-import { getFirestore } from "firebase-admin/firestore";
+import { getFirestore, type Timestamp } from "firebase-admin/firestore";
 import { getAuth } from "firebase-admin/auth";
+import { getStorage } from "firebase-admin/storage";
+import type { AdminRole } from "@/types/admin";
 
 if (!getApps().length) {
   const certConfig = {
@@ -10,9 +12,32 @@ if (!getApps().length) {
   };
 
   initializeApp({
-    credential: cert(certConfig)
+    credential: cert(certConfig),
+    storageBucket: process.env.FIREBASE_STORAGE_BUCKET || process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET
   });
 }
 
 export const adminDb = getFirestore();
-export const adminAuth = getAuth();
\ No newline at end of file
+export const adminAuth = getAuth();
+export const adminStorage = getStorage();
+
+// Firestore timestamps are sent to clients as ISO strings
+export function toIsoString(value?: Timestamp | null) {
+  return value ? value.toDate().toISOString() : null;
+}
+
+// Set (or with `null`, remove) a user's admin role custom claim.
+// Refresh tokens are revoked so the change applies on the next sign-in.
+export async function setAdminRole(uid: string, role: AdminRole | null) {
+  const user = await adminAuth.getUser(uid);
+  const claims = { ...(user.customClaims || {}) };
+
+  if (role) {
+    claims.role = role;
+  } else {
+    delete claims.role;
+  }
+
+  await adminAuth.setCustomUserClaims(uid, claims);
+  await adminAuth.revokeRefreshTokens(uid);
+}
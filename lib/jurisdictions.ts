@@ -0,0 +1,577 @@
+// Catalog of the jurisdictions we incorporate in: company types, packages,
+// subdivision fees, owner requirements, deliverable documents and
+// processing times. The registration
+// wizard, both dashboards, the admin pages and pricing all read from here,
+// so supporting a new jurisdiction is a data change in this file. Package
+// and subdivision prices here are the built-in "default" price version;
+// admins publish newer versions from /admin/settings/pricing (see
+// lib/pricing.ts).
+
+export interface Feature {
+  name: string;
+  included: boolean;
+}
+
+export interface Package {
+  id: string;
+  name: string;
+  price: number; // In whole dollars
+  subtitle: string;
+  plan: string;
+  priceNote?: string;
+  description?: string;
+  recommended?: boolean;
+  features: Feature[];
+}
+
+export interface CompanyType {
+  id: string;
+  name: string;
+}
+
+export interface Subdivision {
+  name: string;
+  price: number; // In whole dollars
+}
+
+// Where inside a country the business is registered (a US state, a
+// Canadian province, a UAE free zone), chosen in its own wizard step and
+// charged on top of the package. Stored on the business as `state`.
+export interface SubdivisionStep {
+  label: string; // e.g. "State"
+  pluralLabel: string;
+  description: string;
+  feeLabel: string; // Line item name after the subdivision, e.g. "State Filing Fee"
+  options: Subdivision[];
+}
+
+// Extra information collected for every owner, stored in owner.details
+export interface OwnerField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  options?: string[];
+  pattern?: RegExp;
+  message?: string; // Shown when the value does not match the pattern
+}
+
+// A document we deliver once the business is registered
+export interface DeliverableDocument {
+  key: string;
+  name: string;
+  // Only delivered with these packages; every package when omitted
+  packages?: string[];
+}
+
+export interface Jurisdiction {
+  id: string;
+  name: string;
+  flagCode: string; // flagcdn.com country code
+  processingTime: string;
+  highlights: string[];
+  companyTypes: CompanyType[];
+  packages: Package[];
+  subdivision?: SubdivisionStep;
+  ownerFields?: OwnerField[];
+  documents: DeliverableDocument[];
+}
+
+export const JURISDICTIONS: Jurisdiction[] = [
+  {
+    id: "us",
+    name: "United States",
+    flagCode: "us",
+    processingTime: "5-7 business days",
+    highlights: ["LLC/Corporation Formation", "EIN Registration", "Registered Agent (1 year)", "Operating Agreement"],
+    companyTypes: [
+      { id: "llc", name: "Limited Liability Company (LLC)" },
+      { id: "l.l.c", name: "Limited Liability Company (L.L.C.)" },
+    ],
+    packages: [
+      {
+        id: "basic",
+        name: "basic",
+        price: 129,
+        subtitle: "For the small",
+        plan: "Basic",
+        description: "Essential features for small businesses",
+        priceNote: "+ State Fees",
+        features: [
+          { name: "Articles of Organization", included: true },
+          { name: "EIN Business Tax Number", included: true },
+          { name: "Lifetime Compliance Alerts", included: true },
+          { name: "Business Banking Account Offer", included: true },
+          { name: "US Address with Mail forwarding", included: true },
+          { name: "Business Tax Consultation", included: true },
+          { name: "Incorporation documents", included: true },
+        ],
+      },
+      {
+        id: "growth",
+        name: "growth",
+        price: 159,
+        subtitle: "For startups",
+        plan: "Growth",
+        description: "Advanced features for growing businesses",
+        priceNote: "+ State Fees",
+        recommended: true,
+        features: [
+          { name: "Order priority", included: true },
+          { name: "Articles of Organization", included: true },
+          { name: "Fast EIN Business Tax Number", included: true },
+          { name: "BOI Reporting", included: true },
+          { name: "Lifetime Compliance Alerts", included: true },
+          { name: "Business Banking Account Offer", included: true },
+          { name: "Business Tax Consultation", included: true },
+          { name: "Incorporation documents", included: true },
+        ],
+      },
+      {
+        id: "enterprise",
+        name: "enterprise",
+        price: 599,
+        subtitle: "For business",
+        plan: "Enterprise",
+        description: "Complete solution for established businesses",
+        priceNote: "+ State Fees",
+        features: [
+          { name: "Order priority", included: true },
+          { name: "Articles of Organization", included: true },
+          { name: "Fast EIN Business Tax Number", included: true },
+          { name: "BOI Reporting", included: true },
+          { name: "Lifetime Compliance Alerts", included: true },
+          { name: "Business Banking Account Offer", included: true },
+          { name: "Incorporation documents", included: true },
+          { name: "ITIN Number", included: true },
+          { name: "DUNS Number", included: true },
+        ],
+      },
+    ],
+    subdivision: {
+      label: "State",
+      pluralLabel: "States",
+      description: "Select the state where you want to register your business. Each state has different registration fees.",
+      feeLabel: "State Filing Fee",
+      options: [
+        { name: "Alabama", price: 99 },
+        { name: "Alaska", price: 149 },
+        { name: "Arizona", price: 129 },
+        { name: "Arkansas", price: 89 },
+        { name: "California", price: 199 },
+        { name: "Colorado", price: 139 },
+        { name: "Connecticut", price: 159 },
+        { name: "Delaware", price: 179 },
+        { name: "Florida", price: 169 },
+        { name: "Georgia", price: 119 },
+        { name: "Hawaii", price: 189 },
+        { name: "Idaho", price: 99 },
+        { name: "Illinois", price: 149 },
+        { name: "Indiana", price: 109 },
+        { name: "Iowa", price: 89 },
+        { name: "Kansas", price: 99 },
+        { name: "Kentucky", price: 109 },
+        { name: "Louisiana", price: 119 },
+        { name: "Maine", price: 129 },
+        { name: "Maryland", price: 149 },
+        { name: "Massachusetts", price: 169 },
+        { name: "Michigan", price: 139 },
+        { name: "Minnesota", price: 129 },
+        { name: "Mississippi", price: 89 },
+        { name: "Missouri", price: 109 },
+        { name: "Montana", price: 99 },
+        { name: "Nebraska", price: 89 },
+        { name: "Nevada", price: 159 },
+        { name: "New Hampshire", price: 139 },
+        { name: "New Jersey", price: 179 },
+        { name: "New York", price: 199 },
+        { name: "North Carolina", price: 129 },
+        { name: "North Dakota", price: 89 },
+        { name: "Ohio", price: 139 },
+        { name: "Oklahoma", price: 99 },
+        { name: "Oregon", price: 129 },
+        { name: "Pennsylvania", price: 159 },
+        { name: "Rhode Island", price: 149 },
+        { name: "South Carolina", price: 119 },
+        { name: "South Dakota", price: 89 },
+        { name: "Tennessee", price: 129 },
+        { name: "Texas", price: 179 },
+        { name: "Utah", price: 119 },
+        { name: "Vermont", price: 129 },
+        { name: "Virginia", price: 149 },
+        { name: "Washington", price: 169 },
+        { name: "West Virginia", price: 99 },
+        { name: "Wisconsin", price: 129 },
+        { name: "Wyoming", price: 109 },
+      ].sort((a, b) => a.name.localeCompare(b.name)),
+    },
+    documents: [
+      { key: "filedArticlesAndOrganizer", name: "Filed Articles & Statement of the Organizer" },
+      { key: "einTaxId", name: "EIN / Tax ID Number" },
+      { key: "boiReport", name: "BOI Report" },
+      { key: "itinNumber", name: "ITIN Number", packages: ["enterprise"] },
+    ],
+  },
+  {
+    id: "uk",
+    name: "United Kingdom",
+    flagCode: "gb",
+    processingTime: "3-5 business days",
+    highlights: ["Limited Company Formation", "VAT Registration", "Company Secretary", "Articles of Association"],
+    companyTypes: [
+      { id: "ltd", name: "Private Limited Company (LTD)" },
+      { id: "limited", name: "Public Limited Company (LIMITED)" },
+    ],
+    packages: [
+      {
+        id: "basic",
+        name: "basic",
+        price: 99,
+        subtitle: "For the small",
+        plan: "Basic",
+        description: "Essential features for small businesses",
+        features: [
+          { name: "Company formation and documents", included: true },
+          { name: "Registered office address", included: true },
+          { name: "Bank account: Stripe + payoneer", included: true },
+          { name: "Certificate of Incorporation", included: true },
+          { name: "Lifetime Compliance Alerts", included: true },
+        ],
+      },
+      {
+        id: "growth",
+        name: "growth",
+        price: 197,
+        subtitle: "For startups",
+        plan: "Growth",
+        description: "Advanced features for growing businesses",
+        recommended: true,
+        features: [
+          { name: "Order priority", included: true },
+          { name: "Company formation and documents", included: true },
+          { name: "FREE UK Business Address", included: true },
+          { name: "Bank account: Stripe + payoneer", included: true },
+          { name: "Certificate of Incorporation", included: true },
+          { name: "Priority customer support", included: true },
+        ],
+      },
+      {
+        id: "enterprise",
+        name: "enterprise",
+        price: 207,
+        subtitle: "For business",
+        plan: "Enterprise",
+        description: "Complete solution for established businesses",
+        features: [
+          { name: "Order priority", included: true },
+          { name: "FREE UK Phone number", included: true },
+          { name: "FREE UK Business Address", included: true },
+          { name: "Company formation and documents", included: true },
+          { name: "Bank account: Stripe + payoneer", included: true },
+          { name: "Certificate of Incorporation", included: true },
+          { name: "Priority customer support", included: true },
+        ],
+      },
+    ],
+    documents: [
+      { key: "businessRegistration", name: "Business Registration" },
+    ],
+  },
+  {
+    id: "ca",
+    name: "Canada",
+    flagCode: "ca",
+    processingTime: "3-7 business days",
+    highlights: ["Federal or Provincial Incorporation", "Business Number (BN)", "Corporate Minute Book", "NUANS Name Search"],
+    companyTypes: [
+      { id: "inc", name: "Incorporated (Inc.)" },
+      { id: "corp", name: "Corporation (Corp.)" },
+      { id: "ltd", name: "Limited (Ltd.)" },
+    ],
+    packages: [
+      {
+        id: "basic",
+        name: "basic",
+        price: 149,
+        subtitle: "For the small",
+        plan: "Basic",
+        description: "Essential features for small businesses",
+        priceNote: "+ Government Fees",
+        features: [
+          { name: "NUANS Name Search", included: true },
+          { name: "Articles of Incorporation", included: true },
+          { name: "Business Number (BN) Registration", included: true },
+          { name: "Lifetime Compliance Alerts", included: true },
+        ],
+      },
+      {
+        id: "growth",
+        name: "growth",
+        price: 229,
+        subtitle: "For startups",
+        plan: "Growth",
+        description: "Advanced features for growing businesses",
+        priceNote: "+ Government Fees",
+        recommended: true,
+        features: [
+          { name: "Order priority", included: true },
+          { name: "NUANS Name Search", included: true },
+          { name: "Articles of Incorporation", included: true },
+          { name: "Business Number (BN) Registration", included: true },
+          { name: "Corporate Minute Book", included: true },
+          { name: "Registered Office Address (1 year)", included: true },
+        ],
+      },
+      {
+        id: "enterprise",
+        name: "enterprise",
+        price: 499,
+        subtitle: "For business",
+        plan: "Enterprise",
+        description: "Complete solution for established businesses",
+        priceNote: "+ Government Fees",
+        features: [
+          { name: "Order priority", included: true },
+          { name: "NUANS Name Search", included: true },
+          { name: "Articles of Incorporation", included: true },
+          { name: "Business Number (BN) Registration", included: true },
+          { name: "Corporate Minute Book", included: true },
+          { name: "Registered Office Address (1 year)", included: true },
+          { name: "GST/HST Registration", included: true },
+        ],
+      },
+    ],
+    subdivision: {
+      label: "Province",
+      pluralLabel: "Provinces",
+      description: "Incorporate federally to operate across Canada, or in the province where you do business. Each has different government fees.",
+      feeLabel: "Incorporation Fee",
+      options: [
+        { name: "Federal (Canada-wide)", price: 200 },
+        { name: "Alberta", price: 275 },
+        { name: "British Columbia", price: 350 },
+        { name: "Manitoba", price: 350 },
+        { name: "New Brunswick", price: 262 },
+        { name: "Newfoundland and Labrador", price: 300 },
+        { name: "Nova Scotia", price: 370 },
+        { name: "Ontario", price: 300 },
+        { name: "Prince Edward Island", price: 265 },
+        { name: "Quebec", price: 370 },
+        { name: "Saskatchewan", price: 265 },
+      ],
+    },
+    ownerFields: [
+      {
+        key: "canadianResident",
+        label: "Resident Canadian",
+        options: ["Yes", "No"],
+      },
+    ],
+    documents: [
+      { key: "certificateOfIncorporation", name: "Certificate of Incorporation" },
+      { key: "articlesOfIncorporation", name: "Articles of Incorporation" },
+      { key: "businessNumber", name: "Business Number (BN)" },
+      { key: "minuteBook", name: "Corporate Minute Book", packages: ["growth", "enterprise"] },
+      { key: "gstRegistration", name: "GST/HST Registration", packages: ["enterprise"] },
+    ],
+  },
+  {
+    id: "ae",
+    name: "United Arab Emirates",
+    flagCode: "ae",
+    processingTime: "7-10 business days",
+    highlights: ["Free Zone Company Formation", "Trade License", "100% Foreign Ownership", "Visa Eligibility"],
+    companyTypes: [
+      { id: "fze", name: "Free Zone Establishment (FZE)" },
+      { id: "fzco", name: "Free Zone Company (FZCO)" },
+    ],
+    packages: [
+      {
+        id: "basic",
+        name: "basic",
+        price: 399,
+        subtitle: "For the small",
+        plan: "Basic",
+        description: "Essential features for small businesses",
+        priceNote: "+ Free Zone Fees",
+        features: [
+          { name: "Trade License Application", included: true },
+          { name: "Memorandum of Association", included: true },
+          { name: "Certificate of Incorporation", included: true },
+          { name: "Lifetime Compliance Alerts", included: true },
+        ],
+      },
+      {
+        id: "growth",
+        name: "growth",
+        price: 599,
+        subtitle: "For startups",
+        plan: "Growth",
+        description: "Advanced features for growing businesses",
+        priceNote: "+ Free Zone Fees",
+        recommended: true,
+        features: [
+          { name: "Order priority", included: true },
+          { name: "Trade License Application", included: true },
+          { name: "Memorandum of Association", included: true },
+          { name: "Certificate of Incorporation", included: true },
+          { name: "Establishment Card", included: true },
+          { name: "Bank Account Introduction", included: true },
+        ],
+      },
+      {
+        id: "enterprise",
+        name: "enterprise",
+        price: 999,
+        subtitle: "For business",
+        plan: "Enterprise",
+        description: "Complete solution for established businesses",
+        priceNote: "+ Free Zone Fees",
+        features: [
+          { name: "Order priority", included: true },
+          { name: "Trade License Application", included: true },
+          { name: "Memorandum of Association", included: true },
+          { name: "Certificate of Incorporation", included: true },
+          { name: "Establishment Card", included: true },
+          { name: "Bank Account Introduction", included: true },
+          { name: "Investor Visa Processing", included: true },
+        ],
+      },
+    ],
+    subdivision: {
+      label: "Free Zone",
+      pluralLabel: "Free Zones",
+      description: "Select the free zone your company will be licensed in. Each free zone has its own license and registration fees.",
+      feeLabel: "Free Zone License Fee",
+      options: [
+        { name: "Ajman Free Zone (AFZ)", price: 2800 },
+        { name: "Dubai Multi Commodities Centre (DMCC)", price: 9900 },
+        { name: "International Free Zone Authority (IFZA)", price: 4200 },
+        { name: "Meydan Free Zone", price: 3900 },
+        { name: "Ras Al Khaimah Economic Zone (RAKEZ)", price: 3300 },
+        { name: "Sharjah Media City (SHAMS)", price: 3200 },
+      ],
+    },
+    ownerFields: [
+      { key: "nationality", label: "Nationality", placeholder: "e.g. Indian" },
+      {
+        key: "passportNumber",
+        label: "Passport number",
+        placeholder: "Enter passport number",
+        pattern: /^[A-Z0-9]{6,12}$/i,
+        message: "Passport numbers are 6 to 12 letters and digits",
+      },
+    ],
+    documents: [
+      { key: "tradeLicense", name: "Trade License" },
+      { key: "certificateOfIncorporation", name: "Certificate of Incorporation" },
+      { key: "memorandumOfAssociation", name: "Memorandum of Association" },
+      { key: "establishmentCard", name: "Establishment Card", packages: ["growth", "enterprise"] },
+    ],
+  },
+  {
+    id: "ee",
+    name: "Estonia",
+    flagCode: "ee",
+    processingTime: "1-3 business days",
+    highlights: ["e-Residency OÜ Formation", "Fully Online Management", "EU Company", "Share Capital Deferral"],
+    companyTypes: [
+      { id: "ou", name: "Private Limited Company (OÜ)" },
+    ],
+    packages: [
+      {
+        id: "basic",
+        name: "basic",
+        price: 199,
+        subtitle: "For the small",
+        plan: "Basic",
+        description: "Essential features for small businesses",
+        priceNote: "State fee included",
+        features: [
+          { name: "OÜ Registration", included: true },
+          { name: "Articles of Association", included: true },
+          { name: "Legal Address (1 year)", included: true },
+          { name: "Lifetime Compliance Alerts", included: true },
+        ],
+      },
+      {
+        id: "growth",
+        name: "growth",
+        price: 349,
+        subtitle: "For startups",
+        plan: "Growth",
+        description: "Advanced features for growing businesses",
+        priceNote: "State fee included",
+        recommended: true,
+        features: [
+          { name: "Order priority", included: true },
+          { name: "OÜ Registration", included: true },
+          { name: "Articles of Association", included: true },
+          { name: "Legal Address (1 year)", included: true },
+          { name: "Contact Person Service (1 year)", included: true },
+          { name: "Bank Account Introduction", included: true },
+        ],
+      },
+      {
+        id: "enterprise",
+        name: "enterprise",
+        price: 599,
+        subtitle: "For business",
+        plan: "Enterprise",
+        description: "Complete solution for established businesses",
+        priceNote: "State fee included",
+        features: [
+          { name: "Order priority", included: true },
+          { name: "OÜ Registration", included: true },
+          { name: "Articles of Association", included: true },
+          { name: "Legal Address (1 year)", included: true },
+          { name: "Contact Person Service (1 year)", included: true },
+          { name: "Bank Account Introduction", included: true },
+          { name: "VAT Registration", included: true },
+        ],
+      },
+    ],
+    ownerFields: [
+      {
+        key: "eResidencyCode",
+        label: "Estonian personal identification code",
+        placeholder: "11-digit code from your e-Residency card",
+        pattern: /^\d{11}$/,
+        message: "The identification code has 11 digits",
+      },
+    ],
+    documents: [
+      { key: "registryCard", name: "Commercial Register Registry Card" },
+      { key: "articlesOfAssociation", name: "Articles of Association" },
+      { key: "vatNumber", name: "VAT Number", packages: ["enterprise"] },
+    ],
+  },
+];
+
+export function getJurisdiction(country?: string): Jurisdiction | undefined {
+  return JURISDICTIONS.find(jurisdiction => jurisdiction.name === country);
+}
+
+export function getCompanyTypes(country?: string): CompanyType[] {
+  return getJurisdiction(country)?.companyTypes ?? [];
+}
+
+// The subdivision step for a country, or undefined when it has none
+export function getSubdivisionStep(country?: string): SubdivisionStep | undefined {
+  return getJurisdiction(country)?.subdivision;
+}
+
+// Countries with a subdivision step and fee on top of the package
+export function isSubdivisionRequired(country?: string) {
+  return !!getSubdivisionStep(country);
+}
+
+export function getOwnerFields(country?: string): OwnerField[] {
+  return getJurisdiction(country)?.ownerFields ?? [];
+}
+
+// Documents delivered for a country and package, in display order
+export function getRequiredDocuments(country?: string, packageName?: string): DeliverableDocument[] {
+  return (getJurisdiction(country)?.documents ?? []).filter(
+    doc => !doc.packages || doc.packages.includes(packageName || "")
+  );
+}
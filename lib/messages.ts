@@ -0,0 +1,98 @@
+import { z } from "zod";
+
+// Message threads between a customer and the admin team, one or more per
+// business. Threads live in the top-level messageThreads collection so the
+// admin inbox can list them across customers; the messages themselves are
+// in each thread's messages subcollection. Both are server-only and read
+// through /api/messages and /api/admin/messages.
+
+export type ThreadStatus = 'open' | 'closed';
+
+// Which side of the conversation a message or read receipt belongs to
+export type MessageSide = 'customer' | 'admin';
+
+export interface MessageAttachment {
+  name: string;
+  path: string; // Storage path, under users/{userId}/attachments/
+  url: string; // /api/documents/[id]
+  contentType: string;
+  size: number;
+}
+
+export interface MessageSender {
+  uid: string;
+  email: string;
+  side: MessageSide;
+}
+
+export interface Message {
+  id: string;
+  body: string;
+  attachments: MessageAttachment[];
+  sender: MessageSender;
+  createdAt: string;
+}
+
+export interface ThreadAssignee {
+  uid: string;
+  email: string;
+}
+
+export interface MessageThread {
+  id: string;
+  userId: string;
+  businessId: string;
+  companyName: string;
+  subject: string;
+  status: ThreadStatus;
+  assignedTo: ThreadAssignee | null;
+  lastMessage: { preview: string; side: MessageSide; createdAt: string } | null;
+  // Messages the other side sent since each side last opened the thread
+  unread: Record<MessageSide, number>;
+  // Read receipts: when each side last opened the thread
+  lastReadAt: Record<MessageSide, string | null>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const MESSAGE_MAX_LENGTH = 5000;
+export const MAX_ATTACHMENTS = 5;
+
+// Folder under users/{userId}/ that /api/upload stores attachments in
+export const ATTACHMENTS_FOLDER = 'attachments';
+
+// Attachments are uploaded through /api/upload first and referenced here
+// by storage path; the server looks up the rest
+export const attachmentInputSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  path: z.string().min(1),
+}).strict();
+
+export const messageInputSchema = z.object({
+  body: z.string().trim()
+    .min(1, "Write a message")
+    .max(MESSAGE_MAX_LENGTH, `Keep messages under ${MESSAGE_MAX_LENGTH} characters`),
+  attachments: z.array(attachmentInputSchema)
+    .max(MAX_ATTACHMENTS, `Attach at most ${MAX_ATTACHMENTS} files`)
+    .default([]),
+}).strict();
+
+// Body of POST /api/messages, which opens a thread with its first message
+export const threadInputSchema = messageInputSchema.extend({
+  businessId: z.string().min(1, "Choose a business"),
+  subject: z.string().trim().min(1, "Add a subject").max(200),
+}).strict();
+
+export type AttachmentInput = z.infer<typeof attachmentInputSchema>;
+export type MessageInput = z.infer<typeof messageInputSchema>;
+export type ThreadInput = z.infer<typeof threadInputSchema>;
+
+export function getOtherSide(side: MessageSide): MessageSide {
+  return side === 'customer' ? 'admin' : 'customer';
+}
+
+// Whether the other side has opened the thread since a message was sent
+export function isMessageRead(thread: MessageThread, message: Message) {
+  const readAt = thread.lastReadAt[getOtherSide(message.sender.side)];
+  return !!readAt && readAt >= message.createdAt;
+}
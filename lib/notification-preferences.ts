@@ -0,0 +1,63 @@
+// Email notifications customers can opt out of from /dashboard/settings.
+// Preferences are stored on users/{uid} as `notificationPreferences`;
+// missing keys fall back to the defaults below.
+
+export type NotificationPreference =
+  | 'paymentReceipts'
+  | 'statusUpdates'
+  | 'documentDelivered'
+  | 'messages'
+  | 'draftReminders';
+
+export type NotificationPreferences = Record<NotificationPreference, boolean>;
+
+export const NOTIFICATION_PREFERENCES: {
+  key: NotificationPreference;
+  label: string;
+  description: string;
+}[] = [
+  {
+    key: 'paymentReceipts',
+    label: 'Payment receipts',
+    description: 'A receipt when a payment or refund goes through',
+  },
+  {
+    key: 'statusUpdates',
+    label: 'Registration updates',
+    description: 'When a registration moves to its next stage',
+  },
+  {
+    key: 'documentDelivered',
+    label: 'Documents',
+    description: 'When new company documents are ready to download',
+  },
+  {
+    key: 'messages',
+    label: 'Messages',
+    description: 'When our team replies to one of your conversations',
+  },
+  {
+    key: 'draftReminders',
+    label: 'Reminders',
+    description: 'Reminders to finish registrations you started',
+  },
+];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  paymentReceipts: true,
+  statusUpdates: true,
+  documentDelivered: true,
+  messages: true,
+  draftReminders: true,
+};
+
+export function getNotificationPreferences(stored: unknown): NotificationPreferences {
+  const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES };
+  if (!stored || typeof stored !== 'object') return preferences;
+
+  for (const { key } of NOTIFICATION_PREFERENCES) {
+    const value = (stored as Record<string, unknown>)[key];
+    if (typeof value === 'boolean') preferences[key] = value;
+  }
+  return preferences;
+}
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { JURISDICTIONS } from "@/lib/jurisdictions";
+
+// Validation for the pricing admin screens. A price version prices every
+// jurisdiction in the catalog, so checkout never falls back to an older
+// version for part of a registration.
+
+export const featureSchema = z.object({
+  name: z.string().trim().min(1, "Feature name is required"),
+  included: z.boolean(),
+}).strict();
+
+export const packageSchema = z.object({
+  id: z.string().min(1),
+  // Stored on businesses and used to pick deliverable documents
+  name: z.string().regex(/^[a-z0-9-]+$/, "Use lowercase letters, numbers and dashes"),
+  plan: z.string().trim().min(1, "Plan name is required"),
+  subtitle: z.string().trim().default(""),
+  price: z.number().int("Prices are whole amounts").min(0, "Price cannot be negative"),
+  priceNote: z.string().trim().optional(),
+  description: z.string().trim().optional(),
+  recommended: z.boolean().optional(),
+  features: z.array(featureSchema),
+}).strict();
+
+export const jurisdictionPricingSchema = z.object({
+  currency: z.string().regex(/^[a-z]{3}$/, "Use a three-letter currency code, e.g. usd"),
+  packages: z.array(packageSchema).min(1, "Offer at least one package"),
+  subdivisionFees: z.record(
+    z.string(),
+    z.number().int("Fees are whole amounts").min(0, "Fee cannot be negative")
+  ).optional(),
+}).strict();
+
+// Body of POST /api/admin/pricing
+export const priceVersionSchema = z.object({
+  effectiveAt: z.coerce.date({ errorMap: () => ({ message: "Enter a valid date" }) })
+    .refine(date => date.getTime() >= Date.now() - 60 * 1000, "Effective date cannot be in the past"),
+  note: z.string().trim().max(500).default(""),
+  jurisdictions: z.record(z.string(), jurisdictionPricingSchema),
+}).strict().superRefine((version, ctx) => {
+  for (const jurisdiction of JURISDICTIONS) {
+    const pricing = version.jurisdictions[jurisdiction.id];
+    if (!pricing) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["jurisdictions", jurisdiction.id],
+        message: `Prices for ${jurisdiction.name} are required`,
+      });
+      continue;
+    }
+
+    const names = pricing.packages.map(pkg => pkg.name);
+    names.forEach((name, index) => {
+      if (names.indexOf(name) !== index) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["jurisdictions", jurisdiction.id, "packages", index, "name"],
+          message: `Package "${name}" is listed twice`,
+        });
+      }
+    });
+
+    for (const option of jurisdiction.subdivision?.options ?? []) {
+      if (typeof pricing.subdivisionFees?.[option.name] !== "number") {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["jurisdictions", jurisdiction.id, "subdivisionFees", option.name],
+          message: `Fee for ${option.name} is required`,
+        });
+      }
+    }
+  }
+
+  for (const id of Object.keys(version.jurisdictions)) {
+    if (!JURISDICTIONS.some(jurisdiction => jurisdiction.id === id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["jurisdictions", id],
+        message: "Unknown jurisdiction",
+      });
+    }
+  }
+});
+
+export type PriceVersionInput = z.infer<typeof priceVersionSchema>;
@@ -0,0 +1,143 @@
+import {
+  getJurisdiction,
+  getSubdivisionStep,
+  JURISDICTIONS,
+  type Package,
+  type Subdivision
+} from "@/lib/jurisdictions";
+
+// Pricing shared by the registration wizard, the admin pricing screen and
+// the checkout route. Prices live in versions: the built-in default built
+// from the jurisdiction catalog, and the versions admins publish to
+// Firestore with an effective date. A draft is priced with the version
+// that was in effect when it was created, and the server always recomputes
+// the amount charged from that version.
+
+export const PRICING_CURRENCY = "usd";
+
+// Id of the version built from lib/jurisdictions.ts. Drafts created before
+// any version was published are priced with it.
+export const DEFAULT_PRICE_VERSION_ID = "default";
+
+export interface JurisdictionPricing {
+  currency: string; // ISO 4217, lowercase as Stripe expects
+  packages: Package[];
+  // Keyed by subdivision name, in whole currency units
+  subdivisionFees?: Record<string, number>;
+}
+
+export interface PriceVersion {
+  id: string;
+  effectiveAt: string; // ISO date
+  note: string;
+  // Keyed by jurisdiction id, e.g. "us"
+  jurisdictions: Record<string, JurisdictionPricing>;
+  createdBy?: string; // Admin email
+  createdAt?: string;
+}
+
+export interface PriceLineItem {
+  name: string;
+  amount: number; // In cents
+}
+
+interface PricedSelection {
+  country?: { name: string };
+  package?: { name: string };
+  state?: { name: string };
+}
+
+export class PricingError extends Error {}
+
+export function getDefaultPriceVersion(): PriceVersion {
+  return {
+    id: DEFAULT_PRICE_VERSION_ID,
+    effectiveAt: new Date(0).toISOString(),
+    note: "Built-in prices",
+    jurisdictions: Object.fromEntries(JURISDICTIONS.map(jurisdiction => [
+      jurisdiction.id,
+      {
+        currency: PRICING_CURRENCY,
+        packages: jurisdiction.packages,
+        subdivisionFees: jurisdiction.subdivision && Object.fromEntries(
+          jurisdiction.subdivision.options.map(option => [option.name, option.price])
+        ),
+      },
+    ])),
+  };
+}
+
+// Jurisdictions added to the catalog after a version was published use
+// their built-in prices
+function getJurisdictionPricing(version: PriceVersion, country?: string) {
+  const jurisdiction = getJurisdiction(country);
+  if (!jurisdiction) return undefined;
+  return version.jurisdictions[jurisdiction.id]
+    ?? getDefaultPriceVersion().jurisdictions[jurisdiction.id];
+}
+
+// Packages offered in a country, or undefined for unsupported countries
+export function getPricedPackages(version: PriceVersion, country?: string): Package[] | undefined {
+  return getJurisdictionPricing(version, country)?.packages;
+}
+
+// Subdivision options with this version's fees. Options the version has no
+// fee for are not offered.
+export function getPricedSubdivisions(version: PriceVersion, country?: string): Subdivision[] {
+  const fees = getJurisdictionPricing(version, country)?.subdivisionFees ?? {};
+  return (getSubdivisionStep(country)?.options ?? [])
+    .filter(option => typeof fees[option.name] === "number")
+    .map(option => ({ name: option.name, price: fees[option.name] }));
+}
+
+export function getCurrency(version: PriceVersion, country?: string) {
+  return getJurisdictionPricing(version, country)?.currency ?? PRICING_CURRENCY;
+}
+
+// Price for display, e.g. "$129", "AED 1,500" or "$43.20". Cents are only
+// shown when there are any.
+export function formatPrice(amount: number, currency: string = PRICING_CURRENCY) {
+  const digits = Number.isInteger(amount) ? 0 : 2;
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(amount);
+}
+
+// Build the line items for a registration from its country, package and
+// subdivision names. Prices sent by the client are ignored.
+export function getLineItems(selection: PricedSelection, version: PriceVersion): PriceLineItem[] {
+  const country = selection.country?.name;
+  const packages = getPricedPackages(version, country);
+  if (!packages) {
+    throw new PricingError(`Unsupported country: ${country}`);
+  }
+
+  const pkg = packages.find(p => p.name === selection.package?.name);
+  if (!pkg) {
+    throw new PricingError(`Unknown package: ${selection.package?.name}`);
+  }
+
+  const lineItems: PriceLineItem[] = [
+    { name: `${pkg.plan} Package (${country})`, amount: pkg.price * 100 },
+  ];
+
+  // The selected subdivision (state, province, free zone) is stored as `state`
+  const subdivision = getSubdivisionStep(country);
+  if (subdivision) {
+    const state = getPricedSubdivisions(version, country).find(s => s.name === selection.state?.name);
+    if (!state) {
+      throw new PricingError(`Unknown ${subdivision.label.toLowerCase()}: ${selection.state?.name}`);
+    }
+    lineItems.push({ name: `${state.name} ${subdivision.feeLabel}`, amount: state.price * 100 });
+  }
+
+  return lineItems;
+}
+
+// Total in cents
+export function getTotalAmount(lineItems: PriceLineItem[]) {
+  return lineItems.reduce((total, item) => total + item.amount, 0);
+}
@@ -0,0 +1,156 @@
+import { z } from "zod";
+import { getJurisdiction, JURISDICTIONS } from "@/lib/jurisdictions";
+import { formatPrice, getTotalAmount, type PriceLineItem } from "@/lib/pricing";
+
+// Promo codes customers enter on the Review step. The checkout route
+// checks them again against the saved draft and applies them as a Stripe
+// coupon, and the Stripe webhook records a redemption once the payment
+// succeeds.
+
+export type DiscountType = 'percent' | 'fixed';
+
+export interface PromoCode {
+  code: string; // Uppercase, also the document ID
+  description: string;
+  discountType: DiscountType;
+  percentOff?: number; // 1-99
+  amountOff?: number; // In whole currency units
+  currency?: string; // Of amountOff
+  // Empty means every country or package
+  countries: string[]; // Jurisdiction ids, e.g. "us"
+  packages: string[]; // Package names, e.g. "growth"
+  expiresAt: string | null; // ISO date
+  maxRedemptions: number | null;
+  redemptionCount: number;
+  active: boolean;
+  stripeCouponId: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface PromoCodeRedemption {
+  businessId: string;
+  userId: string;
+  companyName: string;
+  amountDiscounted: number; // In cents
+  amountPaid: number; // In cents
+  currency: string;
+  stripePaymentIntentId: string;
+  redeemedAt: string;
+}
+
+// Response of POST /api/promo-codes/validate, amounts in cents
+export interface PromoCodePreview {
+  code: string;
+  label: string;
+  currency: string;
+  subtotal: number;
+  discount: number;
+  total: number;
+}
+
+interface DiscountedSelection {
+  country?: { name: string };
+  package?: { name: string };
+}
+
+export class PromoCodeError extends Error {}
+
+// Codes are also document IDs, so they cannot contain slashes
+export const PROMO_CODE_PATTERN = /^[A-Za-z0-9_-]{3,32}$/;
+
+// Body of POST /api/admin/promo-codes
+export const promoCodeSchema = z.object({
+  code: z.string().trim()
+    .regex(PROMO_CODE_PATTERN, "Use 3 to 32 letters, numbers, dashes or underscores")
+    .transform(code => code.toUpperCase()),
+  description: z.string().trim().max(200).default(""),
+  discountType: z.enum(["percent", "fixed"]),
+  percentOff: z.number().int().min(1, "At least 1%").max(99, "At most 99%").optional(),
+  amountOff: z.number().int("Amounts are whole").min(1, "Amount must be positive").optional(),
+  currency: z.string().regex(/^[a-z]{3}$/, "Use a three-letter currency code, e.g. usd").optional(),
+  countries: z.array(z.string().refine(
+    id => JURISDICTIONS.some(jurisdiction => jurisdiction.id === id),
+    "Unknown jurisdiction"
+  )).default([]),
+  packages: z.array(z.string().min(1)).default([]),
+  expiresAt: z.coerce.date()
+    .refine(date => date.getTime() > Date.now(), "Expiry must be in the future")
+    .nullable()
+    .default(null),
+  maxRedemptions: z.number().int().min(1, "Allow at least one redemption").nullable().default(null),
+}).strict().superRefine((promo, ctx) => {
+  if (promo.discountType === "percent" && promo.percentOff === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["percentOff"], message: "Percentage is required" });
+  }
+  if (promo.discountType === "fixed") {
+    if (promo.amountOff === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["amountOff"], message: "Amount is required" });
+    }
+    if (!promo.currency) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["currency"], message: "Currency is required" });
+    }
+  }
+});
+
+export type PromoCodeInput = z.infer<typeof promoCodeSchema>;
+
+export function normalizePromoCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+export function describeDiscount(promo: Pick<PromoCode, 'discountType' | 'percentOff' | 'amountOff' | 'currency'>) {
+  return promo.discountType === 'percent'
+    ? `${promo.percentOff}% off`
+    : `${formatPrice(promo.amountOff || 0, promo.currency)} off`;
+}
+
+// Throws PromoCodeError with a customer-facing message when the code
+// cannot be used for this registration
+export function assertPromoCodeApplies(
+  promo: PromoCode,
+  selection: DiscountedSelection,
+  currency: string,
+  now = new Date()
+) {
+  const invalid = `Promo code ${promo.code} is not valid`;
+
+  if (!promo.active) {
+    throw new PromoCodeError(invalid);
+  }
+  if (promo.expiresAt && new Date(promo.expiresAt) <= now) {
+    throw new PromoCodeError(`Promo code ${promo.code} has expired`);
+  }
+  if (promo.maxRedemptions !== null && promo.redemptionCount >= promo.maxRedemptions) {
+    throw new PromoCodeError(`Promo code ${promo.code} has been fully redeemed`);
+  }
+
+  const countryId = getJurisdiction(selection.country?.name)?.id;
+  if (promo.countries.length > 0 && (!countryId || !promo.countries.includes(countryId))) {
+    throw new PromoCodeError(`${invalid} for ${selection.country?.name || "this country"}`);
+  }
+  if (promo.packages.length > 0 && !promo.packages.includes(selection.package?.name || "")) {
+    throw new PromoCodeError(`${invalid} for the ${selection.package?.name || "selected"} package`);
+  }
+  if (promo.discountType === 'fixed' && promo.currency !== currency) {
+    throw new PromoCodeError(`${invalid} for payments in ${currency.toUpperCase()}`);
+  }
+}
+
+// Discount in cents, as Stripe computes it for a once-off coupon on the
+// whole order
+export function getDiscountAmount(promo: PromoCode, lineItems: PriceLineItem[]) {
+  const subtotal = getTotalAmount(lineItems);
+  const discount = promo.discountType === 'percent'
+    ? Math.round(subtotal * (promo.percentOff || 0) / 100)
+    : (promo.amountOff || 0) * 100;
+  return Math.min(discount, subtotal);
+}
+
+// Stripe completes a free Checkout Session without a payment, which the
+// webhook cannot mark as paid, so a code must leave something to pay
+export function assertPromoCodeLeavesPayment(promo: PromoCode, lineItems: PriceLineItem[]) {
+  if (getDiscountAmount(promo, lineItems) >= getTotalAmount(lineItems)) {
+    throw new PromoCodeError(`Promo code ${promo.code} cannot cover the whole order`);
+  }
+}
@@ -0,0 +1,63 @@
+import { decodeProtectedHeader, importX509, jwtVerify, type JWTPayload } from "jose";
+
+// Edge-compatible session cookie checks. This module must not import
+// firebase-admin so that middleware can use it.
+
+export const SESSION_COOKIE_NAME = "__session";
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 5;
+
+const SESSION_CERTS_URL =
+  "https://www.googleapis.com/identitytoolkit/v3/relyingparty/publicKeys";
+
+export interface SessionClaims extends JWTPayload {
+  sub: string;
+  email?: string;
+  role?: string;
+}
+
+let cachedCerts: { certs: Record<string, string>; expiresAt: number } | null = null;
+
+// Google's signing certificates, cached for as long as the response allows
+async function getSessionCerts(): Promise<Record<string, string>> {
+  if (cachedCerts && cachedCerts.expiresAt > Date.now()) {
+    return cachedCerts.certs;
+  }
+
+  const response = await fetch(SESSION_CERTS_URL);
+  if (!response.ok) {
+    throw new Error("Failed to fetch session cookie certificates");
+  }
+
+  const maxAge = Number(
+    response.headers.get("cache-control")?.match(/max-age=(\d+)/)?.[1] || 3600
+  );
+  const certs = await response.json();
+  cachedCerts = { certs, expiresAt: Date.now() + maxAge * 1000 };
+  return certs;
+}
+
+// Verify a Firebase session cookie's signature, issuer, audience and expiry.
+// Revocation is not checked here; API routes re-verify with the admin SDK.
+export async function verifySessionCookieClaims(cookie: string): Promise<SessionClaims | null> {
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  if (!projectId) return null;
+
+  try {
+    const { kid, alg } = decodeProtectedHeader(cookie);
+    if (!kid || alg !== "RS256") return null;
+
+    const certs = await getSessionCerts();
+    if (!certs[kid]) return null;
+
+    const key = await importX509(certs[kid], "RS256");
+    const { payload } = await jwtVerify(cookie, key, {
+      issuer: `https://session.firebase.google.com/${projectId}`,
+      audience: projectId,
+    });
+
+    if (!payload.sub) return null;
+    return payload as SessionClaims;
+  } catch {
+    return null;
+  }
+}
@@ -1,7 +1,12 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE_NAME, verifySessionCookieClaims } from '@/lib/session-cookie';
+import { isAdminRole } from '@/lib/admin-roles';
 
-export function middleware(request: NextRequest) {
+// Admin pages reachable without a session
+const PUBLIC_ADMIN_PATHS = ['/admin/signin', '/admin/signup'];
+
+export async function middleware(request: NextRequest) {
   const path = request.nextUrl.pathname;
 
   // If accessing root or /signin, redirect based on path
@@ -9,14 +14,32 @@ export function middleware(request: NextRequest) {
     return NextResponse.redirect(new URL('/signin', request.url));
   }
 
-  // Don't redirect if already on a signin page or admin path
-  if (path === '/signin' || path.startsWith('/admin')) {
+  const isDashboardPath = path === '/dashboard' || path.startsWith('/dashboard/');
+  const isAdminPath = (path === '/admin' || path.startsWith('/admin/'))
+    && !PUBLIC_ADMIN_PATHS.some(publicPath => path.startsWith(publicPath));
+
+  if (!isDashboardPath && !isAdminPath) {
     return NextResponse.next();
   }
 
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const claims = sessionCookie ? await verifySessionCookieClaims(sessionCookie) : null;
+
+  if (isDashboardPath && !claims) {
+    const response = NextResponse.redirect(new URL('/signin', request.url));
+    if (sessionCookie) response.cookies.delete(SESSION_COOKIE_NAME);
+    return response;
+  }
+
+  if (isAdminPath && !isAdminRole(claims?.role)) {
+    const response = NextResponse.redirect(new URL('/admin/signin', request.url));
+    if (sessionCookie && !claims) response.cookies.delete(SESSION_COOKIE_NAME);
+    return response;
+  }
+
   return NextResponse.next();
 }
 
 export const config = {
   matcher: ['/((?!api|_next/static|_next/image|favicon.ico).*)'],
-};
\ No newline at end of file
+};
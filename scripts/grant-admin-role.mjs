@@ -0,0 +1,36 @@
+// Grant (or revoke with "none") an admin role custom claim.
+// Used to bootstrap the first owner before anyone can issue invites:
+//   npm run admin:grant -- owner@example.com owner
+import { initializeApp, cert } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+
+const ROLES = ["owner", "admin", "support", "viewer"];
+const [email, role] = process.argv.slice(2);
+
+if (!email || !(ROLES.includes(role) || role === "none")) {
+  console.error(`Usage: npm run admin:grant -- <email> <${ROLES.join("|")}|none>`);
+  process.exit(1);
+}
+
+initializeApp({
+  credential: cert({
+    projectId: process.env.FIREBASE_PROJECT_ID,
+    clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+    privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, "\n"),
+  }),
+});
+
+const auth = getAuth();
+const user = await auth.getUserByEmail(email);
+const claims = { ...(user.customClaims || {}) };
+
+if (role === "none") {
+  delete claims.role;
+} else {
+  claims.role = role;
+}
+
+await auth.setCustomUserClaims(user.uid, claims);
+await auth.revokeRefreshTokens(user.uid);
+
+console.log(`${email}: role ${role === "none" ? "removed" : `set to ${role}`}`);
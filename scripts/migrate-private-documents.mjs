@@ -0,0 +1,141 @@
+// Move documents stored with public download URLs to private document
+// records. For every business, `documents[key].url` becomes
+// `documents[key].id` and `owner[].documentUrl` becomes
+// `owner[].documentId`; message attachments get /api/documents/[id] URLs.
+// The files' download tokens are then revoked, so old URLs stop working.
+// Safe to run more than once:
+//   npm run documents:migrate -- [--dry-run]
+import { createHash } from "crypto";
+import { initializeApp, cert } from "firebase-admin/app";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+
+const dryRun = process.argv.includes("--dry-run");
+
+initializeApp({
+  credential: cert({
+    projectId: process.env.FIREBASE_PROJECT_ID,
+    clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+    privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, "\n"),
+  }),
+  storageBucket: process.env.FIREBASE_STORAGE_BUCKET || process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+});
+
+const db = getFirestore();
+const bucket = getStorage().bucket();
+const stats = { businesses: 0, attachments: 0, records: 0, revoked: 0, missing: 0 };
+
+// Same as getStoragePathFromUrl in utils/firebase.ts
+function getStoragePath(url) {
+  return decodeURIComponent(url).split("/o/")[1].split("?")[0];
+}
+
+// Find or create the record for a file, or null when the file is gone.
+// Migrated files have no known uploader and start at version 1.
+async function getRecordId(url, { userId, businessId, type, name }) {
+  const path = getStoragePath(url);
+  const existing = await db.collection("documents").where("path", "==", path).limit(1).get();
+  if (!existing.empty) return existing.docs[0].id;
+
+  const file = bucket.file(path);
+  const [exists] = await file.exists();
+  if (!exists) {
+    console.warn(`Missing file ${path}`);
+    stats.missing++;
+    return null;
+  }
+
+  const [metadata] = await file.getMetadata();
+  const ref = db.collection("documents").doc();
+  stats.records++;
+  if (!dryRun) {
+    const [contents] = await file.download();
+    await ref.create({
+      userId,
+      businessId,
+      type,
+      path,
+      name: name || path.split("/").pop(),
+      contentType: metadata.contentType || "application/octet-stream",
+      size: contents.length,
+      sha256: createHash("sha256").update(contents).digest("hex"),
+      uploadedBy: null,
+      uploadedAt: metadata.timeCreated ? Timestamp.fromDate(new Date(metadata.timeCreated)) : Timestamp.now(),
+      version: 1,
+      supersedes: null,
+      supersededBy: null,
+    });
+    await file.setMetadata({ metadata: { firebaseStorageDownloadTokens: null } });
+  }
+  stats.revoked++;
+  return ref.id;
+}
+
+const businesses = await db.collectionGroup("businesses").get();
+for (const businessDoc of businesses.docs) {
+  const business = businessDoc.data();
+  const userId = businessDoc.ref.parent.parent.id;
+  const update = {};
+
+  const documents = Object.entries(business.documents || {});
+  if (documents.some(([, document]) => document.url)) {
+    const migrated = {};
+    for (const [key, document] of documents) {
+      const id = document.id ||
+        await getRecordId(document.url, { userId, businessId: businessDoc.id, type: key, name: document.name });
+      if (id) migrated[key] = { id, name: document.name };
+    }
+    update.documents = migrated;
+  }
+
+  if ((business.owner || []).some(owner => owner.documentUrl)) {
+    update.owner = await Promise.all(business.owner.map(async ({ documentUrl, ...owner }) => {
+      if (!documentUrl) return owner;
+      const documentId = await getRecordId(documentUrl, {
+        userId,
+        businessId: businessDoc.id,
+        type: "ownerId",
+        name: owner.documentName,
+      });
+      return documentId ? { ...owner, documentId } : owner;
+    }));
+  }
+
+  if (Object.keys(update).length === 0) continue;
+  stats.businesses++;
+  console.log(`${dryRun ? "Would migrate" : "Migrating"} ${businessDoc.ref.path}`);
+  if (dryRun) continue;
+
+  const changes = Object.fromEntries(
+    Object.entries(update).map(([field, after]) => [field, { before: business[field] ?? null, after }])
+  );
+  const batch = db.batch();
+  batch.update(businessDoc.ref, update);
+  batch.set(businessDoc.ref.collection("events").doc(), {
+    type: "updated",
+    actor: null,
+    reason: "Documents moved to private storage",
+    changes,
+    createdAt: Timestamp.now(),
+  });
+  await batch.commit();
+}
+
+const messages = await db.collectionGroup("messages").get();
+for (const messageDoc of messages.docs) {
+  const attachments = messageDoc.data().attachments || [];
+  if (!attachments.some(attachment => !attachment.url.startsWith("/api/documents/"))) continue;
+
+  const { userId, businessId } = (await messageDoc.ref.parent.parent.get()).data();
+  const migrated = await Promise.all(attachments.map(async attachment => {
+    if (attachment.url.startsWith("/api/documents/")) return attachment;
+    const id = await getRecordId(attachment.url, { userId, businessId, type: "attachment", name: attachment.name });
+    return id ? { ...attachment, url: `/api/documents/${id}` } : attachment;
+  }));
+
+  stats.attachments++;
+  if (!dryRun) await messageDoc.ref.update({ attachments: migrated });
+}
+
+console.log(`${dryRun ? "Dry run: " : ""}${stats.businesses} businesses and ${stats.attachments} messages migrated, ` +
+  `${stats.records} document records created, ${stats.revoked} download tokens revoked, ${stats.missing} files missing`);
@@ -0,0 +1,34 @@
+// Run the storage sweep (utils/storage-gc.ts) through the running app's
+// cron route and print its report:
+//   npm run storage:gc -- [--dry-run]
+// NEXT_PUBLIC_BASE_URL and CRON_SECRET come from .env.local.
+const dryRun = process.argv.includes("--dry-run");
+const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000";
+
+if (!process.env.CRON_SECRET) {
+  console.error("CRON_SECRET is not set");
+  process.exit(1);
+}
+
+const response = await fetch(`${baseUrl}/api/cron/storage-gc${dryRun ? "?dryRun=1" : ""}`, {
+  headers: { Authorization: `Bearer ${process.env.CRON_SECRET}` },
+});
+const report = await response.json();
+
+if (!response.ok) {
+  console.error(`Sweep failed: ${report.error || response.statusText}`);
+  process.exit(1);
+}
+
+for (const orphan of report.orphans) {
+  console.log(`${dryRun ? "Would quarantine" : "Quarantined"} ${orphan.path} (${orphan.size} bytes, ` +
+    `${orphan.documentId ? `record ${orphan.documentId}` : "no record"})`);
+}
+for (const path of report.missingFiles) {
+  console.warn(`Missing file ${path}`);
+}
+
+console.log(`${dryRun ? "Dry run: " : ""}${report.scanned} files scanned, ${report.referenced} referenced, ` +
+  `${report.tooRecent} too recent, ${report.orphans.length} orphaned, ${report.quarantined} quarantined, ` +
+  `${report.restored} restored, ${report.deleted} deleted (${report.deletedBytes} bytes), ` +
+  `${report.missingFiles.length} records missing files`);
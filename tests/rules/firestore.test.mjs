@@ -0,0 +1,242 @@
+// Firestore rules tests. Run against the emulator with `npm run test:rules`.
+import { after, before, beforeEach, describe, test } from "node:test";
+import { readFileSync } from "fs";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  Timestamp,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from "firebase/firestore";
+
+// Keep in sync with serverFields() in firestore.rules
+const SERVER_FIELDS = [
+  "status", "statusHistory", "paymentDetails", "checkout",
+  "lastPaymentError", "abandonedAt", "refunds", "cancellation",
+  "documents", "adminNotes", "reminderSentAt", "createdAt",
+];
+
+const ALICE = "alice";
+const BOB = "bob";
+const BUSINESS_ID = "business1";
+const BUSINESS_PATH = `users/${ALICE}/businesses/${BUSINESS_ID}`;
+
+let testEnv;
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: "demo-privatily",
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+  });
+});
+
+after(() => testEnv.cleanup());
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seedBusiness({ status: "draft" });
+});
+
+// Write a business with the rules disabled, as the admin SDK would
+function seedBusiness(data) {
+  return testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await setDoc(doc(db, `users/${ALICE}`), { email: "alice@example.com" });
+    await setDoc(doc(db, BUSINESS_PATH), {
+      company: { name: "Acme", type: "llc", industry: "software" },
+      lastEventId: "seeded",
+      createdAt: Timestamp.fromDate(new Date("2025-01-01")),
+      ...data,
+    });
+    await setDoc(doc(db, `${BUSINESS_PATH}/events/seeded`), { type: "created" });
+  });
+}
+
+function firestoreFor(uid) {
+  return testEnv.authenticatedContext(uid, { email: `${uid}@example.com` }).firestore();
+}
+
+function customerEvent(uid, type = "updated") {
+  return {
+    type,
+    actor: { uid, email: `${uid}@example.com`, role: "customer" },
+    reason: "",
+    changes: {},
+    createdAt: serverTimestamp(),
+  };
+}
+
+// A business update together with its audit event, as utils/firebase.ts
+// writes it
+function updateWithEvent(db, path, data, uid = ALICE) {
+  const businessRef = doc(db, path);
+  const eventRef = doc(collection(businessRef, "events"));
+  const batch = writeBatch(db);
+  batch.update(businessRef, { ...data, lastEventId: eventRef.id });
+  batch.set(eventRef, customerEvent(uid));
+  return batch.commit();
+}
+
+function createWithEvent(db, path, data, uid = ALICE) {
+  const businessRef = doc(db, path);
+  const eventRef = doc(collection(businessRef, "events"));
+  const batch = writeBatch(db);
+  batch.set(businessRef, { ...data, lastEventId: eventRef.id });
+  batch.set(eventRef, customerEvent(uid, "created"));
+  return batch.commit();
+}
+
+describe("per-user isolation", () => {
+  test("owners can read their profile and businesses", async () => {
+    const db = firestoreFor(ALICE);
+    await assertSucceeds(getDoc(doc(db, `users/${ALICE}`)));
+    await assertSucceeds(getDoc(doc(db, BUSINESS_PATH)));
+    await assertSucceeds(getDoc(doc(db, `${BUSINESS_PATH}/events/seeded`)));
+  });
+
+  test("other users cannot read another user's data", async () => {
+    const db = firestoreFor(BOB);
+    await assertFails(getDoc(doc(db, `users/${ALICE}`)));
+    await assertFails(getDoc(doc(db, BUSINESS_PATH)));
+    await assertFails(getDoc(doc(db, `${BUSINESS_PATH}/events/seeded`)));
+  });
+
+  test("other users cannot write another user's data", async () => {
+    const db = firestoreFor(BOB);
+    await assertFails(setDoc(doc(db, `users/${ALICE}`), { email: "bob@example.com" }));
+    await assertFails(createWithEvent(db, `users/${ALICE}/businesses/business2`, { status: "draft" }, BOB));
+    await assertFails(updateWithEvent(db, BUSINESS_PATH, { company: { name: "Taken" } }, BOB));
+    await assertFails(deleteDoc(doc(db, BUSINESS_PATH)));
+  });
+
+  test("signed-out users cannot read or write", async () => {
+    const db = testEnv.unauthenticatedContext().firestore();
+    await assertFails(getDoc(doc(db, BUSINESS_PATH)));
+    await assertFails(setDoc(doc(db, `users/${ALICE}`), { email: "nobody@example.com" }));
+  });
+
+  test("server-only collections are closed to clients", async () => {
+    const db = firestoreFor(ALICE);
+    await assertFails(getDoc(doc(db, "admins/any")));
+    await assertFails(setDoc(doc(db, "documents/any"), { userId: ALICE }));
+  });
+});
+
+describe("server-only fields", () => {
+  test("customers can create drafts and edit them", async () => {
+    const db = firestoreFor(ALICE);
+    await assertSucceeds(createWithEvent(db, `users/${ALICE}/businesses/business2`, {
+      status: "draft",
+      createdAt: serverTimestamp(),
+    }));
+    await assertSucceeds(updateWithEvent(db, BUSINESS_PATH, { company: { name: "Acme 2" } }));
+  });
+
+  test("drafts must be created as drafts", async () => {
+    const db = firestoreFor(ALICE);
+    await assertFails(createWithEvent(db, `users/${ALICE}/businesses/business2`, {
+      status: "paid",
+      createdAt: serverTimestamp(),
+    }));
+  });
+
+  for (const field of SERVER_FIELDS) {
+    test(`customers cannot update ${field}`, async () => {
+      const db = firestoreFor(ALICE);
+      await assertFails(updateWithEvent(db, BUSINESS_PATH, { [field]: "forged" }));
+    });
+
+    if (field === "status" || field === "createdAt") continue;
+
+    test(`customers cannot create a business with ${field}`, async () => {
+      const db = firestoreFor(ALICE);
+      await assertFails(createWithEvent(db, `users/${ALICE}/businesses/business2`, {
+        status: "draft",
+        createdAt: serverTimestamp(),
+        [field]: "forged",
+      }));
+    });
+  }
+
+  test("drafts must be created with the server's time", async () => {
+    const db = firestoreFor(ALICE);
+    await assertFails(createWithEvent(db, `users/${ALICE}/businesses/business2`, {
+      status: "draft",
+      createdAt: Timestamp.fromDate(new Date("2020-01-01")),
+    }));
+    await assertFails(createWithEvent(db, `users/${ALICE}/businesses/business2`, { status: "draft" }));
+  });
+
+  test("paid businesses cannot be edited or deleted by customers", async () => {
+    await seedBusiness({ status: "paid", package: { name: "basic" } });
+    const db = firestoreFor(ALICE);
+    await assertFails(updateWithEvent(db, BUSINESS_PATH, { package: { name: "premium" } }));
+    await assertFails(deleteDoc(doc(db, BUSINESS_PATH)));
+  });
+
+  test("businesses awaiting payment can still be edited but not deleted", async () => {
+    await seedBusiness({ status: "awaiting_payment" });
+    const db = firestoreFor(ALICE);
+    await assertSucceeds(updateWithEvent(db, BUSINESS_PATH, { company: { name: "Acme 2" } }));
+    await assertFails(deleteDoc(doc(db, BUSINESS_PATH)));
+  });
+
+  test("drafts can be deleted by their owner", async () => {
+    await seedBusiness({ status: "draft" });
+    await assertSucceeds(deleteDoc(doc(firestoreFor(ALICE), BUSINESS_PATH)));
+  });
+});
+
+describe("audit events", () => {
+  test("business writes without a new event are rejected", async () => {
+    const db = firestoreFor(ALICE);
+    await assertFails(updateDoc(doc(db, BUSINESS_PATH), { company: { name: "Acme 2" } }));
+  });
+
+  test("lastEventId cannot point at an existing event", async () => {
+    const db = firestoreFor(ALICE);
+    await assertFails(updateDoc(doc(db, BUSINESS_PATH), {
+      company: { name: "Acme 2" },
+      lastEventId: "seeded",
+    }));
+  });
+
+  test("lastEventId must point at the event written in the same batch", async () => {
+    const db = firestoreFor(ALICE);
+    const businessRef = doc(db, BUSINESS_PATH);
+    const batch = writeBatch(db);
+    batch.update(businessRef, { company: { name: "Acme 2" }, lastEventId: "other" });
+    batch.set(doc(collection(businessRef, "events")), customerEvent(ALICE));
+    await assertFails(batch.commit());
+  });
+
+  test("events cannot be created on their own", async () => {
+    const db = firestoreFor(ALICE);
+    await assertFails(setDoc(doc(db, `${BUSINESS_PATH}/events/standalone`), customerEvent(ALICE)));
+  });
+
+  test("events must name the signed-in customer as actor", async () => {
+    const db = firestoreFor(ALICE);
+    const businessRef = doc(db, BUSINESS_PATH);
+    const eventRef = doc(collection(businessRef, "events"));
+    const batch = writeBatch(db);
+    batch.update(businessRef, { company: { name: "Acme 2" }, lastEventId: eventRef.id });
+    batch.set(eventRef, { ...customerEvent(ALICE), actor: { uid: ALICE, email: "", role: "admin" } });
+    await assertFails(batch.commit());
+  });
+
+  test("events are append-only", async () => {
+    const db = firestoreFor(ALICE);
+    await assertFails(updateDoc(doc(db, `${BUSINESS_PATH}/events/seeded`), { type: "updated" }));
+    await assertFails(deleteDoc(doc(db, `${BUSINESS_PATH}/events/seeded`)));
+  });
+});
@@ -0,0 +1,44 @@
+// Storage rules tests. Run against the emulator with `npm run test:rules`.
+import { after, before, test } from "node:test";
+import { readFileSync } from "fs";
+import {
+  assertFails,
+  initializeTestEnvironment,
+} from "@firebase/rules-unit-testing";
+
+let testEnv;
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: "demo-privatily",
+    storage: { rules: readFileSync("storage.rules", "utf8") },
+  });
+});
+
+after(() => testEnv.cleanup());
+
+const PATHS = [
+  "users/alice/documents/id.pdf",
+  "users/alice/attachments/note.pdf",
+  "quarantine/users/alice/documents/id.pdf",
+];
+
+test("owners cannot read or write their own files directly", async () => {
+  const storage = testEnv.authenticatedContext("alice").storage();
+  for (const path of PATHS) {
+    await assertFails(storage.ref(path).putString("contents"));
+    await assertFails(storage.ref(path).getMetadata());
+    await assertFails(storage.ref(path).getDownloadURL());
+    await assertFails(storage.ref(path).delete());
+  }
+});
+
+test("other users and signed-out users cannot access files", async () => {
+  for (const context of [testEnv.authenticatedContext("bob"), testEnv.unauthenticatedContext()]) {
+    const storage = context.storage();
+    for (const path of PATHS) {
+      await assertFails(storage.ref(path).putString("contents"));
+      await assertFails(storage.ref(path).getMetadata());
+    }
+  }
+});
@@ -1,7 +1,22 @@
+export type AdminRole = 'owner' | 'admin' | 'support' | 'viewer';
+
 export interface AdminUser {
+    uid: string;
     email: string;
-    role: 'admin';
+    displayName?: string | null;
+    role: AdminRole;
     createdAt: any;
+    lastSignInTime?: string;
+  }
+
+  export interface AdminInvite {
+    id: string;
+    email: string;
+    role: AdminRole;
+    invitedBy: string;
+    createdAt: any;
+    expiresAt: any;
+    acceptedAt?: any;
   }
   
   export interface AuthState {
@@ -9,4 +24,4 @@ export interface AdminUser {
     isAdmin: boolean;
     error: string | null;
     user: any;
-  }
\ No newline at end of file
+  }
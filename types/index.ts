@@ -1,3 +1,6 @@
+import type { AdminRole } from "./admin";
+import type { BusinessStatus } from "@/lib/business-lifecycle";
+
 export interface Business {
   id: string;
   path: string;
@@ -18,10 +21,17 @@ export interface Business {
     fullName: string;
     ownership: string;
     birthDate?: string;
-    documentUrl?: string;
+    documentId?: string;
     documentName?: string;
   }>;
-  status: 'draft' | 'completed';
+  status: BusinessStatus;
+  statusHistory?: Array<{
+    from: BusinessStatus;
+    to: BusinessStatus;
+    actor: { uid: string; email: string; role: AdminRole } | null;
+    reason: string;
+    changedAt: any;
+  }>;
   paymentDetails?: {
     amount: number;
     currency: string;
@@ -53,9 +63,12 @@ export interface User {
 }
 
 export interface AdminUser {
+  uid: string;
   email: string;
-  role: 'admin';
+  displayName?: string | null;
+  role: AdminRole;
   createdAt: any;
+  lastSignInTime?: string;
 }
 
 export interface AuthState {
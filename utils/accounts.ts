@@ -0,0 +1,77 @@
+import { adminAuth, adminDb, adminStorage } from "@/lib/firebase-admin";
+import { stripe } from "@/lib/stripe";
+import { normalizeStatus, type BusinessStatus } from "@/lib/business-lifecycle";
+import { AFFILIATES_COLLECTION, REFERRALS_COLLECTION } from "@/utils/affiliates";
+import { MESSAGE_THREADS_COLLECTION } from "@/utils/messages";
+import { DOCUMENTS_COLLECTION } from "@/utils/documents";
+
+// Deleting an account removes everything stored about the customer: the
+// users/{uid} document with its businesses and audit events, uploaded
+// files and their document records, message threads and the affiliate
+// record, then the Auth user. Commissions, promo-code redemptions and
+// payout batches stay, as financial records, and so does the document
+// access log.
+
+// Registrations our team is still working on
+const IN_PROGRESS_STATUSES: BusinessStatus[] = [
+  'paid',
+  'in_review',
+  'filed_with_state',
+  'ein_pending',
+];
+
+export class AccountDeletionError extends Error {}
+
+export async function deleteAccount(uid: string) {
+  const userRef = adminDb.collection("users").doc(uid);
+  const businesses = await userRef.collection("businesses").get();
+
+  const inProgress = businesses.docs.filter(doc =>
+    IN_PROGRESS_STATUSES.includes(normalizeStatus(doc.data().status))
+  );
+  if (inProgress.length > 0) {
+    const names = inProgress.map(doc => doc.data().company?.name || doc.id).join(", ");
+    throw new AccountDeletionError(
+      `We are still working on ${names}. Cancel ${inProgress.length === 1 ? "it" : "them"} or wait until ${inProgress.length === 1 ? "it is" : "they are"} delivered before deleting your account.`
+    );
+  }
+
+  // A payment for a deleted draft would have nowhere to go
+  for (const doc of businesses.docs) {
+    const checkout = doc.data().checkout;
+    if (checkout?.status !== "open") continue;
+
+    await stripe.checkout.sessions.expire(checkout.sessionId).catch(error => {
+      console.warn(`Could not expire checkout session ${checkout.sessionId}:`, error);
+    });
+  }
+
+  const threads = await adminDb
+    .collection(MESSAGE_THREADS_COLLECTION)
+    .where("userId", "==", uid)
+    .get();
+  for (const thread of threads.docs) {
+    await adminDb.recursiveDelete(thread.ref);
+  }
+
+  const documents = await adminDb
+    .collection(DOCUMENTS_COLLECTION)
+    .where("userId", "==", uid)
+    .get();
+  for (let i = 0; i < documents.docs.length; i += 500) {
+    const batch = adminDb.batch();
+    documents.docs.slice(i, i + 500).forEach(doc => batch.delete(doc.ref));
+    await batch.commit();
+  }
+
+  await Promise.all([
+    adminDb.collection(AFFILIATES_COLLECTION).doc(uid).delete(),
+    adminDb.collection(REFERRALS_COLLECTION).doc(uid).delete(),
+    adminStorage.bucket().deleteFiles({ prefix: `users/${uid}/` }),
+  ]);
+
+  await adminDb.recursiveDelete(userRef);
+
+  // Last, so a failed deletion can be retried by signing in again
+  await adminAuth.deleteUser(uid);
+}
@@ -1,63 +1,90 @@
-import { auth, db } from "@/lib/firebase";
-import { 
-  signInWithEmailAndPassword, 
-  createUserWithEmailAndPassword,
-  signOut
+import { auth } from "@/lib/firebase";
+import { isAdminRole } from "@/lib/admin-roles";
+import { authFetch } from "@/utils/auth-fetch";
+import { endSession, startSession } from "@/utils/session";
+import {
+  signInWithEmailAndPassword,
+  signOut,
+  type User
 } from "firebase/auth";
-import { 
-  doc, 
-  setDoc, 
-  getDoc,
-  serverTimestamp 
-} from "firebase/firestore";
+import type { AdminRole } from "@/types/admin";
+
+// Read the admin role custom claim from the user's ID token
+export const getAdminRole = async (user: User | null): Promise<AdminRole | null> => {
+  if (!user) return null;
+
+  try {
+    const { claims } = await user.getIdTokenResult();
+    return isAdminRole(claims.role) ? claims.role : null;
+  } catch {
+    return null;
+  }
+};
 
 export const signInAdmin = async (email: string, password: string) => {
   try {
     const userCredential = await signInWithEmailAndPassword(auth, email, password);
-    const adminDoc = await getDoc(doc(db, "admins", email));
-    
-    if (!adminDoc.exists()) {
+    const role = await getAdminRole(userCredential.user);
+
+    if (!role) {
       await signOut(auth);
       throw new Error("Not authorized as admin");
     }
-    
+
+    await startSession(userCredential.user);
     return userCredential.user;
   } catch (error: any) {
     throw new Error(error.message);
   }
 };
 
-export const signUpAdmin = async (email: string, password: string) => {
-  try {
-    const userCredential = await createUserWithEmailAndPassword(auth, email, password);
-    
-    await setDoc(doc(db, "admins", email), {
-      email,
-      role: 'admin',
-      createdAt: serverTimestamp()
-    });
+// Redeem a one-time invite; new accounts are created server-side
+export const acceptAdminInvite = async (token: string, password: string) => {
+  const response = await fetch("/api/admin/invites/accept", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ token, password }),
+  });
 
-    return userCredential.user;
-  } catch (error: any) {
-    throw new Error(error.message);
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || "Failed to accept invite");
+
+  return signInAdmin(data.email, password);
+};
+
+// Redeem a one-time invite for an account that already exists
+export const acceptAdminInviteWithExistingAccount = async (
+  token: string,
+  email: string,
+  password: string
+) => {
+  await signInWithEmailAndPassword(auth, email, password);
+
+  const response = await authFetch("/api/admin/invites/accept", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ token }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    await signOut(auth);
+    throw new Error(data.error || "Failed to accept invite");
   }
+
+  // Granting the role revokes existing sessions, so sign in again for fresh claims
+  await signOut(auth);
+  return signInAdmin(email, password);
 };
 
 export const signOutAdmin = async () => {
   try {
-    await signOut(auth);
+    await endSession();
   } catch (error: any) {
     throw new Error(error.message);
   }
 };
 
-export const checkIsAdmin = async (email: string | null): Promise<boolean> => {
-  if (!email) return false;
-  
-  try {
-    const adminDoc = await getDoc(doc(db, "admins", email));
-    return adminDoc.exists();
-  } catch {
-    return false;
-  }
-};
\ No newline at end of file
+export const checkIsAdmin = async (user: User | null): Promise<boolean> => {
+  return (await getAdminRole(user)) !== null;
+};
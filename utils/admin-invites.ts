@@ -0,0 +1,14 @@
+import { createHash, randomBytes } from "crypto";
+
+export const ADMIN_INVITES_COLLECTION = "adminInvites";
+export const INVITE_TTL_DAYS = 7;
+
+// The raw token only ever lives in the invite link; Firestore keeps its hash
+export function hashInviteToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateInviteToken(): { token: string; inviteId: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, inviteId: hashInviteToken(token) };
+}
@@ -0,0 +1,310 @@
+import { randomBytes } from "crypto";
+import { adminDb, toIsoString } from "@/lib/firebase-admin";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import type { DocumentSnapshot, Transaction } from "firebase-admin/firestore";
+import {
+  getCommissionAmount,
+  normalizeReferralCode,
+  type Affiliate,
+  type Commission,
+  type CommissionStatus,
+  type Payout,
+  type PayoutLine
+} from "@/lib/affiliates";
+
+// Affiliates are keyed by the customer's uid, referrals by the referred
+// customer's uid and commissions by businessId, so each signup and each
+// registration is counted at most once. All of these are server-only.
+export const AFFILIATES_COLLECTION = "affiliates";
+export const REFERRALS_COLLECTION = "referrals";
+export const COMMISSIONS_COLLECTION = "affiliateCommissions";
+export const PAYOUTS_COLLECTION = "affiliatePayouts";
+
+// Signups older than this are existing accounts signing in again
+const ATTRIBUTION_WINDOW_MS = 60 * 60 * 1000;
+
+// Commissions claimed by one payout; Firestore transactions are limited to
+// 500 writes, one of which creates the payout
+const MAX_PAYOUT_COMMISSIONS = 499;
+
+// Unambiguous characters for referral codes
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function toAffiliate(doc: DocumentSnapshot): Affiliate {
+  const data = doc.data()!;
+  return {
+    ...data,
+    uid: doc.id,
+    createdAt: toIsoString(data.createdAt)!,
+  } as Affiliate;
+}
+
+function toCommission(doc: DocumentSnapshot): Commission {
+  const data = doc.data()!;
+  return {
+    ...data,
+    id: doc.id,
+    createdAt: toIsoString(data.createdAt)!,
+    reviewedAt: toIsoString(data.reviewedAt) ?? undefined,
+    paidAt: toIsoString(data.paidAt) ?? undefined,
+  } as Commission;
+}
+
+function generateReferralCode() {
+  return Array.from(randomBytes(8), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+}
+
+async function findAffiliateByCode(code: string) {
+  const snapshot = await adminDb
+    .collection(AFFILIATES_COLLECTION)
+    .where("code", "==", normalizeReferralCode(code))
+    .limit(1)
+    .get();
+
+  return snapshot.empty ? null : snapshot.docs[0];
+}
+
+// The customer's affiliate record, created with a new referral code on
+// first use
+export async function getOrCreateAffiliate(uid: string, email: string): Promise<Affiliate> {
+  const ref = adminDb.collection(AFFILIATES_COLLECTION).doc(uid);
+  const existing = await ref.get();
+  if (existing.exists) return toAffiliate(existing);
+
+  let code = generateReferralCode();
+  while (await findAffiliateByCode(code)) {
+    code = generateReferralCode();
+  }
+
+  await adminDb.runTransaction(async (transaction) => {
+    // Another request may have created it in the meantime
+    if ((await transaction.get(ref)).exists) return;
+
+    transaction.create(ref, {
+      code,
+      email,
+      clicks: 0,
+      signups: 0,
+      conversions: 0,
+      createdAt: Timestamp.now(),
+    });
+  });
+
+  return toAffiliate(await ref.get());
+}
+
+// Count a visit to a referral link. Unknown codes are ignored.
+export async function recordReferralClick(code: string) {
+  const affiliate = await findAffiliateByCode(code);
+  if (!affiliate) return false;
+
+  await affiliate.ref.update({ clicks: FieldValue.increment(1) });
+  return true;
+}
+
+// Attribute a new account to the affiliate who referred it. Returns false
+// when the code is unknown, the account refers itself, is not new or was
+// already attributed.
+export async function attributeReferral(referredUid: string, accountCreatedAt: Date, code: string) {
+  if (Date.now() - accountCreatedAt.getTime() > ATTRIBUTION_WINDOW_MS) return false;
+
+  const affiliate = await findAffiliateByCode(code);
+  if (!affiliate || affiliate.id === referredUid) return false;
+
+  const referralRef = adminDb.collection(REFERRALS_COLLECTION).doc(referredUid);
+
+  return adminDb.runTransaction(async (transaction) => {
+    if ((await transaction.get(referralRef)).exists) return false;
+
+    transaction.create(referralRef, {
+      affiliateUid: affiliate.id,
+      code: affiliate.data()!.code,
+      createdAt: Timestamp.now(),
+    });
+    transaction.update(affiliate.ref, { signups: FieldValue.increment(1) });
+    return true;
+  });
+}
+
+// Read half of recordCommission
+export async function getCommissionSnapshots(transaction: Transaction, referredUid: string, businessId: string) {
+  return Promise.all([
+    transaction.get(adminDb.collection(REFERRALS_COLLECTION).doc(referredUid)),
+    transaction.get(adminDb.collection(COMMISSIONS_COLLECTION).doc(businessId)),
+  ]);
+}
+
+// Credit the referring affiliate for a paid registration, once per
+// business. Customers who were not referred earn nobody a commission.
+export function recordCommission(
+  transaction: Transaction,
+  [referral, existing]: DocumentSnapshot[],
+  payment: Pick<Commission, "referredUid" | "businessId" | "companyName" | "amountPaid" | "currency" | "stripePaymentIntentId">
+) {
+  if (!referral.exists || existing.exists) return;
+
+  const amount = getCommissionAmount(payment.amountPaid);
+  if (amount <= 0) return;
+
+  const affiliateUid: string = referral.data()!.affiliateUid;
+  transaction.create(existing.ref, {
+    ...payment,
+    affiliateUid,
+    amount,
+    status: "pending",
+    createdAt: Timestamp.now(),
+  });
+  transaction.update(adminDb.collection(AFFILIATES_COLLECTION).doc(affiliateUid), {
+    conversions: FieldValue.increment(1),
+  });
+}
+
+export async function listAffiliateCommissions(affiliateUid: string): Promise<Commission[]> {
+  const snapshot = await adminDb
+    .collection(COMMISSIONS_COLLECTION)
+    .where("affiliateUid", "==", affiliateUid)
+    .orderBy("createdAt", "desc")
+    .get();
+
+  return snapshot.docs.map(toCommission);
+}
+
+export async function listCommissions(status?: CommissionStatus): Promise<Commission[]> {
+  let query = adminDb
+    .collection(COMMISSIONS_COLLECTION)
+    .orderBy("createdAt", "desc");
+  if (status) query = query.where("status", "==", status);
+
+  const snapshot = await query.get();
+  return snapshot.docs.map(toCommission);
+}
+
+// Approve or reject pending commissions. Commissions that are no longer
+// pending are left alone. Returns the updated commissions.
+export async function reviewCommissions(
+  ids: string[],
+  status: "approved" | "rejected",
+  reviewedBy: string
+): Promise<Commission[]> {
+  const refs = ids.map(id => adminDb.collection(COMMISSIONS_COLLECTION).doc(id));
+
+  const updated = await adminDb.runTransaction(async (transaction) => {
+    const docs = await transaction.getAll(...refs);
+    const pending = docs.filter(doc => doc.exists && doc.data()!.status === "pending");
+
+    for (const doc of pending) {
+      transaction.update(doc.ref, {
+        status,
+        reviewedBy,
+        reviewedAt: Timestamp.now(),
+      });
+    }
+    return pending.map(doc => doc.ref);
+  });
+
+  return Promise.all(updated.map(async ref => toCommission(await ref.get())));
+}
+
+// Reject the commission on a registration that was fully refunded or
+// cancelled, unless it has already been paid out
+export async function rejectCommission(businessId: string, reason: string, reviewedBy?: string) {
+  const ref = adminDb.collection(COMMISSIONS_COLLECTION).doc(businessId);
+
+  await adminDb.runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    if (!doc.exists || !["pending", "approved"].includes(doc.data()!.status)) return;
+
+    transaction.update(ref, {
+      status: "rejected",
+      ...(reviewedBy && { reviewedBy }),
+      reviewedAt: Timestamp.now(),
+      rejectionReason: reason,
+    });
+  });
+}
+
+// Group approved commissions into one line per affiliate and currency
+function toPayoutLines(commissions: DocumentSnapshot[], affiliates: Map<string, DocumentSnapshot>) {
+  const lines = new Map<string, PayoutLine>();
+
+  for (const doc of commissions) {
+    const { affiliateUid, currency, amount } = doc.data()!;
+    const key = `${affiliateUid}:${currency}`;
+    const affiliate = affiliates.get(affiliateUid)?.data();
+
+    const line = lines.get(key) || {
+      affiliateUid,
+      email: affiliate?.email || "",
+      code: affiliate?.code || "",
+      currency,
+      amount: 0,
+      commissionCount: 0,
+    };
+    line.amount += amount;
+    line.commissionCount += 1;
+    lines.set(key, line);
+  }
+
+  return [...lines.values()];
+}
+
+// Mark approved commissions as paid and record them as a payout, up to
+// MAX_PAYOUT_COMMISSIONS at a time. The commissions are read again in the
+// transaction, so concurrent requests cannot pay the same one twice.
+// Returns null when nothing is approved.
+export async function createPayout(createdBy: string): Promise<Payout | null> {
+  const payoutRef = adminDb.collection(PAYOUTS_COLLECTION).doc();
+
+  const created = await adminDb.runTransaction(async (transaction) => {
+    const approved = await transaction.get(adminDb
+      .collection(COMMISSIONS_COLLECTION)
+      .where("status", "==", "approved")
+      .orderBy("createdAt")
+      .limit(MAX_PAYOUT_COMMISSIONS));
+    if (approved.empty) return false;
+
+    const affiliateUids = [...new Set(approved.docs.map(doc => doc.data().affiliateUid as string))];
+    const affiliateDocs = await transaction.getAll(
+      ...affiliateUids.map(uid => adminDb.collection(AFFILIATES_COLLECTION).doc(uid))
+    );
+    const affiliates = new Map(affiliateDocs.map(doc => [doc.id, doc]));
+
+    const now = Timestamp.now();
+    transaction.create(payoutRef, {
+      commissionIds: approved.docs.map(doc => doc.id),
+      lines: toPayoutLines(approved.docs, affiliates),
+      createdBy,
+      createdAt: now,
+    });
+    for (const doc of approved.docs) {
+      transaction.update(doc.ref, { status: "paid", payoutId: payoutRef.id, paidAt: now });
+    }
+    return true;
+  });
+
+  return created ? getPayout(payoutRef.id) : null;
+}
+
+export async function listPayouts(): Promise<Payout[]> {
+  const snapshot = await adminDb
+    .collection(PAYOUTS_COLLECTION)
+    .orderBy("createdAt", "desc")
+    .get();
+
+  return snapshot.docs.map(doc => ({
+    ...doc.data(),
+    id: doc.id,
+    createdAt: toIsoString(doc.data().createdAt)!,
+  }) as Payout);
+}
+
+export async function getPayout(payoutId: string): Promise<Payout | null> {
+  const doc = await adminDb.collection(PAYOUTS_COLLECTION).doc(payoutId).get();
+  if (!doc.exists) return null;
+
+  return {
+    ...doc.data(),
+    id: doc.id,
+    createdAt: toIsoString(doc.data()!.createdAt)!,
+  } as Payout;
+}
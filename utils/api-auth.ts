@@ -0,0 +1,94 @@
+import { adminAuth } from "@/lib/firebase-admin";
+import { ADMIN_ROLES, isAdminRole } from "@/lib/admin-roles";
+import { SESSION_COOKIE_NAME } from "@/lib/session-cookie";
+import { NextResponse } from "next/server";
+import type { DecodedIdToken } from "firebase-admin/auth";
+import type { AdminRole } from "@/types/admin";
+
+export interface AdminContext {
+  uid: string;
+  email: string;
+  role: AdminRole;
+  token: DecodedIdToken;
+}
+
+// Pull the Firebase ID token out of an `Authorization: Bearer <token>` header
+function getBearerToken(request: Request): string | null {
+  const header = request.headers.get("authorization");
+  if (!header?.startsWith("Bearer ")) return null;
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+// Read the Firebase session cookie set by /api/auth/session
+function getSessionCookie(request: Request): string | null {
+  const cookies = request.headers.get("cookie")?.split(";") || [];
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === SESSION_COOKIE_NAME) return value.join("=") || null;
+  }
+  return null;
+}
+
+// Verify the caller's ID token (or session cookie), or return a 401 response
+export async function requireUser(request: Request): Promise<DecodedIdToken | NextResponse> {
+  const idToken = getBearerToken(request);
+  const sessionCookie = idToken ? null : getSessionCookie(request);
+
+  if (!idToken && !sessionCookie) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    return idToken
+      ? await adminAuth.verifyIdToken(idToken, true)
+      : await adminAuth.verifySessionCookie(sessionCookie!, true);
+  } catch (error) {
+    console.error("Error verifying credentials:", error);
+    return NextResponse.json(
+      { error: "Invalid or expired credentials" },
+      { status: 401 }
+    );
+  }
+}
+
+// Verify the caller holds one of the given admin roles, or return a 401/403 response
+export async function requireAdmin(
+  request: Request,
+  roles: AdminRole[] = ADMIN_ROLES
+): Promise<AdminContext | NextResponse> {
+  const token = await requireUser(request);
+  if (token instanceof NextResponse) return token;
+
+  const role = token.role;
+  if (!isAdminRole(role) || !token.email) {
+    return NextResponse.json(
+      { error: "Not authorized as admin" },
+      { status: 403 }
+    );
+  }
+
+  if (!roles.includes(role)) {
+    return NextResponse.json(
+      { error: "Your role does not allow this action" },
+      { status: 403 }
+    );
+  }
+
+  return { uid: token.uid, email: token.email, role, token };
+}
+
+// Check the `Authorization: Bearer <CRON_SECRET>` header sent by the
+// scheduler, or return a 401 response
+export function requireCronSecret(request: Request): NextResponse | null {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || getBearerToken(request) !== secret) {
+    return NextResponse.json(
+      { error: "Invalid cron secret" },
+      { status: 401 }
+    );
+  }
+  return null;
+}
@@ -0,0 +1,17 @@
+import { auth } from "@/lib/firebase";
+
+// fetch() that sends the signed-in user's ID token to our API routes.
+// Without a client user it falls back to the session cookie.
+export async function authFetch(input: RequestInfo | URL, init: RequestInit = {}) {
+  await auth.authStateReady();
+  const user = auth.currentUser;
+  if (!user) {
+    return fetch(input, { ...init, credentials: "same-origin" });
+  }
+
+  const idToken = await user.getIdToken();
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${idToken}`);
+
+  return fetch(input, { ...init, headers });
+}
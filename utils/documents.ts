@@ -0,0 +1,180 @@
+import { adminDb, adminStorage, toIsoString } from "@/lib/firebase-admin";
+import { Timestamp } from "firebase-admin/firestore";
+import type { DocumentSnapshot } from "firebase-admin/firestore";
+import type { DecodedIdToken } from "firebase-admin/auth";
+import { ADMIN_ROLES, ADMIN_WRITE_ROLES, isAdminRole } from "@/lib/admin-roles";
+import { CUSTOMER_ROLE, type EventActor } from "@/lib/business-events";
+import { normalizeStatus, PAYABLE_STATUSES } from "@/lib/business-lifecycle";
+import {
+  ATTACHMENT_TYPE,
+  OWNER_ID_TYPE,
+  SIGNED_URL_TTL_SECONDS,
+  type DocumentAccessMode,
+  type DocumentRecord
+} from "@/lib/documents";
+
+// Records are keyed by an auto ID. Reads are logged to the top-level
+// documentAccess collection, which outlives the records so the trail
+// survives account deletion.
+export const DOCUMENTS_COLLECTION = "documents";
+export const DOCUMENT_ACCESS_COLLECTION = "documentAccess";
+
+function toDocumentRecord(doc: DocumentSnapshot): DocumentRecord {
+  const data = doc.data()!;
+  return {
+    ...data,
+    id: doc.id,
+    uploadedAt: toIsoString(data.uploadedAt)!,
+  } as DocumentRecord;
+}
+
+type DocumentInput = Omit<DocumentRecord, "id" | "uploadedAt" | "version" | "supersedes" | "supersededBy">;
+
+// Owner IDs and attachments can have several files of the same type per
+// business, so only the other types form version chains
+function isVersioned(input: DocumentInput) {
+  return input.businessId !== null && input.type !== OWNER_ID_TYPE && input.type !== ATTACHMENT_TYPE;
+}
+
+// Create the record for an uploaded file. A file of a type the business
+// already has becomes the next version of it.
+export async function createDocumentRecord(input: DocumentInput) {
+  const collection = adminDb.collection(DOCUMENTS_COLLECTION);
+  const ref = collection.doc();
+
+  await adminDb.runTransaction(async (transaction) => {
+    const current = isVersioned(input)
+      ? (await transaction.get(collection
+        .where("userId", "==", input.userId)
+        .where("businessId", "==", input.businessId)
+        .where("type", "==", input.type)
+        .where("supersededBy", "==", null)
+        .limit(1))).docs[0]
+      : undefined;
+
+    transaction.create(ref, {
+      ...input,
+      uploadedAt: Timestamp.now(),
+      version: current ? (current.data().version || 1) + 1 : 1,
+      supersedes: current?.id || null,
+      supersededBy: null,
+    });
+    if (current) {
+      transaction.update(current.ref, { supersededBy: ref.id });
+    }
+  });
+
+  return toDocumentRecord(await ref.get());
+}
+
+// Every document of a business, all versions included
+export async function listBusinessDocuments(userId: string, businessId: string) {
+  const snapshot = await adminDb
+    .collection(DOCUMENTS_COLLECTION)
+    .where("userId", "==", userId)
+    .where("businessId", "==", businessId)
+    .get();
+  return snapshot.docs.map(toDocumentRecord);
+}
+
+export async function getDocumentRecord(documentId: string): Promise<DocumentRecord | null> {
+  const doc = await adminDb.collection(DOCUMENTS_COLLECTION).doc(documentId).get();
+  return doc.exists ? toDocumentRecord(doc) : null;
+}
+
+export async function findDocumentByPath(path: string): Promise<DocumentRecord | null> {
+  const snapshot = await adminDb
+    .collection(DOCUMENTS_COLLECTION)
+    .where("path", "==", path)
+    .limit(1)
+    .get();
+  return snapshot.empty ? null : toDocumentRecord(snapshot.docs[0]);
+}
+
+// The customer a document belongs to and every admin can read it
+export function canReadDocument(record: DocumentRecord, token: DecodedIdToken) {
+  return record.userId === token.uid || (isAdminRole(token.role) && ADMIN_ROLES.includes(token.role));
+}
+
+// Customers can only delete files they uploaded themselves, not the
+// documents our team delivered to them. A file a registration refers to
+// (e.g. an owner ID) can only be deleted until the registration is paid for.
+export async function canDeleteDocument(record: DocumentRecord, token: DecodedIdToken) {
+  if (isAdminRole(token.role) && ADMIN_WRITE_ROLES.includes(token.role)) return true;
+  if (record.userId !== token.uid || record.uploadedBy?.uid !== token.uid) return false;
+
+  const businesses = await adminDb.collection("users").doc(record.userId).collection("businesses").get();
+  return businesses.docs.every(business => {
+    const owners: { documentId?: string }[] = business.data().owner || [];
+    const linked = business.id === record.businessId || owners.some(owner => owner.documentId === record.id);
+    return !linked || PAYABLE_STATUSES.includes(normalizeStatus(business.data().status));
+  });
+}
+
+export function getDocumentFile(record: DocumentRecord) {
+  return adminStorage.bucket().file(record.path);
+}
+
+// A URL that reads the file directly from Storage for a few minutes
+export async function getSignedDocumentUrl(record: DocumentRecord, { download = false } = {}) {
+  const expiresAt = new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000);
+  const [url] = await getDocumentFile(record).getSignedUrl({
+    action: "read",
+    expires: expiresAt,
+    responseDisposition: getContentDisposition(record.name, download),
+  });
+  return { url, expiresAt: expiresAt.toISOString() };
+}
+
+export function getContentDisposition(name: string, download: boolean) {
+  const fallback = name.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `${download ? "attachment" : "inline"}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+}
+
+// Who uploaded or read a document
+export function getDocumentActor(token: DecodedIdToken): EventActor {
+  return {
+    uid: token.uid,
+    email: token.email || "",
+    role: isAdminRole(token.role) ? token.role : CUSTOMER_ROLE,
+  };
+}
+
+export async function logDocumentAccess(
+  record: DocumentRecord,
+  token: DecodedIdToken,
+  mode: DocumentAccessMode,
+  request: Request
+) {
+  await adminDb.collection(DOCUMENT_ACCESS_COLLECTION).add({
+    documentId: record.id,
+    userId: record.userId,
+    path: record.path,
+    actor: getDocumentActor(token),
+    mode,
+    ip: request.headers.get("x-forwarded-for")?.split(",")[0].trim() || null,
+    userAgent: request.headers.get("user-agent"),
+    createdAt: Timestamp.now(),
+  });
+}
+
+// Delete a document's file and record. Businesses that still refer to it
+// show it as missing.
+export async function deleteDocumentRecord(record: DocumentRecord) {
+  await getDocumentFile(record).delete({ ignoreNotFound: true });
+  await removeDocumentRecord(record);
+}
+
+// Delete only the record, closing the gap in its version chain
+export async function removeDocumentRecord(record: DocumentRecord) {
+  const collection = adminDb.collection(DOCUMENTS_COLLECTION);
+  const batch = adminDb.batch();
+  batch.delete(collection.doc(record.id));
+  if (record.supersedes) {
+    batch.update(collection.doc(record.supersedes), { supersededBy: record.supersededBy });
+  }
+  if (record.supersededBy) {
+    batch.update(collection.doc(record.supersededBy), { supersedes: record.supersedes });
+  }
+  await batch.commit();
+}
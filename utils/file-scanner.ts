@@ -0,0 +1,100 @@
+import net from "net";
+
+// Malware scanning for uploads, run before anything is stored. The ClamAV
+// scanner talks to clamd over CLAMAV_SOCKET (a Unix socket, e.g.
+// /var/run/clamav/clamd.ctl) or CLAMAV_HOST and CLAMAV_PORT. Without
+// either, uploads are not scanned, unless CLAMAV_REQUIRED=true makes them
+// fail instead.
+
+export interface ScanResult {
+  clean: boolean;
+  signature?: string; // What was found, when not clean
+}
+
+export interface FileScanner {
+  name: string;
+  scan(buffer: Buffer): Promise<ScanResult>;
+}
+
+// The scanner could not give a verdict (unreachable, timed out, ...)
+export class ScannerUnavailableError extends Error {}
+
+const CHUNK_SIZE = 64 * 1024;
+const SCAN_TIMEOUT_MS = 30 * 1000;
+
+// clamd's INSTREAM command: length-prefixed chunks ended by a zero-length
+// chunk. Replies "stream: OK" or "stream: <signature> FOUND".
+export function createClamAvScanner(options: net.NetConnectOpts): FileScanner {
+  return {
+    name: "clamav",
+    scan(buffer) {
+      return new Promise((resolve, reject) => {
+        const socket = net.createConnection(options);
+        let reply = "";
+
+        socket.setTimeout(SCAN_TIMEOUT_MS, () => {
+          socket.destroy(new ScannerUnavailableError("ClamAV scan timed out"));
+        });
+        socket.on("error", error => {
+          reject(error instanceof ScannerUnavailableError
+            ? error
+            : new ScannerUnavailableError(`ClamAV is unavailable: ${error.message}`));
+        });
+        socket.on("data", data => { reply += data.toString(); });
+        socket.on("end", () => {
+          const result = reply.replace(/\0/g, "").trim();
+          const found = result.match(/^stream: (.+) FOUND$/);
+
+          if (result === "stream: OK") {
+            resolve({ clean: true });
+          } else if (found) {
+            resolve({ clean: false, signature: found[1] });
+          } else {
+            reject(new ScannerUnavailableError(`Unexpected ClamAV reply: ${result}`));
+          }
+        });
+
+        socket.on("connect", () => {
+          socket.write("zINSTREAM\0");
+          for (let offset = 0; offset < buffer.length; offset += CHUNK_SIZE) {
+            const chunk = buffer.subarray(offset, offset + CHUNK_SIZE);
+            const length = Buffer.alloc(4);
+            length.writeUInt32BE(chunk.length);
+            socket.write(length);
+            socket.write(chunk);
+          }
+          socket.end(Buffer.alloc(4));
+        });
+      });
+    },
+  };
+}
+
+// Used when no scanner is configured
+const skipScanner: FileScanner = {
+  name: "none",
+  async scan() {
+    return { clean: true };
+  },
+};
+
+let scanner: FileScanner | null = null;
+
+export function getFileScanner(): FileScanner {
+  if (scanner) return scanner;
+
+  if (process.env.CLAMAV_SOCKET) {
+    scanner = createClamAvScanner({ path: process.env.CLAMAV_SOCKET });
+  } else if (process.env.CLAMAV_HOST) {
+    scanner = createClamAvScanner({
+      host: process.env.CLAMAV_HOST,
+      port: Number(process.env.CLAMAV_PORT) || 3310,
+    });
+  } else if (process.env.CLAMAV_REQUIRED === "true") {
+    throw new ScannerUnavailableError("CLAMAV_REQUIRED is set but no ClamAV socket or host is configured");
+  } else {
+    console.warn("No ClamAV scanner configured; uploads are not scanned for malware");
+    scanner = skipScanner;
+  }
+  return scanner;
+}
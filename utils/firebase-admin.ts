@@ -0,0 +1,484 @@
+import { adminDb } from "@/lib/firebase-admin";
+import { stripe } from "@/lib/stripe";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import type { DocumentData, DocumentReference } from "firebase-admin/firestore";
+import {
+  assertTransition,
+  canTransition,
+  DRAFT_STATUSES,
+  normalizeStatus,
+  PAYABLE_STATUSES,
+  type BusinessStatus
+} from "@/lib/business-lifecycle";
+import {
+  diffFields,
+  type BusinessEventType,
+  type EventActor
+} from "@/lib/business-events";
+import { getRedemptionSnapshot, recordRedemption } from "@/utils/promo-codes";
+import { getCommissionSnapshots, recordCommission, rejectCommission } from "@/utils/affiliates";
+import { notifyCustomer } from "@/utils/notifications";
+import { draftReminderEmail, paymentReceiptEmail, refundEmail, statusChangedEmail } from "@/lib/email";
+
+// Server-side counterparts of the helpers in utils/firebase.ts. Fields the
+// security rules keep away from clients (status, paymentDetails, checkout,
+// documents) are only ever written from here, and every write records an
+// audit event through updateWithEvent. Customer emails are sent once a
+// transaction has committed, and only when it changed something, so
+// webhook retries do not send them twice.
+
+// Payments received for businesses that no longer exist, kept so an admin
+// can refund them in Stripe
+const UNMATCHED_PAYMENTS_COLLECTION = "unmatchedPayments";
+
+interface PaymentDetails {
+  amount: number;
+  currency: string;
+  paymentMethod: string;
+  status: string;
+  stripePaymentIntentId: string;
+  amountDiscounted?: number; // In cents, by a promo code
+}
+
+interface StatusChange {
+  actor?: EventActor | null;
+  reason?: string;
+}
+
+interface EventDetails extends StatusChange {
+  type: BusinessEventType;
+}
+
+// What updateWithEvent needs from a Transaction or WriteBatch
+interface BusinessWriter {
+  update(documentRef: DocumentReference, data: DocumentData): unknown;
+  set(documentRef: DocumentReference, data: DocumentData): unknown;
+}
+
+// Fields that move a business from `from` to `to` and append the change to
+// its status history. Throws StatusTransitionError for invalid transitions.
+export function statusUpdate(
+  from: unknown,
+  to: BusinessStatus,
+  { actor = null, reason = "" }: StatusChange = {}
+) {
+  assertTransition(from, to);
+  const now = Timestamp.now();
+
+  return {
+    status: to,
+    statusHistory: FieldValue.arrayUnion({
+      from: normalizeStatus(from),
+      to,
+      actor,
+      reason,
+      changedAt: now,
+    }),
+    updatedAt: now,
+  };
+}
+
+// Apply an update to a business and append an audit event with the field
+// diff to its events subcollection, in the same transaction or batch.
+// Updates that change nothing are not recorded.
+export function updateWithEvent(
+  writer: BusinessWriter,
+  businessRef: DocumentReference,
+  before: DocumentData | undefined,
+  update: DocumentData,
+  { type, actor = null, reason = "" }: EventDetails
+) {
+  // Deleted fields show up as null in the diff
+  const diffable = Object.fromEntries(
+    Object.entries(update).map(([field, value]) => [
+      field,
+      value instanceof FieldValue && value.isEqual(FieldValue.delete()) ? null : value,
+    ])
+  );
+  const changes = diffFields(before, diffable);
+
+  writer.update(businessRef, update);
+  if (Object.keys(changes).length === 0) return;
+
+  writer.set(businessRef.collection("events").doc(), {
+    type,
+    actor,
+    reason,
+    changes,
+    createdAt: Timestamp.now(),
+  });
+}
+
+export function getBusinessRef(userId: string, businessId: string) {
+  return adminDb
+    .collection("users")
+    .doc(userId)
+    .collection("businesses")
+    .doc(businessId);
+}
+
+// Get a business, or null when it does not exist
+export async function getBusiness(userId: string, businessId: string) {
+  const businessDoc = await getBusinessRef(userId, businessId).get();
+  return businessDoc.exists ? businessDoc.data()! : null;
+}
+
+// Complete business registration with payment details and email the
+// customer a receipt. Safe to call more than once for the same payment.
+// Payments for a missing business are flagged for refund instead, since
+// retrying the webhook would not bring the business back.
+export async function completeBusinessRegistration(
+  userId: string,
+  businessId: string,
+  paymentDetails: PaymentDetails
+) {
+  const businessRef = getBusinessRef(userId, businessId);
+
+  const completed = await adminDb.runTransaction(async (transaction) => {
+    const businessDoc = await transaction.get(businessRef);
+    if (!businessDoc.exists) {
+      console.error(`Payment ${paymentDetails.stripePaymentIntentId} received for missing business ${businessId}`);
+      transaction.set(adminDb.collection(UNMATCHED_PAYMENTS_COLLECTION).doc(paymentDetails.stripePaymentIntentId), {
+        ...paymentDetails,
+        userId,
+        businessId,
+        status: "needs_refund",
+        createdAt: Timestamp.now(),
+      });
+      return null;
+    }
+
+    const business = businessDoc.data()!;
+    if (business.paymentDetails?.stripePaymentIntentId === paymentDetails.stripePaymentIntentId &&
+      !PAYABLE_STATUSES.includes(normalizeStatus(business.status))) {
+      return null;
+    }
+
+    if (!canTransition(business.status, "paid")) {
+      console.warn(`Payment ${paymentDetails.stripePaymentIntentId} received for ${business.status} business ${businessId}`);
+      return null;
+    }
+
+    // Firestore transactions need every read before the first write, so
+    // the promo code and affiliate records are read up front
+    const promoCode: string | null = business.checkout?.promoCode || null;
+    const redemption = promoCode && await getRedemptionSnapshot(transaction, promoCode, businessId);
+    const commission = await getCommissionSnapshots(transaction, userId, businessId);
+
+    const reason = "Payment received";
+    const update = statusUpdate(business.status, "paid", { reason });
+    updateWithEvent(transaction, businessRef, business, {
+      ...update,
+      paymentDetails: {
+        ...paymentDetails,
+        createdAt: update.updatedAt
+      },
+      "checkout.status": "complete",
+      lastPaymentError: FieldValue.delete(),
+    }, { type: "payment_succeeded", reason });
+
+    if (promoCode && redemption) {
+      recordRedemption(transaction, redemption, promoCode, {
+        businessId,
+        userId,
+        companyName: business.company?.name || "",
+        amountDiscounted: paymentDetails.amountDiscounted || 0,
+        amountPaid: paymentDetails.amount,
+        currency: paymentDetails.currency,
+        stripePaymentIntentId: paymentDetails.stripePaymentIntentId,
+      });
+    }
+
+    recordCommission(transaction, commission, {
+      referredUid: userId,
+      businessId,
+      companyName: business.company?.name || "",
+      amountPaid: paymentDetails.amount,
+      currency: paymentDetails.currency,
+      stripePaymentIntentId: paymentDetails.stripePaymentIntentId,
+    });
+
+    return { companyName: business.company?.name || "", paidAt: update.updatedAt.toDate() };
+  });
+
+  if (completed) {
+    await notifyCustomer(userId, "paymentReceipts", paymentReceiptEmail({
+      ...completed,
+      amount: paymentDetails.amount,
+      amountDiscounted: paymentDetails.amountDiscounted,
+      currency: paymentDetails.currency,
+      paymentIntentId: paymentDetails.stripePaymentIntentId,
+    }));
+  }
+
+  return businessId;
+}
+
+// Remember the Checkout Session opened for a draft so retries can reuse it,
+// and mark the draft as awaiting payment
+export async function saveCheckoutSession(
+  userId: string,
+  businessId: string,
+  checkout: {
+    sessionId: string;
+    attempt: number;
+    lineItemsHash: string;
+    priceVersion: string;
+    promoCode: string | null;
+  },
+  actor: EventActor
+) {
+  const businessRef = getBusinessRef(userId, businessId);
+
+  await adminDb.runTransaction(async (transaction) => {
+    const business = (await transaction.get(businessRef)).data()!;
+    const reason = "Checkout started";
+
+    updateWithEvent(transaction, businessRef, business, {
+      ...(normalizeStatus(business.status) === "draft"
+        ? statusUpdate(business.status, "awaiting_payment", { actor, reason })
+        : { updatedAt: Timestamp.now() }),
+      checkout: { ...checkout, status: "open" },
+    }, { type: "checkout_started", actor, reason });
+  });
+}
+
+export class DraftDeletionError extends Error {}
+
+// Delete a registration draft, including an abandoned one, with its audit
+// events. An open Checkout Session is expired first, so no payment can
+// arrive for the deleted draft. Returns false when the draft does not exist.
+export async function deleteBusinessDraft(userId: string, businessId: string) {
+  const business = await getBusiness(userId, businessId);
+  if (!business) return false;
+
+  if (!DRAFT_STATUSES.includes(normalizeStatus(business.status))) {
+    throw new DraftDeletionError("Only registrations that have not been paid for can be deleted");
+  }
+
+  const checkout = business.checkout;
+  if (checkout?.status === "open") {
+    const session = await stripe.checkout.sessions.retrieve(checkout.sessionId);
+    if (session.status === "complete") {
+      throw new DraftDeletionError("This registration has been paid for and can no longer be deleted");
+    }
+    if (session.status === "open") {
+      await stripe.checkout.sessions.expire(checkout.sessionId);
+    }
+  }
+
+  await adminDb.recursiveDelete(getBusinessRef(userId, businessId));
+  return true;
+}
+
+// Record that a business's Checkout Session expired, returning it to draft
+export async function expireCheckoutSession(
+  userId: string,
+  businessId: string,
+  sessionId: string
+) {
+  const businessRef = getBusinessRef(userId, businessId);
+
+  await adminDb.runTransaction(async (transaction) => {
+    const businessDoc = await transaction.get(businessRef);
+    if (!businessDoc.exists) return;
+
+    const business = businessDoc.data()!;
+    if (business.checkout?.sessionId !== sessionId) return;
+
+    const reason = "Checkout session expired";
+    updateWithEvent(transaction, businessRef, business, {
+      ...(normalizeStatus(business.status) === "awaiting_payment"
+        ? statusUpdate(business.status, "draft", { reason })
+        : { updatedAt: Timestamp.now() }),
+      "checkout.status": "expired",
+    }, { type: "checkout_expired", reason });
+  });
+}
+
+// Record a failed payment attempt. Ignored once the business is paid.
+export async function recordPaymentFailure(
+  userId: string,
+  businessId: string,
+  paymentDetails: PaymentDetails,
+  message: string
+) {
+  const businessRef = getBusinessRef(userId, businessId);
+
+  await adminDb.runTransaction(async (transaction) => {
+    const businessDoc = await transaction.get(businessRef);
+    if (!businessDoc.exists) return;
+    const business = businessDoc.data()!;
+    if (!PAYABLE_STATUSES.includes(normalizeStatus(business.status))) return;
+
+    const now = Timestamp.now();
+    updateWithEvent(transaction, businessRef, business, {
+      paymentDetails: {
+        ...paymentDetails,
+        createdAt: now
+      },
+      lastPaymentError: message,
+      updatedAt: now,
+    }, { type: "payment_failed", reason: message });
+  });
+}
+
+// Sync the refunded amount from Stripe. A full refund marks the business
+// as refunded when its status allows it (cancelled businesses stay cancelled).
+// The customer is emailed when the refunded amount went up, which only
+// happens here for refunds made in Stripe directly.
+export async function recordRefund(
+  userId: string,
+  businessId: string,
+  stripePaymentIntentId: string,
+  amountRefunded: number,
+  fullyRefunded: boolean
+) {
+  const businessRef = getBusinessRef(userId, businessId);
+
+  const synced = await adminDb.runTransaction(async (transaction) => {
+    const businessDoc = await transaction.get(businessRef);
+    if (!businessDoc.exists) return null;
+
+    const business = businessDoc.data()!;
+    if (business.paymentDetails?.stripePaymentIntentId !== stripePaymentIntentId) return null;
+
+    // Refunds made from the admin dashboard are already recorded, so
+    // this only adds an event for refunds made in Stripe directly
+    const reason = "Refund synced from Stripe";
+    updateWithEvent(transaction, businessRef, business, {
+      ...(fullyRefunded && canTransition(business.status, "refunded")
+        ? statusUpdate(business.status, "refunded", { reason })
+        : { updatedAt: Timestamp.now() }),
+      "paymentDetails.amountRefunded": amountRefunded,
+    }, { type: "refunded", reason });
+
+    const previouslyRefunded = business.paymentDetails.amountRefunded || 0;
+    return {
+      refunded: amountRefunded > previouslyRefunded
+        ? {
+          companyName: business.company?.name || "",
+          amount: amountRefunded - previouslyRefunded,
+          currency: business.paymentDetails.currency,
+        }
+        : null,
+    };
+  });
+
+  if (synced && fullyRefunded) {
+    await rejectCommission(businessId, "Registration refunded in Stripe");
+  }
+  if (synced?.refunded) {
+    await notifyCustomer(userId, "paymentReceipts", refundEmail({ ...synced.refunded, amountRefunded }));
+  }
+}
+
+// Mark drafts that have not been touched since `cutoff` as abandoned.
+// Returns the paths of the updated businesses.
+export async function abandonStaleDrafts(cutoff: Date) {
+  const staleBefore = Timestamp.fromDate(cutoff);
+  const snapshot = await adminDb
+    .collectionGroup("businesses")
+    .where("status", "in", PAYABLE_STATUSES)
+    .where("updatedAt", "<", staleBefore)
+    .get();
+
+  // Each draft is checked again in its own transaction, since it may have
+  // been saved or paid for since the query ran
+  const abandoned: string[] = [];
+  for (const { ref } of snapshot.docs) {
+    const updated = await adminDb.runTransaction(async (transaction) => {
+      const business = (await transaction.get(ref)).data();
+      if (!business ||
+        !PAYABLE_STATUSES.includes(normalizeStatus(business.status)) ||
+        !(business.updatedAt?.toMillis() < cutoff.getTime())) {
+        return false;
+      }
+
+      const reason = "No activity before the abandonment cutoff";
+      const update = statusUpdate(business.status, "abandoned", { reason });
+      updateWithEvent(transaction, ref, business, {
+        ...update,
+        abandonedAt: update.updatedAt,
+      }, { type: "status_changed", reason });
+      return true;
+    });
+    if (updated) abandoned.push(ref.path);
+  }
+
+  return abandoned;
+}
+
+// Email a reminder about drafts that have not been touched since `cutoff`,
+// once per draft. reminderSentAt is set without bumping updatedAt so the
+// abandonment clock keeps running. Returns the paths of the reminded drafts.
+export async function sendDraftReminders(cutoff: Date) {
+  const snapshot = await adminDb
+    .collectionGroup("businesses")
+    .where("status", "in", PAYABLE_STATUSES)
+    .where("updatedAt", "<", Timestamp.fromDate(cutoff))
+    .get();
+  const drafts = snapshot.docs.filter(businessDoc => !businessDoc.data().reminderSentAt);
+
+  for (let i = 0; i < drafts.length; i += 250) {
+    const batch = adminDb.batch();
+    for (const businessDoc of drafts.slice(i, i + 250)) {
+      updateWithEvent(batch, businessDoc.ref, businessDoc.data(), {
+        reminderSentAt: Timestamp.now(),
+      }, { type: "reminder_sent", reason: "Draft reminder email" });
+    }
+    await batch.commit();
+  }
+
+  for (const businessDoc of drafts) {
+    // users/{userId}/businesses/{businessId}
+    const userId = businessDoc.ref.parent.parent!.id;
+    await notifyCustomer(userId, "draftReminders", draftReminderEmail({
+      companyName: businessDoc.data().company?.name || "",
+    }));
+  }
+
+  return drafts.map(businessDoc => businessDoc.ref.path);
+}
+
+// Move a business to a new status on behalf of an admin and let the
+// customer know. Throws StatusTransitionError when the lifecycle does not
+// allow it.
+export async function updateBusinessStatus(
+  userId: string,
+  businessId: string,
+  to: BusinessStatus,
+  change: StatusChange
+) {
+  const businessRef = getBusinessRef(userId, businessId);
+
+  const result = await adminDb.runTransaction(async (transaction) => {
+    const businessDoc = await transaction.get(businessRef);
+    if (!businessDoc.exists) return null;
+
+    const from = normalizeStatus(businessDoc.data()!.status);
+    updateWithEvent(transaction, businessRef, businessDoc.data(), statusUpdate(from, to, change), {
+      type: "status_changed",
+      ...change,
+    });
+    return { from, to, companyName: businessDoc.data()!.company?.name || "" };
+  });
+  if (!result) return null;
+
+  await notifyCustomer(userId, "statusUpdates", statusChangedEmail({
+    companyName: result.companyName,
+    status: to,
+    reason: change.reason,
+  }));
+  return { from: result.from, to: result.to };
+}
+
+// Get a business's audit events, newest first
+export async function getBusinessEvents(userId: string, businessId: string) {
+  const snapshot = await getBusinessRef(userId, businessId)
+    .collection("events")
+    .orderBy("createdAt", "desc")
+    .get();
+
+  return snapshot.docs.map(eventDoc => ({ id: eventDoc.id, ...eventDoc.data() }));
+}
@@ -1,15 +1,28 @@
-import { db, storage } from "@/lib/firebase";
+import { auth, db } from "@/lib/firebase";
 import { 
   doc, 
-  setDoc, 
   collection, 
   getDocs, 
   getDoc, 
-  updateDoc,
+  setDoc,
   serverTimestamp,
-  Timestamp
+  Timestamp,
+  writeBatch,
+  runTransaction,
+  query,
+  orderBy
 } from "firebase/firestore";
-import { ref, uploadBytes, getDownloadURL, deleteObject } from "firebase/storage";
+import type { BusinessStatus } from "@/lib/business-lifecycle";
+import {
+  CUSTOMER_ROLE,
+  diffFields,
+  type BusinessEvent,
+  type BusinessEventType,
+  type FieldChange
+} from "@/lib/business-events";
+import type { NotificationPreferences } from "@/lib/notification-preferences";
+import type { DocumentLink } from "@/lib/documents";
+import { authFetch } from "@/utils/auth-fetch";
 
 // Types
 interface Owner {
@@ -18,7 +31,7 @@ interface Owner {
   ownership: string;
   isCEO?: boolean;
   birthDate?: string;
-  documentUrl?: string;
+  documentId?: string;
   documentName?: string;
 }
 
@@ -38,20 +51,13 @@ interface BusinessData {
     postalCode: string;
     country: string;
   };
-  status?: 'draft' | 'completed';
+  status?: BusinessStatus;
+  lastCompletedStep?: number;
   createdAt?: any;
   updatedAt?: any;
   paymentDetails?: any;
 }
 
-interface PaymentDetails {
-  amount: number;
-  currency: string;
-  paymentMethod: string;
-  status: string;
-  stripePaymentIntentId: string;
-}
-
 // Format Firestore timestamp for display
 export function formatTimestamp(timestamp: any): string {
   if (!timestamp) return '';
@@ -100,33 +106,77 @@ const cleanFirestoreData = (data: any): any => {
   return data;
 };
 
-// Upload a document to Firebase Storage
-export async function uploadDocument(userId: string, file: File): Promise<string> {
+// Audit event for a change made by the signed-in customer. The security
+// rules only accept business writes that create their event in the same
+// batch, linked through the business's lastEventId.
+function customerEvent(type: BusinessEventType, changes: Record<string, FieldChange>) {
+  const user = auth.currentUser;
+  return {
+    type,
+    actor: { uid: user?.uid || "", email: user?.email || "", role: CUSTOMER_ROLE },
+    reason: "",
+    changes,
+    createdAt: serverTimestamp()
+  };
+}
+
+// Upload one of the signed-in user's documents (e.g. an owner ID). Files
+// are private and opened through getDocumentUrl.
+export async function uploadDocument(file: File): Promise<DocumentLink> {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const response = await authFetch("/api/upload", { method: "POST", body: formData });
+  const data = await response.json();
+  if (!response.ok) {
+    console.error("Error uploading document:", data.error);
+    throw new Error(data.error || "Failed to upload document");
+  }
+  return { id: data.id, name: data.name };
+}
+
+// Delete a document the signed-in user uploaded
+export async function deleteDocument(documentId: string): Promise<void> {
+  const response = await authFetch(`/api/documents/${encodeURIComponent(documentId)}`, { method: "DELETE" });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    console.error("Error deleting document:", data.error);
+    throw new Error("Failed to delete document");
+  }
+}
+
+// Profile fields stored on users/{uid}
+export interface UserProfile {
+  firstName?: string;
+  lastName?: string;
+  displayName?: string;
+  email?: string;
+  phone?: string;
+  notificationPreferences?: Partial<NotificationPreferences>;
+  createdAt?: string;
+}
+
+// Get the signed-in user's profile document
+export async function getUserProfile(userId: string): Promise<UserProfile> {
   try {
-    const fileExtension = file.name.split('.').pop();
-    const fileName = `${Date.now()}.${fileExtension}`;
-    const filePath = `users/${userId}/documents/${fileName}`;
-    const storageRef = ref(storage, filePath);
-    
-    await uploadBytes(storageRef, file);
-    const downloadURL = await getDownloadURL(storageRef);
-    return downloadURL;
+    const userDoc = await getDoc(doc(db, "users", userId));
+    return userDoc.exists() ? userDoc.data() as UserProfile : {};
   } catch (error) {
-    console.error("Error uploading document:", error);
-    throw new Error("Failed to upload document");
+    console.error("Error fetching user profile:", error);
+    throw error;
   }
 }
 
-// Delete a document from Firebase Storage
-export async function deleteDocument(documentUrl: string): Promise<void> {
+// Merge changes into the signed-in user's profile document
+export async function updateUserProfile(userId: string, profile: Partial<UserProfile>) {
   try {
-    const decodedUrl = decodeURIComponent(documentUrl);
-    const urlParts = decodedUrl.split('/o/')[1].split('?')[0];
-    const storageRef = ref(storage, urlParts);
-    await deleteObject(storageRef);
+    await setDoc(doc(db, "users", userId), {
+      ...profile,
+      updatedAt: new Date().toISOString(),
+    }, { merge: true });
   } catch (error) {
-    console.error("Error deleting document:", error);
-    throw new Error("Failed to delete document");
+    console.error("Error updating user profile:", error);
+    throw error;
   }
 }
 
@@ -136,15 +186,22 @@ export async function saveBusinessDraft(userId: string, businessData: BusinessDa
     const userDocRef = doc(db, "users", userId);
     const businessesCollectionRef = collection(userDocRef, "businesses");
     const newBusinessDocRef = doc(businessesCollectionRef);
+    const eventRef = doc(collection(newBusinessDocRef, "events"));
 
     const formattedBusinessData = {
-      ...businessData,
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp(),
+      ...cleanFirestoreData(businessData),
       status: 'draft'
     };
 
-    await setDoc(newBusinessDocRef, cleanFirestoreData(formattedBusinessData));
+    const batch = writeBatch(db);
+    batch.set(newBusinessDocRef, {
+      ...formattedBusinessData,
+      lastEventId: eventRef.id,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    batch.set(eventRef, customerEvent("created", diffFields({}, formattedBusinessData)));
+    await batch.commit();
     return newBusinessDocRef.id;
   } catch (error) {
     console.error("Error saving business draft:", error);
@@ -152,33 +209,14 @@ export async function saveBusinessDraft(userId: string, businessData: BusinessDa
   }
 }
 
-// Complete business registration with payment details
-export async function completeBusinessRegistration(
-  userId: string, 
-  businessId: string, 
-  paymentDetails: PaymentDetails
-) {
-  try {
-    const businessDocRef = doc(db, "users", userId, "businesses", businessId);
-
-    // Create a new Timestamp for immediate use
-    const now = Timestamp.now();
-
-    const formattedPaymentDetails = {
-      ...paymentDetails,
-      createdAt: now // Use immediate timestamp for payment records
-    };
-
-    await updateDoc(businessDocRef, cleanFirestoreData({
-      paymentDetails: formattedPaymentDetails,
-      status: "completed",
-      updatedAt: now,
-    }));
-
-    return businessId;
-  } catch (error) {
-    console.error("Error completing registration:", error);
-    throw error;
+// Delete a business draft, e.g. when the user cancels registration. The
+// server expires its Checkout Session first, if one is open.
+export async function deleteBusinessDraft(businessId: string) {
+  const response = await authFetch(`/api/drafts/${encodeURIComponent(businessId)}`, { method: "DELETE" });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    console.error("Error deleting business draft:", data.error);
+    throw new Error(data.error || "Failed to delete business draft");
   }
 }
 
@@ -223,13 +261,22 @@ export async function updateBusiness(
 ) {
   try {
     const businessDocRef = doc(db, "users", userId, "businesses", businessId);
-    
-    const updatedData = {
-      ...updateData,
-      updatedAt: serverTimestamp()
-    };
+    const eventRef = doc(collection(businessDocRef, "events"));
+    const updatedData = cleanFirestoreData(updateData);
+
+    await runTransaction(db, async (transaction) => {
+      const businessDoc = await transaction.get(businessDocRef);
+      const changes = diffFields(businessDoc.data(), updatedData);
+      // Nothing to save or record
+      if (Object.keys(changes).length === 0) return;
 
-    await updateDoc(businessDocRef, cleanFirestoreData(updatedData));
+      transaction.update(businessDocRef, {
+        ...updatedData,
+        lastEventId: eventRef.id,
+        updatedAt: serverTimestamp()
+      });
+      transaction.set(eventRef, customerEvent("updated", changes));
+    });
     return businessId;
   } catch (error) {
     console.error("Error updating business:", error);
@@ -237,6 +284,22 @@ export async function updateBusiness(
   }
 }
 
+// Get a business's audit events, newest first
+export async function getBusinessEvents(userId: string, businessId: string): Promise<BusinessEvent[]> {
+  try {
+    const eventsRef = collection(db, "users", userId, "businesses", businessId, "events");
+    const snapshot = await getDocs(query(eventsRef, orderBy("createdAt", "desc")));
+
+    return snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    }) as BusinessEvent);
+  } catch (error) {
+    console.error("Error fetching business events:", error);
+    throw error;
+  }
+}
+
 // Utility function to get storage file path from URL
 export function getStoragePathFromUrl(url: string): string {
   const decodedUrl = decodeURIComponent(url);
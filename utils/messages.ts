@@ -0,0 +1,243 @@
+import { adminDb, toIsoString } from "@/lib/firebase-admin";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import type { DocumentSnapshot, Query } from "firebase-admin/firestore";
+import {
+  ATTACHMENTS_FOLDER,
+  getOtherSide,
+  type AttachmentInput,
+  type Message,
+  type MessageAttachment,
+  type MessageInput,
+  type MessageSender,
+  type MessageSide,
+  type MessageThread,
+  type ThreadAssignee,
+  type ThreadStatus
+} from "@/lib/messages";
+import { getDocumentUrl } from "@/lib/documents";
+import { getBusiness } from "@/utils/firebase-admin";
+import { findDocumentByPath } from "@/utils/documents";
+import { notifyCustomer } from "@/utils/notifications";
+import { messageReplyEmail } from "@/lib/email";
+
+// Threads are keyed by an auto ID and carry the owning userId and
+// businessId. Unread counters and read receipts are kept per side on the
+// thread, so the inbox and sidebars never need to read messages.
+export const MESSAGE_THREADS_COLLECTION = "messageThreads";
+
+const PREVIEW_LENGTH = 140;
+
+export class MessageError extends Error {}
+
+function toThread(doc: DocumentSnapshot): MessageThread {
+  const data = doc.data()!;
+  return {
+    ...data,
+    id: doc.id,
+    lastMessage: data.lastMessage && {
+      ...data.lastMessage,
+      createdAt: toIsoString(data.lastMessage.createdAt),
+    },
+    lastReadAt: {
+      customer: toIsoString(data.lastReadAt?.customer),
+      admin: toIsoString(data.lastReadAt?.admin),
+    },
+    createdAt: toIsoString(data.createdAt)!,
+    updatedAt: toIsoString(data.updatedAt)!,
+  } as MessageThread;
+}
+
+function toMessage(doc: DocumentSnapshot): Message {
+  const data = doc.data()!;
+  return {
+    ...data,
+    id: doc.id,
+    createdAt: toIsoString(data.createdAt)!,
+  } as Message;
+}
+
+function getThreadRef(threadId: string) {
+  return adminDb.collection(MESSAGE_THREADS_COLLECTION).doc(threadId);
+}
+
+// Check that uploaded attachments belong to the thread's customer and
+// look up their size, type and document record. Attachments are private
+// and opened through /api/documents/[id].
+async function resolveAttachments(userId: string, inputs: AttachmentInput[]): Promise<MessageAttachment[]> {
+  const prefix = `users/${userId}/${ATTACHMENTS_FOLDER}/`;
+
+  return Promise.all(inputs.map(async ({ name, path }) => {
+    if (!path.startsWith(prefix) || path.includes("..")) {
+      throw new MessageError(`Attachment ${name} was not uploaded for this conversation`);
+    }
+
+    const record = await findDocumentByPath(path);
+    if (!record || record.userId !== userId) {
+      throw new MessageError(`Attachment ${name} was not found`);
+    }
+
+    return {
+      name,
+      path,
+      url: getDocumentUrl(record.id),
+      contentType: record.contentType,
+      size: record.size,
+    };
+  }));
+}
+
+function getPreview(body: string) {
+  return body.length > PREVIEW_LENGTH ? `${body.slice(0, PREVIEW_LENGTH - 1)}…` : body;
+}
+
+export async function getThread(threadId: string): Promise<MessageThread | null> {
+  const doc = await getThreadRef(threadId).get();
+  return doc.exists ? toThread(doc) : null;
+}
+
+export async function listThreadMessages(threadId: string): Promise<Message[]> {
+  const snapshot = await getThreadRef(threadId)
+    .collection("messages")
+    .orderBy("createdAt", "asc")
+    .get();
+
+  return snapshot.docs.map(toMessage);
+}
+
+// A customer's threads, newest activity first
+export async function listCustomerThreads(userId: string, businessId?: string): Promise<MessageThread[]> {
+  let query: Query = adminDb
+    .collection(MESSAGE_THREADS_COLLECTION)
+    .where("userId", "==", userId);
+  if (businessId) query = query.where("businessId", "==", businessId);
+
+  const snapshot = await query.orderBy("updatedAt", "desc").get();
+  return snapshot.docs.map(toThread);
+}
+
+// Threads for the admin inbox, newest activity first. `assignedTo` is an
+// admin uid, or null for unassigned threads.
+export async function listInboxThreads(filter: {
+  status?: ThreadStatus;
+  assignedTo?: string | null;
+}): Promise<MessageThread[]> {
+  let query: Query = adminDb.collection(MESSAGE_THREADS_COLLECTION);
+  if (filter.status) query = query.where("status", "==", filter.status);
+  if (filter.assignedTo === null) {
+    query = query.where("assignedTo", "==", null);
+  } else if (filter.assignedTo) {
+    query = query.where("assignedTo.uid", "==", filter.assignedTo);
+  }
+
+  const snapshot = await query.orderBy("updatedAt", "desc").get();
+  return snapshot.docs.map(toThread);
+}
+
+// Messages one side has not read yet, across all of its threads
+export async function countUnread(side: MessageSide, userId?: string) {
+  let query: Query = adminDb
+    .collection(MESSAGE_THREADS_COLLECTION)
+    .where(`unread.${side}`, ">", 0);
+  if (userId) query = query.where("userId", "==", userId);
+
+  const snapshot = await query.get();
+  return snapshot.docs.reduce((total, doc) => total + (doc.data().unread?.[side] || 0), 0);
+}
+
+// Open a thread about one of the customer's businesses with its first message
+export async function createThread(
+  sender: MessageSender,
+  businessId: string,
+  subject: string,
+  input: MessageInput
+): Promise<MessageThread> {
+  const business = await getBusiness(sender.uid, businessId);
+  if (!business) {
+    throw new MessageError("Business not found");
+  }
+
+  const attachments = await resolveAttachments(sender.uid, input.attachments);
+  const threadRef = adminDb.collection(MESSAGE_THREADS_COLLECTION).doc();
+  const now = Timestamp.now();
+
+  const batch = adminDb.batch();
+  batch.create(threadRef, {
+    userId: sender.uid,
+    businessId,
+    companyName: business.company?.name || "",
+    subject,
+    status: "open",
+    assignedTo: null,
+    lastMessage: { preview: getPreview(input.body), side: sender.side, createdAt: now },
+    unread: { customer: 0, admin: 1 },
+    lastReadAt: { customer: now, admin: null },
+    createdAt: now,
+    updatedAt: now,
+  });
+  batch.create(threadRef.collection("messages").doc(), {
+    body: input.body,
+    attachments,
+    sender,
+    createdAt: now,
+  });
+  await batch.commit();
+
+  return toThread(await threadRef.get());
+}
+
+// Add a message to a thread and count it as unread for the other side.
+// Replies reopen closed threads, and admin replies are emailed to the customer.
+export async function addMessage(thread: MessageThread, sender: MessageSender, input: MessageInput) {
+  const attachments = await resolveAttachments(thread.userId, input.attachments);
+  const threadRef = getThreadRef(thread.id);
+  const messageRef = threadRef.collection("messages").doc();
+  const now = Timestamp.now();
+
+  const batch = adminDb.batch();
+  batch.create(messageRef, {
+    body: input.body,
+    attachments,
+    sender,
+    createdAt: now,
+  });
+  batch.update(threadRef, {
+    status: "open",
+    lastMessage: { preview: getPreview(input.body), side: sender.side, createdAt: now },
+    [`unread.${getOtherSide(sender.side)}`]: FieldValue.increment(1),
+    // Replying means the sender has read everything so far
+    [`unread.${sender.side}`]: 0,
+    [`lastReadAt.${sender.side}`]: now,
+    updatedAt: now,
+  });
+  await batch.commit();
+
+  if (sender.side === "admin") {
+    await notifyCustomer(thread.userId, "messages", messageReplyEmail({
+      subject: thread.subject,
+      companyName: thread.companyName,
+      preview: getPreview(input.body),
+    }));
+  }
+
+  return toMessage(await messageRef.get());
+}
+
+// Record that one side opened the thread
+export async function markThreadRead(threadId: string, side: MessageSide) {
+  await getThreadRef(threadId).update({
+    [`unread.${side}`]: 0,
+    [`lastReadAt.${side}`]: Timestamp.now(),
+  });
+}
+
+// Assign a thread to an admin (or nobody) and open or close it
+export async function updateThread(
+  threadId: string,
+  update: { assignedTo?: ThreadAssignee | null; status?: ThreadStatus }
+): Promise<MessageThread | null> {
+  const threadRef = getThreadRef(threadId);
+  if (!(await threadRef.get()).exists) return null;
+
+  await threadRef.update({ ...update, updatedAt: Timestamp.now() });
+  return toThread(await threadRef.get());
+}
@@ -0,0 +1,33 @@
+import { adminAuth, adminDb } from "@/lib/firebase-admin";
+import { sendEmail, type EmailContent } from "@/lib/email";
+import { getNotificationPreferences, type NotificationPreference } from "@/lib/notification-preferences";
+
+// Emails to customers, sent after the change they describe has been
+// committed. A failed email is logged and never fails the request or
+// webhook that triggered it. Callers await it anyway, since serverless
+// functions may be frozen once the response is sent.
+
+// Send an email to a customer unless they opted out of `preference`.
+// Emails without a preference (e.g. verification) are always sent.
+export async function notifyCustomer(
+  userId: string,
+  preference: NotificationPreference | null,
+  content: EmailContent
+) {
+  try {
+    const [user, userDoc] = await Promise.all([
+      adminAuth.getUser(userId),
+      adminDb.collection("users").doc(userId).get(),
+    ]);
+    if (!user.email) return;
+
+    if (preference) {
+      const preferences = getNotificationPreferences(userDoc.data()?.notificationPreferences);
+      if (!preferences[preference]) return;
+    }
+
+    await sendEmail(user.email, content);
+  } catch (error) {
+    console.error(`Error sending "${content.subject}" to ${userId}:`, error);
+  }
+}
@@ -0,0 +1,106 @@
+import { adminDb } from "@/lib/firebase-admin";
+import { Timestamp } from "firebase-admin/firestore";
+import type { DocumentSnapshot } from "firebase-admin/firestore";
+import {
+  DEFAULT_PRICE_VERSION_ID,
+  getDefaultPriceVersion,
+  type PriceVersion
+} from "@/lib/pricing";
+import type { PriceVersionInput } from "@/lib/pricing-schema";
+
+// Price versions are published by admins and never edited once in effect,
+// so a draft's prices stay what they were when it was created. Versions
+// that have not taken effect yet can still be deleted.
+export const PRICE_VERSIONS_COLLECTION = "priceVersions";
+
+function toPriceVersion(doc: DocumentSnapshot): PriceVersion {
+  const data = doc.data()!;
+  return {
+    id: doc.id,
+    effectiveAt: data.effectiveAt.toDate().toISOString(),
+    note: data.note || "",
+    jurisdictions: data.jurisdictions,
+    createdBy: data.createdBy,
+    createdAt: data.createdAt?.toDate().toISOString(),
+  };
+}
+
+// Every published version, latest effective date first, followed by the
+// built-in default
+export async function listPriceVersions(): Promise<PriceVersion[]> {
+  const snapshot = await adminDb
+    .collection(PRICE_VERSIONS_COLLECTION)
+    .orderBy("effectiveAt", "desc")
+    .get();
+
+  return [...snapshot.docs.map(toPriceVersion), getDefaultPriceVersion()];
+}
+
+export async function getPriceVersion(id: string): Promise<PriceVersion | null> {
+  if (id === DEFAULT_PRICE_VERSION_ID) return getDefaultPriceVersion();
+
+  const doc = await adminDb.collection(PRICE_VERSIONS_COLLECTION).doc(id).get();
+  return doc.exists ? toPriceVersion(doc) : null;
+}
+
+// The version in effect at a point in time
+export async function getPriceVersionAt(date: Date): Promise<PriceVersion> {
+  const snapshot = await adminDb
+    .collection(PRICE_VERSIONS_COLLECTION)
+    .where("effectiveAt", "<=", Timestamp.fromDate(date))
+    .orderBy("effectiveAt", "desc")
+    .limit(1)
+    .get();
+
+  return snapshot.empty ? getDefaultPriceVersion() : toPriceVersion(snapshot.docs[0]);
+}
+
+export function getCurrentPriceVersion() {
+  return getPriceVersionAt(new Date());
+}
+
+// The version a business is priced with: the one in effect when its draft
+// was created. The security rules pin createdAt to the server's time; the
+// priceVersion stored on the draft is only used for display.
+export function getBusinessPriceVersion(business: { createdAt?: Timestamp }) {
+  return getPriceVersionAt(business.createdAt?.toDate() ?? new Date());
+}
+
+export async function createPriceVersion(
+  input: PriceVersionInput,
+  createdBy: string
+): Promise<PriceVersion> {
+  const ref = adminDb.collection(PRICE_VERSIONS_COLLECTION).doc();
+  await ref.set({
+    effectiveAt: Timestamp.fromDate(input.effectiveAt),
+    note: input.note,
+    jurisdictions: input.jurisdictions,
+    createdBy,
+    createdAt: Timestamp.now(),
+  });
+
+  return toPriceVersion(await ref.get());
+}
+
+export class PriceVersionLockedError extends Error {
+  constructor() {
+    super("Price versions that are already in effect cannot be deleted");
+  }
+}
+
+// Returns false when the version does not exist
+export async function deletePriceVersion(id: string): Promise<boolean> {
+  const ref = adminDb.collection(PRICE_VERSIONS_COLLECTION).doc(id);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    if (!doc.exists) return false;
+
+    if (doc.data()!.effectiveAt.toMillis() <= Date.now()) {
+      throw new PriceVersionLockedError();
+    }
+
+    transaction.delete(ref);
+    return true;
+  });
+}
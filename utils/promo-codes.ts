@@ -0,0 +1,164 @@
+import { adminDb, toIsoString } from "@/lib/firebase-admin";
+import { stripe } from "@/lib/stripe";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import type { DocumentSnapshot, Transaction } from "firebase-admin/firestore";
+import {
+  assertPromoCodeApplies,
+  assertPromoCodeLeavesPayment,
+  normalizePromoCode,
+  PromoCodeError,
+  PROMO_CODE_PATTERN,
+  type PromoCode,
+  type PromoCodeInput,
+  type PromoCodeRedemption
+} from "@/lib/promo-codes";
+import type { PriceLineItem } from "@/lib/pricing";
+
+// Promo codes are keyed by their uppercase code. Each one is backed by a
+// Stripe coupon with the same limits, so Stripe enforces expiry and the
+// redemption cap too. Redemptions are stored per business in a
+// subcollection and counted on the code.
+export const PROMO_CODES_COLLECTION = "promoCodes";
+
+function toPromoCode(doc: DocumentSnapshot): PromoCode {
+  const data = doc.data()!;
+  return {
+    ...data,
+    code: doc.id,
+    expiresAt: toIsoString(data.expiresAt),
+    createdAt: toIsoString(data.createdAt)!,
+  } as PromoCode;
+}
+
+// Throws PromoCodeError for codes that cannot exist, e.g. with a slash
+function getPromoCodeRef(code: string) {
+  const normalized = normalizePromoCode(code);
+  if (!PROMO_CODE_PATTERN.test(normalized)) {
+    throw new PromoCodeError(`Promo code ${normalized} is not valid`);
+  }
+  return adminDb.collection(PROMO_CODES_COLLECTION).doc(normalized);
+}
+
+export async function listPromoCodes(): Promise<PromoCode[]> {
+  const snapshot = await adminDb
+    .collection(PROMO_CODES_COLLECTION)
+    .orderBy("createdAt", "desc")
+    .get();
+
+  return snapshot.docs.map(toPromoCode);
+}
+
+export async function getPromoCode(code: string): Promise<PromoCode | null> {
+  if (!normalizePromoCode(code)) return null;
+
+  const doc = await getPromoCodeRef(code).get();
+  return doc.exists ? toPromoCode(doc) : null;
+}
+
+// The promo code if it can be used for a registration. Throws
+// PromoCodeError with a customer-facing message otherwise.
+export async function getApplicablePromoCode(
+  code: string,
+  business: { country?: { name: string }; package?: { name: string } },
+  currency: string,
+  lineItems: PriceLineItem[]
+): Promise<PromoCode> {
+  const promo = await getPromoCode(code);
+  if (!promo) {
+    throw new PromoCodeError(`Promo code ${normalizePromoCode(code)} is not valid`);
+  }
+
+  assertPromoCodeApplies(promo, business, currency);
+  assertPromoCodeLeavesPayment(promo, lineItems);
+  return promo;
+}
+
+export class PromoCodeExistsError extends Error {
+  constructor(code: string) {
+    super(`Promo code ${code} already exists`);
+  }
+}
+
+export async function createPromoCode(input: PromoCodeInput, createdBy: string): Promise<PromoCode> {
+  const ref = getPromoCodeRef(input.code);
+  if ((await ref.get()).exists) {
+    throw new PromoCodeExistsError(input.code);
+  }
+
+  const coupon = await stripe.coupons.create({
+    name: input.code,
+    duration: "once",
+    ...(input.discountType === "percent"
+      ? { percent_off: input.percentOff }
+      : { amount_off: input.amountOff! * 100, currency: input.currency }),
+    ...(input.expiresAt && { redeem_by: Math.floor(input.expiresAt.getTime() / 1000) }),
+    ...(input.maxRedemptions && { max_redemptions: input.maxRedemptions }),
+    metadata: { promoCode: input.code },
+  });
+
+  // create() fails if a concurrent request took the code in the meantime
+  await ref.create({
+    description: input.description,
+    discountType: input.discountType,
+    ...(input.discountType === "percent"
+      ? { percentOff: input.percentOff }
+      : { amountOff: input.amountOff, currency: input.currency }),
+    countries: input.countries,
+    packages: input.packages,
+    expiresAt: input.expiresAt ? Timestamp.fromDate(input.expiresAt) : null,
+    maxRedemptions: input.maxRedemptions,
+    redemptionCount: 0,
+    active: true,
+    stripeCouponId: coupon.id,
+    createdBy,
+    createdAt: Timestamp.now(),
+  });
+
+  return toPromoCode(await ref.get());
+}
+
+// Inactive codes are rejected for new checkouts. Open Checkout Sessions
+// that already carry the coupon are not affected.
+export async function setPromoCodeActive(code: string, active: boolean): Promise<PromoCode | null> {
+  const ref = getPromoCodeRef(code);
+  if (!(await ref.get()).exists) return null;
+
+  await ref.update({ active });
+  return toPromoCode(await ref.get());
+}
+
+export async function listRedemptions(code: string): Promise<PromoCodeRedemption[]> {
+  const snapshot = await getPromoCodeRef(code)
+    .collection("redemptions")
+    .orderBy("redeemedAt", "desc")
+    .get();
+
+  return snapshot.docs.map(doc => ({
+    ...doc.data(),
+    businessId: doc.id,
+    redeemedAt: toIsoString(doc.data().redeemedAt)!,
+  }) as PromoCodeRedemption);
+}
+
+// Read half of recordRedemption
+export async function getRedemptionSnapshot(transaction: Transaction, code: string, businessId: string) {
+  return transaction.get(getPromoCodeRef(code).collection("redemptions").doc(businessId));
+}
+
+// Count a paid registration against its promo code, once per business
+export function recordRedemption(
+  transaction: Transaction,
+  existing: DocumentSnapshot,
+  code: string,
+  redemption: Omit<PromoCodeRedemption, "redeemedAt">
+) {
+  if (existing.exists) return;
+
+  transaction.create(existing.ref, {
+    ...redemption,
+    redeemedAt: Timestamp.now(),
+  });
+  transaction.update(getPromoCodeRef(code), {
+    redemptionCount: FieldValue.increment(1),
+  });
+}
@@ -0,0 +1,45 @@
+import { REFERRAL_PARAM, normalizeReferralCode } from "@/lib/affiliates";
+import { authFetch } from "@/utils/auth-fetch";
+
+// Client side of referral attribution. The code from a /signup?ref= link
+// is kept in localStorage so it survives detours to the sign-in page, and
+// is claimed once the new account exists.
+const REFERRAL_STORAGE_KEY = "referralCode";
+const CLICKED_STORAGE_KEY = "referralClicked";
+
+// Remember the referral code in the current URL and count the click once
+// per browser
+export function captureReferral() {
+  const code = new URLSearchParams(window.location.search).get(REFERRAL_PARAM);
+  if (!code?.trim()) return;
+
+  const normalized = normalizeReferralCode(code);
+  localStorage.setItem(REFERRAL_STORAGE_KEY, normalized);
+
+  if (localStorage.getItem(CLICKED_STORAGE_KEY) === normalized) return;
+  localStorage.setItem(CLICKED_STORAGE_KEY, normalized);
+
+  fetch("/api/affiliates/clicks", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ code: normalized }),
+  }).catch(error => console.error("Error recording referral click:", error));
+}
+
+// Attribute the signed-in user's new account to the remembered referral
+// code. Failures never block signup.
+export async function claimReferral() {
+  const code = localStorage.getItem(REFERRAL_STORAGE_KEY);
+  if (!code) return;
+
+  try {
+    const response = await authFetch("/api/affiliates/referrals", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code }),
+    });
+    if (response.ok) localStorage.removeItem(REFERRAL_STORAGE_KEY);
+  } catch (error) {
+    console.error("Error claiming referral:", error);
+  }
+}
@@ -0,0 +1,190 @@
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase-admin";
+import { stripe } from "@/lib/stripe";
+import { assertTransition, canTransition } from "@/lib/business-lifecycle";
+import { getBusinessRef, statusUpdate, updateWithEvent } from "@/utils/firebase-admin";
+import { notifyCustomer } from "@/utils/notifications";
+import { rejectCommission } from "@/utils/affiliates";
+import { refundEmail, statusChangedEmail } from "@/lib/email";
+import type { AdminContext } from "@/utils/api-auth";
+
+// A refund or cancellation that cannot be applied to the business as it is
+export class RefundError extends Error {}
+
+export interface RefundEntry {
+  id: string;
+  amount: number; // In cents
+  currency: string;
+  reason: string;
+  actor: { uid: string; email: string; role: string };
+  createdAt: Timestamp;
+}
+
+interface RefundOptions {
+  amount?: number; // In cents; defaults to everything not yet refunded
+  reason: string;
+  // Keep the current status instead of moving a fully refunded business
+  // to "refunded" (used when cancelling)
+  keepStatus?: boolean;
+}
+
+function toActor(admin: AdminContext) {
+  return { uid: admin.uid, email: admin.email, role: admin.role };
+}
+
+// Refund a paid business through Stripe, record who did it and why, and
+// email the customer
+export async function refundBusiness(
+  userId: string,
+  businessId: string,
+  admin: AdminContext,
+  { amount, reason, keepStatus = false }: RefundOptions
+) {
+  const businessRef = getBusinessRef(userId, businessId);
+  const businessDoc = await businessRef.get();
+  if (!businessDoc.exists) {
+    throw new RefundError("Business not found");
+  }
+
+  const paymentDetails = businessDoc.data()!.paymentDetails;
+  if (!paymentDetails?.stripePaymentIntentId || paymentDetails.status !== "succeeded") {
+    throw new RefundError("This business has no successful payment to refund");
+  }
+
+  const alreadyRefunded = paymentDetails.amountRefunded || 0;
+  const refundable = paymentDetails.amount - alreadyRefunded;
+  const refundAmount = amount ?? refundable;
+  if (!Number.isInteger(refundAmount) || refundAmount <= 0) {
+    throw new RefundError("Refund amount must be a positive number of cents");
+  }
+  if (refundAmount > refundable) {
+    throw new RefundError(`At most ${refundable} cents can still be refunded`);
+  }
+
+  // A repeated request (double click, retry) for the same amount against
+  // the same refunded total gets the same refund back from Stripe instead
+  // of refunding twice
+  const refund = await stripe.refunds.create({
+    payment_intent: paymentDetails.stripePaymentIntentId,
+    amount: refundAmount,
+    metadata: { businessId, userId, reason, refundedBy: admin.uid },
+  }, {
+    idempotencyKey: `refund-${businessId}-${alreadyRefunded}-${refundAmount}`,
+  });
+
+  const entry: RefundEntry = {
+    id: refund.id,
+    amount: refund.amount,
+    currency: refund.currency,
+    reason,
+    actor: toActor(admin),
+    createdAt: Timestamp.now(),
+  };
+
+  // The charge.refunded webhook syncs the same total from Stripe and emails
+  // the customer if it gets there first
+  const recorded = await adminDb.runTransaction(async (transaction) => {
+    const current = (await transaction.get(businessRef)).data()!;
+    if ((current.refunds || []).some((existing: RefundEntry) => existing.id === refund.id)) {
+      return null;
+    }
+
+    const previouslyRefunded = current.paymentDetails?.amountRefunded || 0;
+    const amountRefunded = Math.max(previouslyRefunded, alreadyRefunded + refund.amount);
+    const fullyRefunded = amountRefunded >= paymentDetails.amount;
+    const changeStatus = fullyRefunded && !keepStatus && canTransition(current.status, "refunded");
+
+    updateWithEvent(transaction, businessRef, current, {
+      ...(changeStatus
+        ? statusUpdate(current.status, "refunded", { actor: toActor(admin), reason })
+        : { updatedAt: entry.createdAt }),
+      refunds: FieldValue.arrayUnion(entry),
+      "paymentDetails.amountRefunded": amountRefunded,
+    }, { type: "refunded", actor: toActor(admin), reason });
+    return {
+      amountRefunded,
+      fullyRefunded,
+      notify: amountRefunded > previouslyRefunded,
+    };
+  });
+
+  if (recorded?.fullyRefunded) {
+    await rejectCommission(businessId, "Registration refunded", admin.email);
+  }
+
+  if (recorded?.notify) {
+    await notifyCustomer(userId, "paymentReceipts", refundEmail({
+      companyName: businessDoc.data()!.company?.name || "",
+      amount: entry.amount,
+      amountRefunded: recorded.amountRefunded,
+      currency: entry.currency,
+      reason,
+    }));
+  }
+
+  return entry;
+}
+
+// Cancel a registration, optionally refunding whatever has not been
+// refunded yet. Open Checkout Sessions are expired so they cannot be paid.
+export async function cancelBusiness(
+  userId: string,
+  businessId: string,
+  admin: AdminContext,
+  { reason, refund }: { reason: string; refund: boolean }
+) {
+  const businessRef = getBusinessRef(userId, businessId);
+  const businessDoc = await businessRef.get();
+  if (!businessDoc.exists) {
+    throw new RefundError("Business not found");
+  }
+
+  const business = businessDoc.data()!;
+  // Throws StatusTransitionError before anything is refunded
+  assertTransition(business.status, "cancelled");
+
+  if (business.checkout?.status === "open") {
+    const session = await stripe.checkout.sessions.retrieve(business.checkout.sessionId);
+    if (session.status === "open") {
+      await stripe.checkout.sessions.expire(session.id);
+    }
+  }
+
+  let refundEntry: RefundEntry | null = null;
+  const paymentDetails = business.paymentDetails;
+  if (
+    refund &&
+    paymentDetails?.status === "succeeded" &&
+    paymentDetails.amount > (paymentDetails.amountRefunded || 0)
+  ) {
+    refundEntry = await refundBusiness(userId, businessId, admin, { reason, keepStatus: true });
+  }
+
+  await adminDb.runTransaction(async (transaction) => {
+    const current = (await transaction.get(businessRef)).data()!;
+    // The charge.refunded webhook may already have moved a fully refunded
+    // business to "refunded"; the cancellation is still recorded
+    const update = refundEntry && current.status === "refunded"
+      ? { updatedAt: Timestamp.now() }
+      : statusUpdate(current.status, "cancelled", { actor: toActor(admin), reason });
+
+    updateWithEvent(transaction, businessRef, current, {
+      ...update,
+      cancellation: {
+        reason,
+        actor: toActor(admin),
+        createdAt: update.updatedAt,
+      },
+    }, { type: "cancelled", actor: toActor(admin), reason });
+  });
+
+  await rejectCommission(businessId, "Registration cancelled", admin.email);
+
+  await notifyCustomer(userId, "statusUpdates", statusChangedEmail({
+    companyName: business.company?.name || "",
+    status: "cancelled",
+    reason,
+  }));
+
+  return refundEntry;
+}
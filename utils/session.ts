@@ -0,0 +1,94 @@
+import { auth } from "@/lib/firebase";
+import {
+  EmailAuthProvider,
+  GoogleAuthProvider,
+  reauthenticateWithCredential,
+  reauthenticateWithPopup,
+  signOut,
+  type User
+} from "firebase/auth";
+import { authFetch } from "@/utils/auth-fetch";
+
+// Exchange a fresh ID token for the httpOnly session cookie middleware checks
+export async function startSession(user: User) {
+  const idToken = await user.getIdToken(true);
+  const response = await fetch("/api/auth/session", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ idToken }),
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to start session");
+  }
+}
+
+// Clear the session cookie and sign out of the Firebase client
+export async function endSession() {
+  try {
+    await fetch("/api/auth/session", { method: "DELETE" });
+  } finally {
+    await signOut(auth);
+  }
+}
+
+// Re-establish the cookie for a user the Firebase client still remembers.
+// Sign-ins older than a few minutes cannot mint a cookie, so those sign out.
+export async function resumeSession(user: User): Promise<boolean> {
+  try {
+    await startSession(user);
+    return true;
+  } catch {
+    await endSession();
+    return false;
+  }
+}
+
+// Email the signed-in user a verification link through our own templates.
+// After signup pass `welcome` to send the welcome email with the link.
+export async function sendVerificationEmail({ welcome = false } = {}) {
+  const response = await authFetch("/api/auth/verify-email", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ welcome }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to send verification email");
+  }
+}
+
+export function hasPasswordProvider(user: User) {
+  return user.providerData.some(provider => provider.providerId === EmailAuthProvider.PROVIDER_ID);
+}
+
+// Confirm the user's identity again before sensitive changes (email,
+// password, account deletion). Password accounts need their password;
+// Google-only accounts sign in with Google again.
+export async function reauthenticate(user: User, password?: string) {
+  if (hasPasswordProvider(user)) {
+    if (!password) throw new Error("Enter your current password");
+    await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email!, password));
+  } else {
+    await reauthenticateWithPopup(user, new GoogleAuthProvider());
+  }
+}
+
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  "auth/invalid-credential": "The password is incorrect",
+  "auth/wrong-password": "The password is incorrect",
+  "auth/weak-password": "Use a password with at least 6 characters",
+  "auth/email-already-in-use": "Another account already uses this email",
+  "auth/invalid-email": "Enter a valid email address",
+  "auth/credential-already-in-use": "This Google account is linked to another account",
+  "auth/popup-closed-by-user": "The sign-in window was closed",
+  "auth/requires-recent-login": "Please sign in again and retry",
+};
+
+// Readable message for a Firebase Auth error
+export function getAuthErrorMessage(error: unknown) {
+  const code = (error as { code?: string })?.code;
+  if (code && AUTH_ERROR_MESSAGES[code]) return AUTH_ERROR_MESSAGES[code];
+  return error instanceof Error ? error.message : "Something went wrong";
+}
@@ -0,0 +1,232 @@
+import { adminDb, adminStorage } from "@/lib/firebase-admin";
+import { Timestamp } from "firebase-admin/firestore";
+import { DOCUMENTS_COLLECTION, getDocumentRecord, removeDocumentRecord } from "@/utils/documents";
+
+// Garbage collection for Storage. Files under users/ that no business or
+// message refers to (replaced owner IDs, deleted drafts, uploads whose
+// record was never saved) are moved to quarantine/ and listed in the
+// storageQuarantine collection. Files still unreferenced after the grace
+// period are deleted with their document records; files referenced again
+// in the meantime are moved back.
+//
+// A file is referenced when its document record is used by a business
+// (`documents[key].id`, `owner[].documentId`), is an earlier version of
+// one that is, or is a message attachment. Businesses not yet migrated to
+// private storage refer to files by download URL (`documents[key].url`,
+// `owner[].documentUrl`), and those files count as referenced too.
+
+export const STORAGE_QUARANTINE_COLLECTION = "storageQuarantine";
+
+const USERS_PREFIX = "users/";
+const QUARANTINE_PREFIX = "quarantine/";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Files younger than this may belong to a registration still being filled in
+const DEFAULT_MIN_AGE_HOURS = 24;
+const DEFAULT_GRACE_DAYS = 30;
+
+export interface StorageSweepOptions {
+  dryRun?: boolean;
+  minAgeHours?: number;
+  graceDays?: number;
+}
+
+export interface OrphanedFile {
+  path: string;
+  size: number;
+  documentId: string | null; // null when the file has no record
+  updatedAt: string;
+}
+
+export interface StorageSweepReport {
+  dryRun: boolean;
+  scanned: number;
+  referenced: number;
+  tooRecent: number;
+  orphans: OrphanedFile[];
+  quarantined: number;
+  restored: number;
+  deleted: number;
+  deletedBytes: number;
+  // Records whose file no longer exists
+  missingFiles: string[];
+}
+
+// Quarantine entries are keyed by the original path
+function getQuarantineRef(path: string) {
+  return adminDb.collection(STORAGE_QUARANTINE_COLLECTION).doc(encodeURIComponent(path));
+}
+
+// Storage path of a download URL from before private storage, e.g.
+// https://firebasestorage.googleapis.com/v0/b/<bucket>/o/users%2F...?alt=media
+function getPathFromDownloadUrl(url: string) {
+  const encoded = url.split("/o/")[1]?.split("?")[0];
+  return encoded ? decodeURIComponent(encoded) : null;
+}
+
+// Ids of every document record a business or message still uses, and the
+// paths of files businesses still link to by download URL
+async function getBusinessReferences(records: Map<string, { supersedes: string | null }>) {
+  const referenced = new Set<string>();
+  const legacyPaths = new Set<string>();
+
+  const businesses = await adminDb.collectionGroup("businesses").select("documents", "owner").get();
+  for (const businessDoc of businesses.docs) {
+    const { documents, owner } = businessDoc.data();
+    for (const document of Object.values(documents || {}) as { id?: string; url?: string }[]) {
+      if (document?.id) referenced.add(document.id);
+      const path = document?.url && getPathFromDownloadUrl(document.url);
+      if (path) legacyPaths.add(path);
+    }
+    for (const { documentId, documentUrl } of (owner || []) as { documentId?: string; documentUrl?: string }[]) {
+      if (documentId) referenced.add(documentId);
+      const path = documentUrl && getPathFromDownloadUrl(documentUrl);
+      if (path) legacyPaths.add(path);
+    }
+  }
+
+  // Earlier versions are kept as history
+  for (const id of Array.from(referenced)) {
+    let previous = records.get(id)?.supersedes;
+    while (previous && !referenced.has(previous)) {
+      referenced.add(previous);
+      previous = records.get(previous)?.supersedes;
+    }
+  }
+
+  return { referenced, legacyPaths };
+}
+
+// Storage paths of message attachments
+async function getAttachmentPaths() {
+  const paths = new Set<string>();
+  const messages = await adminDb.collectionGroup("messages").select("attachments").get();
+  for (const messageDoc of messages.docs) {
+    for (const { path } of (messageDoc.data().attachments || []) as { path: string }[]) {
+      paths.add(path);
+    }
+  }
+  return paths;
+}
+
+export async function sweepStorage({
+  dryRun = false,
+  minAgeHours = DEFAULT_MIN_AGE_HOURS,
+  graceDays = DEFAULT_GRACE_DAYS,
+}: StorageSweepOptions = {}): Promise<StorageSweepReport> {
+  const bucket = adminStorage.bucket();
+  const now = Date.now();
+
+  const recordDocs = await adminDb.collection(DOCUMENTS_COLLECTION).select("path", "supersedes").get();
+  const records = new Map(recordDocs.docs.map(doc => [
+    doc.id,
+    { path: doc.data().path as string, supersedes: (doc.data().supersedes ?? null) as string | null },
+  ]));
+  const recordIdsByPath = new Map(Array.from(records, ([id, record]) => [record.path, id]));
+
+  const [{ referenced: referencedIds, legacyPaths }, attachmentPaths] = await Promise.all([
+    getBusinessReferences(records),
+    getAttachmentPaths(),
+  ]);
+  const isReferenced = (path: string) => {
+    const documentId = recordIdsByPath.get(path);
+    return attachmentPaths.has(path) ||
+      legacyPaths.has(path) ||
+      (documentId !== undefined && referencedIds.has(documentId));
+  };
+
+  const report: StorageSweepReport = {
+    dryRun,
+    scanned: 0,
+    referenced: 0,
+    tooRecent: 0,
+    orphans: [],
+    quarantined: 0,
+    restored: 0,
+    deleted: 0,
+    deletedBytes: 0,
+    missingFiles: [],
+  };
+
+  // 1. Quarantine unreferenced files
+  const [files] = await bucket.getFiles({ prefix: USERS_PREFIX });
+  const existingPaths = new Set<string>();
+
+  for (const file of files) {
+    existingPaths.add(file.name);
+    report.scanned++;
+
+    if (isReferenced(file.name)) {
+      report.referenced++;
+      continue;
+    }
+
+    const updatedAt = new Date(file.metadata.updated || file.metadata.timeCreated || now);
+    if (now - updatedAt.getTime() < minAgeHours * 60 * 60 * 1000) {
+      report.tooRecent++;
+      continue;
+    }
+
+    const documentId = recordIdsByPath.get(file.name) ?? null;
+    report.orphans.push({
+      path: file.name,
+      size: Number(file.metadata.size) || 0,
+      documentId,
+      updatedAt: updatedAt.toISOString(),
+    });
+    if (dryRun) continue;
+
+    // The entry is written first, so no file sits in quarantine/ without one
+    const entryRef = getQuarantineRef(file.name);
+    await entryRef.set({
+      path: file.name,
+      documentId,
+      size: Number(file.metadata.size) || 0,
+      quarantinedAt: Timestamp.now(),
+    });
+    try {
+      await file.move(`${QUARANTINE_PREFIX}${file.name}`);
+    } catch (error) {
+      await entryRef.delete();
+      throw error;
+    }
+    report.quarantined++;
+  }
+
+  // 2. Restore files referenced again, delete the ones past the grace period
+  const quarantine = await adminDb.collection(STORAGE_QUARANTINE_COLLECTION).get();
+  for (const entry of quarantine.docs) {
+    const { path, documentId, size, quarantinedAt } = entry.data();
+    const quarantined = bucket.file(`${QUARANTINE_PREFIX}${path}`);
+
+    if (isReferenced(path)) {
+      if (!dryRun) {
+        await quarantined.move(path);
+        await entry.ref.delete();
+      }
+      report.restored++;
+      continue;
+    }
+
+    if (now - (quarantinedAt as Timestamp).toMillis() < graceDays * DAY_MS) continue;
+
+    if (!dryRun) {
+      await quarantined.delete({ ignoreNotFound: true });
+      const record = documentId && await getDocumentRecord(documentId);
+      if (record) await removeDocumentRecord(record);
+      await entry.ref.delete();
+    }
+    report.deleted++;
+    report.deletedBytes += size || 0;
+  }
+
+  // 3. Report records whose file is gone and was not quarantined by us
+  const quarantinedPaths = new Set(quarantine.docs.map(entry => entry.data().path as string));
+  for (const { path } of records.values()) {
+    if (!existingPaths.has(path) && !quarantinedPaths.has(path) && path.startsWith(USERS_PREFIX)) {
+      report.missingFiles.push(path);
+    }
+  }
+
+  return report;
+}
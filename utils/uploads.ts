@@ -0,0 +1,141 @@
+import { getFileScanner } from "@/utils/file-scanner";
+import { ATTACHMENT_TYPE, OWNER_ID_TYPE } from "@/lib/documents";
+
+// Server-side checks for /api/upload. The type of a file is taken from its
+// contents, never from the name or Content-Type the client sent, and the
+// file must parse as that type before it is scanned and stored.
+
+export type UploadMimeType = 'application/pdf' | 'image/jpeg' | 'image/png';
+
+interface UploadRule {
+  label: string;
+  types: UploadMimeType[];
+  maxBytes: number;
+}
+
+const MB = 1024 * 1024;
+
+// Keyed by document type. Delivered filings (e.g. "articlesOfOrganization")
+// without a rule of their own use DELIVERABLE_RULE.
+export const UPLOAD_RULES: Record<string, UploadRule> = {
+  // Owner passports and driving licences uploaded during registration
+  [OWNER_ID_TYPE]: { label: 'ID documents', types: ['application/pdf', 'image/jpeg', 'image/png'], maxBytes: 5 * MB },
+  [ATTACHMENT_TYPE]: { label: 'Attachments', types: ['application/pdf', 'image/jpeg', 'image/png'], maxBytes: 10 * MB },
+};
+
+// Filings our team delivers
+const DELIVERABLE_RULE: UploadRule = {
+  label: 'Documents',
+  types: ['application/pdf', 'image/jpeg', 'image/png'],
+  maxBytes: 25 * MB,
+};
+
+export function getUploadRule(documentType: string) {
+  return Object.hasOwn(UPLOAD_RULES, documentType) ? UPLOAD_RULES[documentType] : DELIVERABLE_RULE;
+}
+
+// The largest file any rule accepts, for rejecting oversized requests
+// before reading them
+export const MAX_UPLOAD_BYTES = Math.max(
+  DELIVERABLE_RULE.maxBytes,
+  ...Object.values(UPLOAD_RULES).map(rule => rule.maxBytes)
+);
+
+export const UPLOAD_EXTENSIONS: Record<UploadMimeType, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+};
+
+const TYPE_NAMES: Record<UploadMimeType, string> = {
+  'application/pdf': 'PDF',
+  'image/jpeg': 'JPEG',
+  'image/png': 'PNG',
+};
+
+// An upload that is rejected, with the HTTP status to answer with
+export class UploadError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+const PDF_HEADER = Buffer.from('%PDF-');
+const PDF_TRAILER = Buffer.from('%%EOF');
+const JPEG_HEADER = Buffer.from([0xff, 0xd8, 0xff]);
+const JPEG_TRAILER = Buffer.from([0xff, 0xd9]);
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Identify a file by its magic bytes
+export function detectFileType(buffer: Buffer): UploadMimeType | null {
+  if (buffer.subarray(0, PDF_HEADER.length).equals(PDF_HEADER)) return 'application/pdf';
+  if (buffer.subarray(0, JPEG_HEADER.length).equals(JPEG_HEADER)) return 'image/jpeg';
+  if (buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) return 'image/png';
+  return null;
+}
+
+// Walk the PNG chunks from IHDR to IEND. Each chunk is a 4-byte length,
+// a 4-byte type, the data and a 4-byte CRC.
+function isValidPng(buffer: Buffer) {
+  let offset = PNG_SIGNATURE.length;
+  let first = true;
+
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    if (first && type !== 'IHDR') return false;
+    first = false;
+
+    offset += 12 + length;
+    if (offset > buffer.length) return false;
+    if (type === 'IEND') return true;
+  }
+  return false;
+}
+
+// Files may be followed by a little padding (e.g. trailing newlines)
+function endsWith(buffer: Buffer, trailer: Buffer, within: number) {
+  return buffer.subarray(Math.max(0, buffer.length - within)).includes(trailer);
+}
+
+function isParsable(buffer: Buffer, type: UploadMimeType) {
+  switch (type) {
+    case 'application/pdf':
+      return /^%PDF-\d\.\d/.test(buffer.toString('latin1', 0, 8)) && endsWith(buffer, PDF_TRAILER, 1024);
+    case 'image/jpeg':
+      return endsWith(buffer, JPEG_TRAILER, 32);
+    case 'image/png':
+      return isValidPng(buffer);
+  }
+}
+
+// Check a file against the rule for its document type and scan it. Returns
+// the detected MIME type. Throws UploadError when the file is rejected.
+export async function validateUpload(documentType: string, buffer: Buffer) {
+  const rule = getUploadRule(documentType);
+  const allowed = rule.types.map(type => TYPE_NAMES[type]).join(', ');
+  const maxMb = rule.maxBytes / MB;
+
+  if (buffer.length === 0) {
+    throw new UploadError('The file is empty');
+  }
+  if (buffer.length > rule.maxBytes) {
+    throw new UploadError(`${rule.label} can be at most ${maxMb} MB`, 413);
+  }
+
+  const type = detectFileType(buffer);
+  if (!type || !rule.types.includes(type)) {
+    throw new UploadError(`${rule.label} must be ${allowed} files`, 415);
+  }
+  if (!isParsable(buffer, type)) {
+    throw new UploadError(`The file is not a valid ${TYPE_NAMES[type]} file`, 422);
+  }
+
+  const result = await getFileScanner().scan(buffer);
+  if (!result.clean) {
+    console.warn(`Rejected upload containing ${result.signature}`);
+    throw new UploadError('The file was rejected by our malware scan', 422);
+  }
+
+  return type;
+}